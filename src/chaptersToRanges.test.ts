@@ -0,0 +1,151 @@
+/**
+ * Tests for the IIIF Range Generator
+ *
+ * @see https://iiif.io/api/presentation/3.0/#54-range
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chaptersToRanges } from './chaptersToRanges.js';
+import { parseRanges } from './parseRanges.js';
+import { parseWebVTTChapters } from './parseWebVTTChapters.js';
+import type { Chapter } from './types.js';
+
+describe('chaptersToRanges', () => {
+	const canvas = 'https://example.org/canvas';
+
+	it('should generate a Range per chapter', () => {
+		const ranges = chaptersToRanges(
+			[
+				{ id: 'intro', label: 'Introduction', startTime: 0, endTime: 30 },
+				{ id: 'main', label: 'Main Content', startTime: 30, endTime: 120.5 }
+			],
+			{ canvasId: canvas, language: 'en' }
+		);
+
+		expect(ranges).toEqual([
+			{
+				id: 'intro',
+				type: 'Range',
+				label: { en: ['Introduction'] },
+				items: [{ id: `${canvas}#t=0,30`, type: 'Canvas' }]
+			},
+			{
+				id: 'main',
+				type: 'Range',
+				label: { en: ['Main Content'] },
+				items: [{ id: `${canvas}#t=30,120.5`, type: 'Canvas' }]
+			}
+		]);
+	});
+
+	it('should label plain strings as none by default', () => {
+		const [range] = chaptersToRanges([
+			{ id: 'a', label: 'A', startTime: 0, endTime: 10, canvasId: canvas }
+		]);
+
+		expect(range?.label).toEqual({ none: ['A'] });
+	});
+
+	it('should write an item per segment', () => {
+		const [range] = chaptersToRanges([
+			{
+				id: 'reprise',
+				label: 'Reprise',
+				startTime: 0,
+				endTime: 360,
+				canvasId: canvas,
+				segments: [
+					{ canvasId: canvas, startTime: 0, endTime: 60 },
+					{ canvasId: `${canvas}/2`, startTime: 300, endTime: 360 }
+				]
+			}
+		]);
+
+		expect(range?.items).toEqual([
+			{ id: `${canvas}#t=0,60`, type: 'Canvas' },
+			{ id: `${canvas}/2#t=300,360`, type: 'Canvas' }
+		]);
+	});
+
+	it('should write open-ended chapters as canvas#t=start', () => {
+		const [range] = chaptersToRanges([
+			{ id: 'a', label: 'A', startTime: 95, endTime: Infinity, canvasId: canvas }
+		]);
+
+		expect(range?.items).toEqual([{ id: `${canvas}#t=95`, type: 'Canvas' }]);
+	});
+
+	it('should skip chapters without a canvas', () => {
+		expect(chaptersToRanges([{ id: 'a', label: 'A', startTime: 0, endTime: 10 }])).toEqual([]);
+	});
+
+	it('should write descriptive and linking properties', () => {
+		const [range] = chaptersToRanges(
+			[
+				{
+					id: 'a',
+					label: 'Act One',
+					labelMap: { en: ['Act One'], es: ['Primer acto'] },
+					startTime: 0,
+					endTime: 10,
+					canvasId: canvas,
+					thumbnail: 'https://example.org/thumb.jpg',
+					metadata: { Performer: 'Chorus' },
+					behavior: ['no-nav'],
+					summary: 'The first act',
+					requiredStatement: { label: 'Rights', value: 'CC BY 4.0' },
+					rendering: [
+						{
+							id: 'https://example.org/a.pdf',
+							type: 'Text',
+							label: 'Libretto',
+							format: 'application/pdf'
+						}
+					]
+				}
+			],
+			{ language: 'en' }
+		);
+
+		expect(range).toMatchObject({
+			label: { en: ['Act One'], es: ['Primer acto'] },
+			thumbnail: [{ id: 'https://example.org/thumb.jpg', type: 'Image' }],
+			metadata: [{ label: { en: ['Performer'] }, value: { en: ['Chorus'] } }],
+			behavior: ['no-nav'],
+			summary: { en: ['The first act'] },
+			requiredStatement: { label: { en: ['Rights'] }, value: { en: ['CC BY 4.0'] } },
+			rendering: [
+				{
+					id: 'https://example.org/a.pdf',
+					type: 'Text',
+					label: { en: ['Libretto'] },
+					format: 'application/pdf'
+				}
+			]
+		});
+	});
+
+	it('should be read back into the same chapters by parseRanges', () => {
+		const vtt = `WEBVTT
+
+intro
+00:00:00.000 --> 00:00:30.000
+Introduction
+
+main
+00:00:30.000 --> 00:02:00.250
+Main &amp; Content`;
+		const chapters: Chapter[] = parseWebVTTChapters(vtt, { canvasId: canvas });
+
+		const reparsed = parseRanges({
+			id: 'https://example.org/manifest',
+			type: 'Manifest',
+			items: [{ id: canvas, type: 'Canvas', duration: 120.25 }],
+			structures: chaptersToRanges(chapters)
+		});
+
+		expect(reparsed).toEqual(
+			chapters.map((chapter) => ({ ...chapter, labelMap: { none: [chapter.label] } }))
+		);
+	});
+});
@@ -0,0 +1,141 @@
+/**
+ * IIIF Range Generator
+ *
+ * Turns chapters (for example from a WebVTT chapters track) into IIIF
+ * Presentation 3 Range structures, the reverse of `parseRanges`: each
+ * chapter becomes a Range whose items select its time span of a canvas.
+ *
+ * @see https://iiif.io/api/presentation/3.0/#54-range
+ */
+
+import type {
+	Chapter,
+	ChapterSegment,
+	ChaptersToRangesOptions,
+	IIIFLinkedResource,
+	IIIFRange,
+	LanguageMap,
+	LinkedResource
+} from './types.js';
+import { serializeMediaFragment } from './serializeAnnotationTarget.js';
+
+/**
+ * Generates IIIF Presentation 3 Ranges from chapters.
+ *
+ * Each chapter becomes a top-level Range with the chapter id, a `label`
+ * language map and one `canvas#t=start,end` item per segment (or for the
+ * chapter's own times without segments). The result is ready to use as
+ * `manifest.structures`, and {@link parseRanges} reads it back into the same
+ * chapters. Open-ended chapters (`endTime: Infinity`) get a `canvas#t=start`
+ * item, which `parseRanges` ends at the canvas duration.
+ *
+ * `labelMap`, `metadataEntries`, `thumbnail`, `behavior`, `summary`,
+ * `requiredStatement` and the linking properties are written too; plain
+ * strings go under `options.language`.
+ *
+ * @param chapters - Chapters with canvas-relative times
+ * @param options - Canvas for chapters without one, and label language
+ * @returns Ranges in chapter order
+ *
+ * @remarks
+ * Chapters are skipped when they have no `canvasId`, no segments and no
+ * `options.canvasId`, since a Range item must name its canvas. Times on a
+ * manifest timeline (`parseRanges(manifest, { timeline: 'manifest' })`) are
+ * written as they are, so parse with canvas-relative times first.
+ *
+ * @example
+ * ```typescript
+ * const chapters = parseWebVTTChapters(vtt);
+ * manifest.structures = chaptersToRanges(chapters, {
+ *   canvasId: 'https://example.org/canvas',
+ *   language: 'en'
+ * });
+ * // => [{
+ * //   id: 'intro', type: 'Range', label: { en: ['Introduction'] },
+ * //   items: [{ id: 'https://example.org/canvas#t=0,30', type: 'Canvas' }]
+ * // }]
+ * ```
+ */
+export function chaptersToRanges(
+	chapters: Chapter[],
+	options: ChaptersToRangesOptions = {}
+): IIIFRange[] {
+	const language = options.language ?? 'none';
+	const toMap = (value: string): LanguageMap => ({ [language]: [value] });
+
+	return chapters.flatMap((chapter): IIIFRange[] => {
+		const segments = chapterSegments(chapter, options.canvasId);
+		if (segments.length === 0) {
+			return [];
+		}
+
+		// Build result conditionally (exactOptionalPropertyTypes)
+		const range: IIIFRange = {
+			id: chapter.id,
+			type: 'Range',
+			label: chapter.labelMap ?? toMap(chapter.label),
+			items: segments.map((segment) => ({
+				id: serializeMediaFragment({
+					source: segment.canvasId,
+					// Open-ended chapters run to the end of the canvas
+					temporal: Number.isFinite(segment.endTime)
+						? { start: segment.startTime, end: segment.endTime }
+						: { start: segment.startTime }
+				}),
+				type: 'Canvas'
+			}))
+		};
+
+		if (chapter.metadataEntries) {
+			range.metadata = chapter.metadataEntries;
+		} else if (chapter.metadata) {
+			range.metadata = Object.entries(chapter.metadata).map(([label, value]) => ({
+				label: toMap(label),
+				value: toMap(value)
+			}));
+		}
+		if (chapter.thumbnail) range.thumbnail = [{ id: chapter.thumbnail, type: 'Image' }];
+		if (chapter.behavior) range.behavior = chapter.behavior;
+		if (chapter.summary !== undefined) range.summary = toMap(chapter.summary);
+		if (chapter.requiredStatement) {
+			range.requiredStatement = {
+				label: toMap(chapter.requiredStatement.label),
+				value: toMap(chapter.requiredStatement.value)
+			};
+		}
+		for (const key of ['rendering', 'seeAlso', 'homepage', 'supplementary'] as const) {
+			const links = chapter[key];
+			if (links) range[key] = links.map((link) => toLinkedResource(link, toMap));
+		}
+
+		return [range];
+	});
+}
+
+/**
+ * Lists the time spans a chapter's Range items select.
+ *
+ * @param chapter - Chapter
+ * @param canvasId - Canvas for chapters without one
+ * @returns The chapter's segments, or one segment for its own times
+ */
+function chapterSegments(chapter: Chapter, canvasId: string | undefined): ChapterSegment[] {
+	if (chapter.segments && chapter.segments.length > 0) {
+		return chapter.segments;
+	}
+	const canvas = chapter.canvasId ?? canvasId;
+	return canvas === undefined
+		? []
+		: [{ canvasId: canvas, startTime: chapter.startTime, endTime: chapter.endTime }];
+}
+
+/**
+ * Writes a linked resource back with its label as a language map.
+ */
+function toLinkedResource(
+	link: LinkedResource,
+	toMap: (value: string) => LanguageMap
+): IIIFLinkedResource {
+	const { label, ...rest } = link;
+	return label === undefined ? { ...rest } : { ...rest, label: toMap(label) };
+}
@@ -0,0 +1,163 @@
+/**
+ * Tests for the WebVTT Chapters Writer
+ *
+ * @see https://www.w3.org/TR/webvtt1/#file-using-chapter-title-text
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chaptersToWebVTT } from './chaptersToWebVTT.js';
+import { parseRangeTree } from './parseRanges.js';
+import type { Chapter } from './types.js';
+
+describe('chaptersToWebVTT', () => {
+	const chapters: Chapter[] = [
+		{ id: 'range-2', label: 'Main Content', startTime: 30, endTime: 3725.5 },
+		{ id: 'range-1', label: 'Introduction', startTime: 0, endTime: 30 }
+	];
+
+	it('should write a chapters track sorted by start time', () => {
+		expect(chaptersToWebVTT(chapters)).toBe(
+			[
+				'WEBVTT',
+				'',
+				'range-1',
+				'00:00:00.000 --> 00:00:30.000',
+				'Introduction',
+				'',
+				'range-2',
+				'00:00:30.000 --> 01:02:05.500',
+				'Main Content',
+				''
+			].join('\n')
+		);
+	});
+
+	it('should write an empty track for no chapters', () => {
+		expect(chaptersToWebVTT([])).toBe('WEBVTT\n');
+	});
+
+	describe('timestamps', () => {
+		it('should round to the millisecond', () => {
+			const vtt = chaptersToWebVTT([{ id: 'a', label: 'A', startTime: 1.2344, endTime: 59.9996 }]);
+
+			expect(vtt).toContain('00:00:01.234 --> 00:01:00.000');
+		});
+
+		it('should widen hours past 99', () => {
+			const vtt = chaptersToWebVTT([{ id: 'a', label: 'A', startTime: 0, endTime: 360000 }]);
+
+			expect(vtt).toContain('00:00:00.000 --> 100:00:00.000');
+		});
+
+		it('should leave out chapters without a valid, non-empty time span', () => {
+			const vtt = chaptersToWebVTT([
+				{ id: 'empty', label: 'Empty', startTime: 10, endTime: 10.0001 },
+				{ id: 'reversed', label: 'Reversed', startTime: 20, endTime: 10 },
+				{ id: 'negative', label: 'Negative', startTime: -1, endTime: 10 },
+				{ id: 'open', label: 'Open', startTime: 0, endTime: Infinity },
+				{ id: 'nan', label: 'NaN', startTime: NaN, endTime: 10 }
+			]);
+
+			expect(vtt).toBe('WEBVTT\n');
+		});
+	});
+
+	describe('escaping', () => {
+		it('should escape labels and keep them on one line', () => {
+			const vtt = chaptersToWebVTT([
+				{ id: 'a', label: 'Q&A <live> --> end\n\nPart 2', startTime: 0, endTime: 10 }
+			]);
+
+			expect(vtt).toContain('\nQ&amp;A &lt;live&gt; --&gt; end Part 2\n');
+		});
+
+		it('should make ids valid and unique cue identifiers', () => {
+			const vtt = chaptersToWebVTT([
+				{ id: 'a-->b\nc', label: 'A', startTime: 0, endTime: 10 },
+				{ id: 'dup', label: 'B', startTime: 10, endTime: 20 },
+				{ id: 'dup', label: 'C', startTime: 20, endTime: 30 },
+				{ id: '', label: 'D', startTime: 30, endTime: 40 }
+			]);
+
+			expect(vtt.split('\n\n').slice(1)).toEqual([
+				'a--b c\n00:00:00.000 --> 00:00:10.000\nA',
+				'dup\n00:00:10.000 --> 00:00:20.000\nB',
+				'dup-2\n00:00:20.000 --> 00:00:30.000\nC',
+				'00:00:30.000 --> 00:00:40.000\nD\n'
+			]);
+		});
+	});
+
+	it('should only write chapters on the given canvas', () => {
+		const vtt = chaptersToWebVTT(
+			[
+				{ id: 'a', label: 'A', startTime: 0, endTime: 10, canvasId: 'canvas/1' },
+				{ id: 'b', label: 'B', startTime: 0, endTime: 10, canvasId: 'canvas/2' }
+			],
+			{ canvasId: 'canvas/2' }
+		);
+
+		expect(vtt).not.toContain('\na\n');
+		expect(vtt).toContain('\nb\n');
+	});
+
+	describe('hierarchical chapters', () => {
+		const canvas = 'https://example.org/canvas';
+		const tree = parseRangeTree({
+			id: 'https://example.org/manifest',
+			type: 'Manifest',
+			items: [{ id: canvas, type: 'Canvas', duration: 120 }],
+			structures: [
+				{
+					id: 'act-1',
+					type: 'Range',
+					label: { en: ['Act I'] },
+					items: [
+						{
+							id: 'scene-1',
+							type: 'Range',
+							label: { en: ['Scene 1'] },
+							items: [{ id: `${canvas}#t=0,60`, type: 'Canvas' }]
+						},
+						{
+							id: 'scene-2',
+							type: 'Range',
+							label: { en: ['Scene 2'] },
+							items: [{ id: `${canvas}#t=60,120`, type: 'Canvas' }]
+						}
+					]
+				}
+			]
+		});
+
+		it('should nest child cues inside their parents by default', () => {
+			expect(
+				chaptersToWebVTT(tree)
+					.split('\n\n')
+					.slice(1)
+					.map((cue) => cue.split('\n').slice(0, 3))
+			).toEqual([
+				['act-1', '00:00:00.000 --> 00:02:00.000', 'Act I'],
+				['scene-1', '00:00:00.000 --> 00:01:00.000', 'Scene 1'],
+				['scene-2', '00:01:00.000 --> 00:02:00.000', 'Scene 2']
+			]);
+		});
+
+		it('should prefix leaf labels with their ancestors', () => {
+			expect(chaptersToWebVTT(tree, { hierarchy: 'prefixed', separator: ' – ' })).toBe(
+				[
+					'WEBVTT',
+					'',
+					'scene-1',
+					'00:00:00.000 --> 00:01:00.000',
+					'Act I – Scene 1',
+					'',
+					'scene-2',
+					'00:01:00.000 --> 00:02:00.000',
+					'Act I – Scene 2',
+					''
+				].join('\n')
+			);
+		});
+	});
+});
@@ -0,0 +1,150 @@
+/**
+ * WebVTT Chapters Writer
+ *
+ * Writes chapters as a WebVTT file for `<track kind="chapters">`, as used by
+ * HTML5 players and Video.js: one cue per chapter, identified by the chapter
+ * id, with the escaped label as cue text.
+ *
+ * @see https://www.w3.org/TR/webvtt1/#file-using-chapter-title-text
+ * @see https://html.spec.whatwg.org/multipage/media.html#attr-track-kind
+ */
+
+import type { Chapter, ChapterNode, WebVTTChaptersOptions } from './types.js';
+import { escapeCueText, formatCueId, formatTimestamp } from './webvtt.js';
+
+/**
+ * Cue before serialization, with times in whole milliseconds
+ */
+interface ChapterCue {
+	id: string;
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Writes chapters as a WebVTT chapters track.
+ *
+ * Accepts the chapters of {@link parseRanges} or the tree of
+ * {@link parseRangeTree}. Cues are ordered by start time, enclosing chapters
+ * first, with `HH:MM:SS.mmm` timestamps rounded to the millisecond. Labels are
+ * escaped (`&`, `<`, `>`) and kept on one line; cue ids are the chapter ids,
+ * made unique with a `-2`, `-3`, ... suffix.
+ *
+ * @param chapters - Chapters, or tree nodes with their chapters
+ * @param options - Canvas filter and how to write trees
+ * @returns WebVTT file content
+ *
+ * @remarks
+ * Chapters are left out when:
+ * - Their times are not finite or negative
+ * - They are shorter than a millisecond (WebVTT cues must end after they start)
+ * - `options.canvasId` is set and they are on another canvas
+ *
+ * @example
+ * ```typescript
+ * chaptersToWebVTT(parseRanges(manifest));
+ * // => `WEBVTT
+ * //
+ * // range-1
+ * // 00:00:00.000 --> 00:00:30.000
+ * // Introduction
+ * // `
+ * ```
+ */
+export function chaptersToWebVTT(
+	chapters: Chapter[] | ChapterNode[],
+	options: WebVTTChaptersOptions = {}
+): string {
+	const cues = collectCues(chapters, options)
+		.filter((cue) => options.canvasId === undefined || cue.chapter.canvasId === options.canvasId)
+		.flatMap(({ chapter, label }) => toCue(chapter, label))
+		.sort((a, b) => a.start - b.start || b.end - a.end);
+
+	const blocks: string[] = [];
+	const written = new Set<string>();
+	const ids = new Map<string, number>();
+	for (const cue of cues) {
+		// Shared sub-ranges appear once per parent in nested trees
+		const key = JSON.stringify([cue.id, cue.start, cue.end, cue.text]);
+		if (written.has(key)) {
+			continue;
+		}
+		written.add(key);
+
+		const count = (ids.get(cue.id) ?? 0) + 1;
+		ids.set(cue.id, count);
+		const id = count > 1 ? `${cue.id}-${count}` : cue.id;
+
+		const timing = `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}`;
+		blocks.push(id ? `${id}\n${timing}\n${cue.text}` : `${timing}\n${cue.text}`);
+	}
+
+	return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+/**
+ * Lists the chapters to write, with their cue labels.
+ *
+ * @param chapters - Chapters, or tree nodes with their chapters
+ * @param options - How to write trees
+ * @returns Chapters in input (depth-first) order
+ */
+function collectCues(
+	chapters: Chapter[] | ChapterNode[],
+	options: WebVTTChaptersOptions
+): Array<{ chapter: Chapter; label: string }> {
+	const result: Array<{ chapter: Chapter; label: string }> = [];
+	const separator = options.separator ?? ' / ';
+
+	const visit = (node: ChapterNode, ancestors: string[]): void => {
+		const hasTimedChildren = node.children.some(isTimed);
+		if (node.chapter && (options.hierarchy !== 'prefixed' || !hasTimedChildren)) {
+			const label =
+				options.hierarchy === 'prefixed'
+					? [...ancestors, node.chapter.label].join(separator)
+					: node.chapter.label;
+			result.push({ chapter: node.chapter, label });
+		}
+		node.children.forEach((child) => visit(child, [...ancestors, node.label]));
+	};
+
+	for (const item of chapters) {
+		if (isChapterNode(item)) {
+			visit(item, []);
+		} else if (item) {
+			result.push({ chapter: item, label: item.label });
+		}
+	}
+	return result;
+}
+
+/**
+ * Checks whether a node or any of its descendants has timing.
+ */
+function isTimed(node: ChapterNode): boolean {
+	return node.chapter !== undefined || node.children.some(isTimed);
+}
+
+/**
+ * Tells tree nodes from chapters.
+ */
+function isChapterNode(item: Chapter | ChapterNode): item is ChapterNode {
+	return typeof item === 'object' && item !== null && Array.isArray((item as ChapterNode).children);
+}
+
+/**
+ * Converts a chapter into a cue, rounding its times to the millisecond.
+ *
+ * @param chapter - Chapter
+ * @param label - Cue label
+ * @returns The cue, or nothing if its times are invalid or it would be empty
+ */
+function toCue(chapter: Chapter, label: string): ChapterCue[] {
+	const start = Math.round(chapter.startTime * 1000);
+	const end = Math.round(chapter.endTime * 1000);
+	if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+		return [];
+	}
+	return [{ id: formatCueId(chapter.id), start, end, text: escapeCueText(label) }];
+}
@@ -8,7 +8,15 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseRanges, parseAnnotationTarget, parseMediaFragment } from './index.js';
+import {
+	parseRanges,
+	parseRangeTree,
+	createManifestTimeline,
+	parseAnnotationTarget,
+	parseMediaFragment,
+	parseAnnotationPage,
+	type IIIFAnnotationPage
+} from './index.js';
 import operaSingleCanvas from './fixtures/cookbook-0026-opera-toc.json';
 import operaMultiCanvas from './fixtures/cookbook-0065-opera-multi-canvas.json';
 
@@ -53,6 +61,25 @@ describe('IIIF Cookbook Conformance', () => {
 		});
 	});
 
+	describe('Recipe 0026: Hierarchical Table of Contents', () => {
+		it('should keep the act and scene hierarchy', () => {
+			const [opera] = parseRangeTree(operaSingleCanvas);
+
+			expect(opera?.children.map((node) => node.label)).toEqual(['Atto Primo', 'Atto Secondo']);
+			expect(opera?.children[0]?.children.map((node) => node.depth)).toEqual([2, 2]);
+			expect(opera?.children[0]?.children[0]?.parentId).toBe(opera?.children[0]?.id);
+		});
+
+		it('should span acts over their scenes', () => {
+			const [opera] = parseRangeTree(operaSingleCanvas);
+			const actOne = opera?.children[0]?.chapter;
+
+			expect(actOne?.startTime).toBe(0);
+			expect(actOne?.endTime).toBeCloseTo(3971.24, 2);
+			expect(opera?.chapter?.endTime).toBeCloseTo(7278.422, 2);
+		});
+	});
+
 	describe('Recipe 0065: A/V Table of Contents (Multiple Canvases)', () => {
 		it('should parse chapters across multiple canvases', () => {
 			const chapters = parseRanges(operaMultiCanvas);
@@ -75,6 +102,50 @@ describe('IIIF Cookbook Conformance', () => {
 		});
 	});
 
+	describe('Recipe 0065: Manifest Timeline', () => {
+		it('should order chapters by canvas', () => {
+			const chapters = parseRanges(operaMultiCanvas);
+
+			expect(chapters.map((chapter) => chapter.canvasId?.slice(-8))).toEqual([
+				'canvas/1',
+				'canvas/1',
+				'canvas/2'
+			]);
+		});
+
+		it('should place Act II after Act I on the manifest timeline', () => {
+			const chapters = parseRanges(operaMultiCanvas, { timeline: 'manifest' });
+			const actTwo = chapters.find((chapter) => chapter.label === 'Atto Secondo');
+
+			expect(actTwo?.startTime).toBeCloseTo(3971.24, 2);
+			expect(actTwo?.endTime).toBeCloseTo(3971.24 + 3307.22, 2);
+		});
+
+		it('should map global time back to the second canvas for seeking', () => {
+			const timeline = createManifestTimeline(operaMultiCanvas);
+			const position = timeline.toLocal(4000);
+
+			expect(position?.canvasId).toBe(operaMultiCanvas.items[1]?.id);
+			expect(position?.time).toBeCloseTo(28.76, 2);
+		});
+	});
+
+	describe('Recipe 0065: Painting Annotations', () => {
+		it('should parse the video painted on each canvas', () => {
+			const canvases = operaMultiCanvas.items;
+			const annotations = canvases.flatMap((canvas) =>
+				parseAnnotationPage(canvas.items[0] as IIIFAnnotationPage)
+			);
+
+			expect(annotations).toHaveLength(2);
+			expect(annotations[0]?.motivations).toEqual(['painting']);
+			expect(annotations[0]?.bodies[0]).toMatchObject({ type: 'Video', format: 'video/mp4' });
+			expect(annotations.map((a) => a.targets[0]?.source)).toEqual(
+				canvases.map((canvas) => canvas.id)
+			);
+		});
+	});
+
 	describe('W3C Media Fragment URI Conformance', () => {
 		it('should parse temporal fragment with start and end', () => {
 			const result = parseMediaFragment(
@@ -0,0 +1,61 @@
+/**
+ * Tests for parse diagnostics plumbing
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6901
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDiagnostics, descend, locate, rejectWith, warn } from './diagnostics.js';
+
+describe('diagnostics', () => {
+	it('should build JSON Pointers from nested locations', () => {
+		const root = createDiagnostics();
+		const item = descend(descend(root, 'structures', 0), 'items', 2, 'id');
+
+		warn(item, 'fragment-malformed', 'bad', 'canvas#t=x');
+
+		expect(root.warnings).toEqual([
+			{
+				code: 'fragment-malformed',
+				message: 'bad',
+				value: 'canvas#t=x',
+				pointer: '/structures/0/items/2/id'
+			}
+		]);
+	});
+
+	it('should escape ~ and / in pointer tokens', () => {
+		const root = createDiagnostics();
+
+		warn(descend(root, 'a/b', 'c~d'), 'fragment-malformed', 'bad', 'x');
+
+		expect(root.warnings[0]?.pointer).toBe('/a~1b/c~0d');
+	});
+
+	it('should locate absolute pointers sharing the warning sink', () => {
+		const root = createDiagnostics();
+		const nested = descend(root, 'structures', 0, 'items', 1);
+
+		warn(locate(nested, 'structures', 3), 'range-cycle', 'cycle', 'range');
+
+		expect(root.warnings[0]?.pointer).toBe('/structures/3');
+		expect(locate(undefined, 'structures', 3)).toBeUndefined();
+	});
+
+	it('should do nothing without a context', () => {
+		expect(descend(undefined, 'items', 0)).toBeUndefined();
+		expect(() => warn(undefined, 'fragment-malformed', 'bad', 'x')).not.toThrow();
+		expect(rejectWith(undefined, 'x')('fragment-malformed', 'bad')).toBeUndefined();
+	});
+
+	it('should record rejections with the given raw value', () => {
+		const root = createDiagnostics();
+
+		const result = rejectWith(root, 't=20,10')('temporal-reversed', 'reversed');
+
+		expect(result).toBeUndefined();
+		expect(root.warnings).toEqual([
+			{ code: 'temporal-reversed', message: 'reversed', value: 't=20,10', pointer: '' }
+		]);
+	});
+});
@@ -0,0 +1,102 @@
+/**
+ * Parse Diagnostics
+ *
+ * Internal plumbing for the `…WithDiagnostics` parser variants: a warning
+ * sink paired with the JSON Pointer of the input currently being parsed.
+ * Parsers take an optional context and skip all bookkeeping without one.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6901
+ */
+
+import type { ParseWarning, ParseWarningCode } from './types.js';
+
+/**
+ * Warning sink and current location in the input.
+ */
+export interface DiagnosticsContext {
+	warnings: ParseWarning[];
+	pointer: string;
+}
+
+/**
+ * Records why a value was rejected.
+ *
+ * Returns undefined so value parsers can `return reject(...)` where they would
+ * otherwise return undefined.
+ */
+export type Reject = (code: ParseWarningCode, message: string) => undefined;
+
+/**
+ * Reject callback for callers that do not collect diagnostics.
+ */
+const ignoreRejection: Reject = () => undefined;
+
+/**
+ * Creates an empty diagnostics context rooted at the input document.
+ */
+export function createDiagnostics(): DiagnosticsContext {
+	return { warnings: [], pointer: '' };
+}
+
+/**
+ * Escapes a JSON Pointer reference token (`~` → `~0`, `/` → `~1`).
+ */
+function escapePointerToken(token: string | number): string {
+	return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Returns a context pointing at a child of the current location.
+ *
+ * @param diagnostics - Current context (undefined when not collecting)
+ * @param tokens - Property names or array indices below the current location
+ */
+export function descend(
+	diagnostics: DiagnosticsContext | undefined,
+	...tokens: Array<string | number>
+): DiagnosticsContext | undefined {
+	if (!diagnostics) {
+		return undefined;
+	}
+	const suffix = tokens.map((token) => `/${escapePointerToken(token)}`).join('');
+	return { warnings: diagnostics.warnings, pointer: diagnostics.pointer + suffix };
+}
+
+/**
+ * Returns a context pointing at an absolute location in the input, sharing
+ * the warning sink of `diagnostics`.
+ *
+ * @param diagnostics - Any context of the input (undefined when not collecting)
+ * @param tokens - Property names or array indices from the document root
+ */
+export function locate(
+	diagnostics: DiagnosticsContext | undefined,
+	...tokens: Array<string | number>
+): DiagnosticsContext | undefined {
+	return descend(diagnostics && { warnings: diagnostics.warnings, pointer: '' }, ...tokens);
+}
+
+/**
+ * Records a warning at the current location.
+ */
+export function warn(
+	diagnostics: DiagnosticsContext | undefined,
+	code: ParseWarningCode,
+	message: string,
+	value: string
+): void {
+	diagnostics?.warnings.push({ code, message, value, pointer: diagnostics.pointer });
+}
+
+/**
+ * Creates a reject callback that records warnings for `value` at the current location.
+ */
+export function rejectWith(diagnostics: DiagnosticsContext | undefined, value: string): Reject {
+	if (!diagnostics) {
+		return ignoreRejection;
+	}
+	return (code, message) => {
+		warn(diagnostics, code, message, value);
+		return undefined;
+	};
+}
@@ -10,17 +10,94 @@ import { describe, test, expect } from 'vitest';
 import {
 	// Types
 	type Chapter,
+	type ChapterNode,
+	type ChapterSegment,
+	type LinkedResource,
+	type RequiredStatement,
+	type LanguageMap,
+	type MetadataEntry,
+	type ParseRangesOptions,
+	type ManifestTimeline,
+	type TimelineCanvas,
+	type TimelinePosition,
 	type SpeakerSegment,
 	type TemporalFragment,
+	type TemporalFormat,
 	type SpatialFragment,
+	type MediaFragmentDimension,
 	type ParsedAnnotationTarget,
 	type AnnotationTargetInput,
 	type IIIFResourceType,
+	type SpecificResource,
+	type TargetCollection,
+	type SerializeOptions,
+	type WebVTTChaptersOptions,
+	type ParseWebVTTChaptersOptions,
+	type ChaptersToRangesOptions,
+	type PodcastChapters,
+	type PodcastChaptersOptions,
+	type ParsePodcastChaptersOptions,
+	type FFMetadataOptions,
+	type ParseFFMetadataOptions,
+	type IIIFManifest,
+	type IIIFRange,
+	type SvgGeometry,
+	type SvgShape,
+	type Point,
+	type BoundingBox,
+	type ParseWarning,
+	type ParseWarningCode,
+	type DiagnosticResult,
+	type Size,
+	type ResolvedRegion,
+	type ResolveRegionOptions,
+	type PaintedMedia,
+	type IIIFAnnotation,
+	type IIIFAnnotationPage,
+	type IIIFAnnotationBody,
+	type IIIFAgent,
+	type ParsedAnnotation,
+	type AnnotationBody,
+	type AnnotationAgent,
+	type Presentation2Annotation,
+	type Presentation2AnnotationList,
+	type Presentation2SpecificResource,
+	type Presentation2Selector,
+	type Presentation2Value,
+	type Presentation2Link,
+	type Presentation2Range,
+	type Presentation2Manifest,
+	type TemporalItem,
+	type TemporalIndex,
+	type HitTestOptions,
+	type HitTestResult,
 	// Functions
 	parseRanges,
+	parseRangesWithDiagnostics,
+	parseRangeTree,
+	createManifestTimeline,
+	resolveLanguageMap,
 	parseSpeakers,
 	parseAnnotationTarget,
-	parseMediaFragment
+	parseAnnotationTargets,
+	parseMediaFragment,
+	parseMediaFragmentWithDiagnostics,
+	serializeMediaFragment,
+	toSpecificResource,
+	chaptersToWebVTT,
+	parseWebVTTChapters,
+	chaptersToRanges,
+	chaptersToPodcastChapters,
+	parsePodcastChapters,
+	chaptersToFFMetadata,
+	parseFFMetadata,
+	parseSvgSelector,
+	resolveSpatialFragment,
+	projectToMedia,
+	createTemporalIndex,
+	hitTest,
+	parseAnnotation,
+	parseAnnotationPage
 } from './index.js';
 
 describe('Public API exports', () => {
@@ -52,6 +129,12 @@ describe('Public API exports', () => {
 			expect(temporal.start).toBe(10);
 		});
 
+		test('TemporalFormat type is usable', () => {
+			const format: TemporalFormat = 'smpte-30-drop';
+			const temporal: TemporalFragment = { start: 10, format };
+			expect(temporal.format).toBe('smpte-30-drop');
+		});
+
 		test('SpatialFragment type is usable', () => {
 			const spatial: SpatialFragment = {
 				x: 100,
@@ -63,6 +146,15 @@ describe('Public API exports', () => {
 			expect(spatial.unit).toBe('pixel');
 		});
 
+		test('MediaFragmentDimension type is usable', () => {
+			const dimensions: MediaFragmentDimension[] = ['t', 'xywh', 'track', 'id'];
+			const target: ParsedAnnotationTarget = {
+				source: 'https://example.org/canvas',
+				invalidDimensions: dimensions
+			};
+			expect(target.invalidDimensions).toHaveLength(4);
+		});
+
 		test('ParsedAnnotationTarget type is usable', () => {
 			const target: ParsedAnnotationTarget = {
 				source: 'https://example.org/canvas',
@@ -85,6 +177,239 @@ describe('Public API exports', () => {
 			expect(input.type).toBe('SpecificResource');
 		});
 
+		test('AnnotationTargetInput type accepts TargetCollection and arrays', () => {
+			const collection: TargetCollection = {
+				type: 'List',
+				items: ['https://example.org/canvas/1', 'https://example.org/canvas/2']
+			};
+			const input: AnnotationTargetInput = [collection, 'https://example.org/canvas/3'];
+			expect(input).toHaveLength(2);
+		});
+
+		test('SpecificResource and SerializeOptions types are usable', () => {
+			const options: SerializeOptions = { pixelUnit: true, sourceType: 'Canvas' };
+			const resource: SpecificResource = toSpecificResource(
+				{ source: 'https://example.org/canvas', temporal: { start: 1 } },
+				options
+			);
+			expect(resource.type).toBe('SpecificResource');
+		});
+
+		test('SvgGeometry types are usable', () => {
+			const point: Point = { x: 1, y: 2 };
+			const bounds: BoundingBox = { x: 1, y: 2, width: 0, height: 0 };
+			const shape: SvgShape = { type: 'polygon', points: [point] };
+			const geometry: SvgGeometry = { shapes: [shape], bounds };
+			expect(geometry.shapes[0]?.type).toBe('polygon');
+		});
+
+		test('ParseWarning and DiagnosticResult types are usable', () => {
+			const code: ParseWarningCode = 'temporal-reversed';
+			const warning: ParseWarning = { code, message: 'reversed', value: 't=20,10', pointer: '' };
+			const diagnostic: DiagnosticResult<string> = { result: 'ok', warnings: [warning] };
+			expect(diagnostic.warnings[0]?.code).toBe('temporal-reversed');
+		});
+
+		test('spatial resolution types are usable', () => {
+			const canvas: Size = { width: 640, height: 360 };
+			const media: PaintedMedia = { width: 1920, height: 1080 };
+			const options: ResolveRegionOptions = { clamp: false };
+			const region: ResolvedRegion | undefined = projectToMedia(
+				{ x: 0, y: 0, width: 320, height: 180, unit: 'pixel' },
+				canvas,
+				media,
+				options
+			);
+			expect(region?.pixel.width).toBe(960);
+		});
+
+		test('annotation types are usable', () => {
+			const body: IIIFAnnotationBody = { type: 'TextualBody', value: 'Hello' };
+			const creator: IIIFAgent = { id: 'https://example.org/user/1', name: 'Mary' };
+			const annotation: IIIFAnnotation = {
+				id: 'https://example.org/anno/1',
+				type: 'Annotation',
+				body,
+				creator,
+				target: 'https://example.org/canvas#t=1,2'
+			};
+			const page: IIIFAnnotationPage = { type: 'AnnotationPage', items: [annotation] };
+			const [parsed]: ParsedAnnotation[] = parseAnnotationPage(page);
+			const parsedBody: AnnotationBody | undefined = parsed?.bodies[0];
+			const parsedCreator: AnnotationAgent | undefined = parsed?.creators?.[0];
+			expect(parsedBody?.value).toBe('Hello');
+			expect(parsedCreator?.name).toBe('Mary');
+		});
+
+		test('ChapterSegment type is usable', () => {
+			const segment: ChapterSegment = {
+				canvasId: 'https://example.org/canvas/1',
+				startTime: 0,
+				endTime: 60
+			};
+			const chapter: Chapter = {
+				id: 'range-1',
+				label: 'Reprise',
+				startTime: 0,
+				endTime: 60,
+				segments: [segment]
+			};
+			expect(chapter.segments?.[0]?.canvasId).toBe(segment.canvasId);
+		});
+
+		test('language map types are usable', () => {
+			const labelMap: LanguageMap = { en: ['Act One'], es: ['Primer acto'] };
+			const entry: MetadataEntry = { label: { en: ['Composer'] }, value: { none: ['Donizetti'] } };
+			const chapter: Chapter = {
+				id: 'range-1',
+				label: 'Act One',
+				startTime: 0,
+				endTime: 60,
+				labelMap,
+				metadataEntries: [entry]
+			};
+			expect(resolveLanguageMap(chapter.labelMap, ['es-MX'])).toBe('Primer acto');
+		});
+
+		test('ChapterNode type is usable', () => {
+			const node: ChapterNode = {
+				id: 'act-1',
+				label: 'Act I',
+				depth: 0,
+				children: [{ id: 'scene-1', label: 'Scene 1', depth: 1, parentId: 'act-1', children: [] }]
+			};
+			expect(node.children[0]?.parentId).toBe(node.id);
+		});
+
+		test('timeline types are usable', () => {
+			const options: ParseRangesOptions = { timeline: 'manifest' };
+			const timeline: ManifestTimeline = createManifestTimeline({
+				items: [{ id: 'https://example.org/canvas/1', duration: 10 }]
+			});
+			const canvas: TimelineCanvas | undefined = timeline.canvases[0];
+			const position: TimelinePosition | null = timeline.toLocal(5);
+			expect(options.timeline).toBe('manifest');
+			expect(canvas?.offset).toBe(0);
+			expect(position?.time).toBe(5);
+		});
+
+		test('TemporalIndex type is usable', () => {
+			const items: TemporalItem[] = [
+				{ start: 0, end: 10 },
+				{ id: 'c1', label: 'Intro', startTime: 5, endTime: 15 }
+			];
+			const index: TemporalIndex<TemporalItem> = createTemporalIndex(items);
+			expect(index.at(7)).toHaveLength(2);
+			expect(index.nextBoundary(7)).toBe(10);
+		});
+
+		test('hit testing types are usable', () => {
+			const options: HitTestOptions = { time: 5, canvas: { width: 100, height: 100 } };
+			const target = parseAnnotationTarget('https://example.org/canvas#t=0,10&xywh=0,0,10,10');
+			const hits: HitTestResult<ParsedAnnotationTarget>[] = hitTest(
+				target ? [target] : [],
+				{ x: 5, y: 5 },
+				options
+			);
+			expect(hits[0]?.area).toBe(100);
+		});
+
+		test('WebVTTChaptersOptions type is usable', () => {
+			const options: WebVTTChaptersOptions = { canvasId: 'canvas', hierarchy: 'prefixed' };
+			const vtt = chaptersToWebVTT(
+				[{ id: 'r1', label: 'Intro', startTime: 0, endTime: 10, canvasId: 'canvas' }],
+				options
+			);
+			expect(vtt).toContain('00:00:00.000 --> 00:00:10.000');
+		});
+
+		test('WebVTT import and Range generation types are usable', () => {
+			const parseOptions: ParseWebVTTChaptersOptions = { canvasId: 'canvas', idPrefix: 'range-' };
+			const rangeOptions: ChaptersToRangesOptions = { language: 'en' };
+			const chapters = parseWebVTTChapters(
+				'WEBVTT\n\n00:00.000 --> 00:10.000\nIntro\n',
+				parseOptions
+			);
+			const structures: IIIFRange[] = chaptersToRanges(chapters, rangeOptions);
+			const manifest: IIIFManifest = { id: 'manifest', type: 'Manifest', structures };
+			expect(parseRanges(manifest)[0]?.id).toBe('range-1');
+		});
+
+		test('Podcast chapters types are usable', () => {
+			const options: PodcastChaptersOptions = { title: 'Episode 1' };
+			const file: PodcastChapters = chaptersToPodcastChapters(
+				[{ id: 'r1', label: 'Intro', startTime: 0, endTime: 10 }],
+				options
+			);
+			const parseOptions: ParsePodcastChaptersOptions = { idPrefix: 'chapter-' };
+			expect(parsePodcastChapters(file, parseOptions)[0]?.id).toBe('chapter-1');
+		});
+
+		test('FFmpeg metadata types are usable', () => {
+			const options: FFMetadataOptions = { timebase: 1000, metadata: { title: 'Interview' } };
+			const metadata = chaptersToFFMetadata(
+				[{ id: 'r1', label: 'Intro', startTime: 0, endTime: 10 }],
+				options
+			);
+			const parseOptions: ParseFFMetadataOptions = { idPrefix: 'chapter-' };
+			expect(parseFFMetadata(metadata, parseOptions)[0]?.id).toBe('chapter-1');
+		});
+
+		test('Presentation 2 annotation types are usable', () => {
+			const selector: Presentation2Selector = {
+				'@type': 'oa:FragmentSelector',
+				value: 'xywh=0,0,10,10'
+			};
+			const on: Presentation2SpecificResource = {
+				'@type': 'oa:SpecificResource',
+				full: 'https://example.org/canvas',
+				selector
+			};
+			const annotation: Presentation2Annotation = { '@type': 'oa:Annotation', on };
+			const list: Presentation2AnnotationList = {
+				'@type': 'sc:AnnotationList',
+				resources: [annotation]
+			};
+			const [parsed] = parseAnnotationPage(list);
+			expect(parsed?.targets[0]?.spatial?.width).toBe(10);
+		});
+
+		test('LinkedResource and RequiredStatement types are usable', () => {
+			const rendering: LinkedResource = {
+				id: 'https://example.org/transcript.pdf',
+				type: 'Text',
+				format: 'application/pdf'
+			};
+			const requiredStatement: RequiredStatement = { label: 'Rights', value: 'CC BY 4.0' };
+			const chapter: Chapter = {
+				id: 'r1',
+				label: 'Intro',
+				startTime: 0,
+				endTime: 10,
+				rendering: [rendering],
+				requiredStatement
+			};
+			expect(chapter.rendering?.[0]?.format).toBe('application/pdf');
+		});
+
+		test('Presentation 2 manifest types are usable', () => {
+			const label: Presentation2Value = { '@value': 'Act I', '@language': 'en' };
+			const related: Presentation2Link = 'https://example.org/act-1';
+			const range: Presentation2Range = {
+				'@id': 'https://example.org/range/1',
+				'@type': 'sc:Range',
+				label,
+				related,
+				canvases: ['https://example.org/canvas#t=0,30']
+			};
+			const manifest: Presentation2Manifest = {
+				'@id': 'https://example.org/manifest',
+				'@type': 'sc:Manifest',
+				structures: [range]
+			};
+			expect(parseRanges(manifest)[0]?.label).toBe('Act I');
+		});
+
 		test('IIIFResourceType restricts to valid IIIF types', () => {
 			const types: IIIFResourceType[] = ['Canvas', 'Image', 'Sound', 'Video', 'Text', 'Dataset'];
 			expect(types).toHaveLength(6);
@@ -99,6 +424,22 @@ describe('Public API exports', () => {
 			expect(typeof parseRanges).toBe('function');
 		});
 
+		test('parseRangesWithDiagnostics is exported and callable', () => {
+			expect(typeof parseRangesWithDiagnostics).toBe('function');
+		});
+
+		test('parseRangeTree is exported and callable', () => {
+			expect(typeof parseRangeTree).toBe('function');
+		});
+
+		test('createManifestTimeline is exported and callable', () => {
+			expect(typeof createManifestTimeline).toBe('function');
+		});
+
+		test('resolveLanguageMap is exported and callable', () => {
+			expect(typeof resolveLanguageMap).toBe('function');
+		});
+
 		test('parseSpeakers is exported and callable', () => {
 			expect(typeof parseSpeakers).toBe('function');
 		});
@@ -107,9 +448,81 @@ describe('Public API exports', () => {
 			expect(typeof parseAnnotationTarget).toBe('function');
 		});
 
+		test('parseAnnotationTargets is exported and callable', () => {
+			expect(typeof parseAnnotationTargets).toBe('function');
+		});
+
 		test('parseMediaFragment is exported and callable', () => {
 			expect(typeof parseMediaFragment).toBe('function');
 		});
+
+		test('parseMediaFragmentWithDiagnostics is exported and callable', () => {
+			expect(typeof parseMediaFragmentWithDiagnostics).toBe('function');
+		});
+
+		test('serializeMediaFragment is exported and callable', () => {
+			expect(typeof serializeMediaFragment).toBe('function');
+		});
+
+		test('toSpecificResource is exported and callable', () => {
+			expect(typeof toSpecificResource).toBe('function');
+		});
+
+		test('chaptersToWebVTT is exported and callable', () => {
+			expect(typeof chaptersToWebVTT).toBe('function');
+		});
+
+		test('parseWebVTTChapters is exported and callable', () => {
+			expect(typeof parseWebVTTChapters).toBe('function');
+		});
+
+		test('chaptersToRanges is exported and callable', () => {
+			expect(typeof chaptersToRanges).toBe('function');
+		});
+
+		test('chaptersToPodcastChapters is exported and callable', () => {
+			expect(typeof chaptersToPodcastChapters).toBe('function');
+		});
+
+		test('parsePodcastChapters is exported and callable', () => {
+			expect(typeof parsePodcastChapters).toBe('function');
+		});
+
+		test('chaptersToFFMetadata is exported and callable', () => {
+			expect(typeof chaptersToFFMetadata).toBe('function');
+		});
+
+		test('parseFFMetadata is exported and callable', () => {
+			expect(typeof parseFFMetadata).toBe('function');
+		});
+
+		test('parseSvgSelector is exported and callable', () => {
+			expect(typeof parseSvgSelector).toBe('function');
+		});
+
+		test('parseAnnotation is exported and callable', () => {
+			expect(typeof parseAnnotation).toBe('function');
+		});
+
+		test('parseAnnotationPage is exported and callable', () => {
+			expect(typeof parseAnnotationPage).toBe('function');
+		});
+
+		test('resolveSpatialFragment is exported and callable', () => {
+			expect(typeof resolveSpatialFragment).toBe('function');
+		});
+
+		test('projectToMedia is exported and callable', () => {
+			expect(typeof projectToMedia).toBe('function');
+		});
+
+		test('createTemporalIndex is exported and callable', () => {
+			expect(typeof createTemporalIndex).toBe('function');
+		});
+
+		test('hitTest is exported and callable', () => {
+			expect(typeof hitTest).toBe('function');
+		});
 	});
 
 	describe('Type consistency', () => {
@@ -0,0 +1,201 @@
+/**
+ * Tests for FFmpeg Metadata Chapters
+ *
+ * @see https://ffmpeg.org/ffmpeg-formats.html#Metadata-2
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chaptersToFFMetadata, parseFFMetadata } from './ffmetadata.js';
+import { parseRanges } from './parseRanges.js';
+import type { Chapter } from './types.js';
+
+describe('chaptersToFFMetadata', () => {
+	it('should write chapter blocks sorted by start time', () => {
+		const metadata = chaptersToFFMetadata(
+			[
+				{ id: 'b', label: 'Main Content', startTime: 30, endTime: 120 },
+				{ id: 'a', label: 'Introduction', startTime: 0, endTime: 30 }
+			],
+			{ metadata: { title: 'Interview', artist: 'MITH' } }
+		);
+
+		expect(metadata).toBe(
+			[
+				';FFMETADATA1',
+				'title=Interview',
+				'artist=MITH',
+				'',
+				'[CHAPTER]',
+				'TIMEBASE=1/1000',
+				'START=0',
+				'END=30000',
+				'title=Introduction',
+				'',
+				'[CHAPTER]',
+				'TIMEBASE=1/1000',
+				'START=30000',
+				'END=120000',
+				'title=Main Content',
+				''
+			].join('\n')
+		);
+	});
+
+	it('should escape special characters in titles and tags', () => {
+		const metadata = chaptersToFFMetadata(
+			[{ id: 'a', label: 'Q&A = #1; C:\\ \r\nPart 2', startTime: 0, endTime: 1 }],
+			{ metadata: { 'key=1': 'a;b' } }
+		);
+
+		expect(metadata).toContain('key\\=1=a\\;b\n');
+		expect(metadata).toContain('title=Q&A \\= \\#1\\; C:\\\\ \\\nPart 2\n');
+	});
+
+	it('should round times without producing overlaps', () => {
+		const chapters: Chapter[] = [
+			{ id: 'a', label: 'A', startTime: 0, endTime: 10.0006 },
+			{ id: 'b', label: 'B', startTime: 10.0006, endTime: 20.4 },
+			{ id: 'c', label: 'C', startTime: 20.4, endTime: 20.6 }
+		];
+
+		expect(chaptersToFFMetadata(chapters)).toMatch(/END=10001\n.*\n\n.*\n.*\nSTART=10001\n/s);
+
+		const seconds = chaptersToFFMetadata(chapters, { timebase: 1 });
+		expect(seconds.match(/START=\d+|END=\d+/g)).toEqual([
+			'START=0',
+			'END=10',
+			'START=10',
+			'END=20',
+			'START=20',
+			'END=21'
+		]);
+		expect(chaptersToFFMetadata(chapters, { timebase: 90_000 })).toMatch(
+			/END=900090\n.*\n\n.*\n.*\nSTART=900090\n/s
+		);
+	});
+
+	it('should leave out invalid, empty and other-canvas chapters', () => {
+		const metadata = chaptersToFFMetadata(
+			[
+				{ id: 'a', label: 'A', startTime: 0, endTime: 10, canvasId: 'canvas/1' },
+				{ id: 'b', label: 'B', startTime: 0, endTime: 10, canvasId: 'canvas/2' },
+				{ id: 'c', label: 'C', startTime: 10, endTime: Infinity, canvasId: 'canvas/2' },
+				{ id: 'd', label: 'D', startTime: 10, endTime: 10.0001, canvasId: 'canvas/2' }
+			],
+			{ canvasId: 'canvas/2', timebase: 0.5 }
+		);
+
+		expect(metadata).toBe(
+			';FFMETADATA1\n\n[CHAPTER]\nTIMEBASE=1/1000\nSTART=0\nEND=10000\ntitle=B\n'
+		);
+		expect(chaptersToFFMetadata([])).toBe(';FFMETADATA1\n');
+	});
+});
+
+describe('parseFFMetadata', () => {
+	it('should parse chapter blocks', () => {
+		const metadata = [
+			';FFMETADATA1',
+			'title=bike\\\\shed',
+			';this is a comment',
+			'',
+			'[CHAPTER]',
+			'TIMEBASE=1/1000',
+			'START=0',
+			'#chapter ends at 0:01:00',
+			'END=60000',
+			'title=chapter \\#1',
+			'[STREAM]',
+			'title=multi\\',
+			'line',
+			'[CHAPTER]',
+			'TIMEBASE=1/90000',
+			'START=5400000',
+			'END=8100000',
+			'TITLE=Part \\= 2\\',
+			'continued'
+		].join('\r\n');
+
+		expect(parseFFMetadata(metadata, { canvasId: 'canvas/1', idPrefix: 'ch' })).toEqual([
+			{
+				id: 'ch1',
+				label: 'chapter #1',
+				startTime: 0,
+				endTime: 60,
+				canvasId: 'canvas/1',
+				segments: [{ canvasId: 'canvas/1', startTime: 0, endTime: 60 }]
+			},
+			{
+				id: 'ch2',
+				label: 'Part = 2\ncontinued',
+				startTime: 60,
+				endTime: 90,
+				canvasId: 'canvas/1',
+				segments: [{ canvasId: 'canvas/1', startTime: 60, endTime: 90 }]
+			}
+		]);
+	});
+
+	it('should use the default time base and fill in missing ends', () => {
+		const chapters = parseFFMetadata(
+			[
+				';FFMETADATA1',
+				'[CHAPTER]',
+				'START=30000000000',
+				'[CHAPTER]',
+				'START=0',
+				'[CHAPTER]',
+				'TIMEBASE=1/0',
+				'START=0',
+				'END=1',
+				'[CHAPTER]',
+				'TIMEBASE=1/1000',
+				'START=5000',
+				'END=1000',
+				'[CHAPTER]',
+				'TIMEBASE=1/1000',
+				'END=1000'
+			].join('\n'),
+			{ untitledLabel: 'Chapter' }
+		);
+
+		expect(chapters).toEqual([
+			{ id: '2', label: 'Chapter', startTime: 0, endTime: 30 },
+			{ id: '1', label: 'Chapter', startTime: 30, endTime: Infinity }
+		]);
+	});
+
+	it('should return empty array for content that is not a metadata file', () => {
+		expect(parseFFMetadata('')).toEqual([]);
+		expect(parseFFMetadata('WEBVTT\n\n00:00.000 --> 00:01.000\nA')).toEqual([]);
+		expect(parseFFMetadata('[CHAPTER]\nSTART=0\nEND=1')).toEqual([]);
+	});
+
+	it('should round-trip chapters from parseRanges', () => {
+		const canvasId = 'https://example.org/canvas/1';
+		const manifest = {
+			items: [{ id: canvasId, type: 'Canvas', duration: 120 }],
+			structures: [
+				{
+					id: 'r1',
+					type: 'Range',
+					label: { en: ['Introduction; Part #1'] },
+					items: [{ id: `${canvasId}#t=0,30.0004`, type: 'Canvas' }]
+				},
+				{
+					id: 'r2',
+					type: 'Range',
+					label: { en: ['Main = Content'] },
+					items: [{ id: `${canvasId}#t=30.0004,120`, type: 'Canvas' }]
+				}
+			]
+		};
+
+		const chapters = parseFFMetadata(chaptersToFFMetadata(parseRanges(manifest)));
+
+		expect(chapters.map(({ label, startTime, endTime }) => [label, startTime, endTime])).toEqual([
+			['Introduction; Part #1', 0, 30],
+			['Main = Content', 30, 120]
+		]);
+	});
+});
@@ -0,0 +1,283 @@
+/**
+ * FFmpeg Metadata Chapters
+ *
+ * Converts chapters to and from FFmpeg's metadata text format (`;FFMETADATA1`),
+ * used to embed chapter markers when encoding MP4 or MKV derivatives
+ * (`ffmpeg -i media.mp4 -i chapters.txt -map_metadata 1 -codec copy out.mp4`)
+ * and to read them back from existing files (`ffmpeg -i media.mp4 -f ffmetadata chapters.txt`).
+ *
+ * @see https://ffmpeg.org/ffmpeg-formats.html#Metadata-2
+ */
+
+import type { Chapter, FFMetadataOptions, ParseFFMetadataOptions } from './types.js';
+
+/**
+ * First line of every metadata file.
+ */
+const HEADER = ';FFMETADATA1';
+
+/**
+ * Ticks per second written when no valid time base is given.
+ */
+const DEFAULT_TIMEBASE = 1000;
+
+/**
+ * Time base FFmpeg assumes for chapters without `TIMEBASE`.
+ */
+const READ_TIMEBASE = { num: 1, den: 1_000_000_000 };
+
+/**
+ * Characters escaped with a backslash in keys and values.
+ */
+const SPECIAL_CHARACTERS = /[=;#\\\n]/g;
+
+/**
+ * Line of a metadata file, with escapes resolved
+ */
+interface MetadataLine {
+	/** Line as written, to recognize comments and section headers */
+	raw: string;
+
+	/** Text before the first unescaped `=` (the whole line if there is none) */
+	key: string;
+
+	/** Text after the first unescaped `=`, or null if there is none */
+	value: string | null;
+}
+
+/**
+ * `[CHAPTER]` section before conversion
+ */
+interface ChapterSection {
+	position: number;
+	tags: Map<string, string>;
+}
+
+/**
+ * Writes chapters as an FFmpeg metadata file.
+ *
+ * Chapters become `[CHAPTER]` blocks sorted by start time, enclosing chapters
+ * first, with the label as `title`. Times are rounded to the millisecond and
+ * then to the time base; start and end times go through the same rounding, so
+ * chapters that meet or are apart on the canvas never overlap in the file.
+ * `=`, `;`, `#`, `\` and newlines in titles and tags are escaped with a backslash.
+ *
+ * @param chapters - Chapters with times on the media file
+ * @param options - Canvas filter, time base and global tags
+ * @returns Metadata file content
+ *
+ * @remarks
+ * Chapters are left out when:
+ * - Their times are not finite or negative (FFmpeg chapters need an end)
+ * - They are empty once rounded to the time base
+ * - `options.canvasId` is set and they are on another canvas
+ *
+ * A `timebase` that is not a positive integer falls back to `1000`.
+ *
+ * @example
+ * ```typescript
+ * chaptersToFFMetadata(parseRanges(manifest), { metadata: { title: 'Interview' } });
+ * // => `;FFMETADATA1
+ * // title=Interview
+ * //
+ * // [CHAPTER]
+ * // TIMEBASE=1/1000
+ * // START=0
+ * // END=30000
+ * // title=Introduction
+ * // `
+ * ```
+ */
+export function chaptersToFFMetadata(chapters: Chapter[], options: FFMetadataOptions = {}): string {
+	const timebase =
+		Number.isInteger(options.timebase) && (options.timebase as number) > 0
+			? (options.timebase as number)
+			: DEFAULT_TIMEBASE;
+	const toTicks = (seconds: number): number =>
+		Math.round((Math.round(seconds * 1000) * timebase) / 1000);
+
+	const lines = [HEADER];
+	for (const [key, value] of Object.entries(options.metadata ?? {})) {
+		lines.push(`${escapeText(key)}=${escapeText(value)}`);
+	}
+
+	const blocks = chapters
+		.filter(
+			(chapter) =>
+				chapter &&
+				Number.isFinite(chapter.startTime) &&
+				Number.isFinite(chapter.endTime) &&
+				chapter.startTime >= 0 &&
+				(options.canvasId === undefined || chapter.canvasId === options.canvasId)
+		)
+		.map((chapter) => ({
+			start: toTicks(chapter.startTime),
+			end: toTicks(chapter.endTime),
+			title: chapter.label
+		}))
+		.filter((block) => block.end > block.start)
+		.sort((a, b) => a.start - b.start || b.end - a.end);
+
+	for (const block of blocks) {
+		lines.push(
+			'',
+			'[CHAPTER]',
+			`TIMEBASE=1/${timebase}`,
+			`START=${block.start}`,
+			`END=${block.end}`,
+			`title=${escapeText(block.title)}`
+		);
+	}
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Escapes a key or value, normalizing line breaks to `\n` first.
+ */
+function escapeText(text: string): string {
+	return text.replace(/\r\n?/g, '\n').replace(SPECIAL_CHARACTERS, '\\$&');
+}
+
+/**
+ * Parses an FFmpeg metadata file into chapters.
+ *
+ * The reverse of {@link chaptersToFFMetadata}: each `[CHAPTER]` block becomes
+ * a chapter with its `title` tag as label and its `START` and `END` converted
+ * from the block's `TIMEBASE` (FFmpeg's default of `1/1000000000` when absent)
+ * to seconds. Chapter ids are the 1-based block positions in the file.
+ * Chapters without `END` end where the next one starts; the last one is
+ * open-ended (`endTime: Infinity`).
+ *
+ * @param content - Metadata file content, as written by `ffmpeg -f ffmetadata`
+ * @param options - Canvas, id prefix and untitled label
+ * @returns Chapters sorted by startTime, enclosing chapters first (empty if the
+ * content does not start with `;FFMETADATA`)
+ *
+ * @remarks
+ * Chapters are silently skipped when `START` is missing or not an integer,
+ * `TIMEBASE` or `END` is malformed, or `END` is before `START`. Comment lines (`;`, `#`),
+ * global tags and `[STREAM]` or `[PROGRAM]` sections are ignored.
+ *
+ * @example
+ * ```typescript
+ * const embedded = parseFFMetadata(await readFile('chapters.txt', 'utf8'));
+ * const published = parseRanges(manifest);
+ * ```
+ */
+export function parseFFMetadata(content: string, options: ParseFFMetadataOptions = {}): Chapter[] {
+	const text = (content ?? '').replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+	if (!text.startsWith(';FFMETADATA')) {
+		return [];
+	}
+
+	const sections: ChapterSection[] = [];
+	let current: ChapterSection | null = null;
+	for (const line of readLines(text)) {
+		const raw = line.raw.trim();
+		if (raw === '' || raw.startsWith(';') || raw.startsWith('#')) {
+			continue;
+		}
+		const header = /^\[(\w+)\]$/.exec(raw);
+		if (header) {
+			current = header[1] === 'CHAPTER' ? { position: sections.length + 1, tags: new Map() } : null;
+			if (current) sections.push(current);
+		} else if (current && line.value !== null) {
+			current.tags.set(line.key, line.value);
+		}
+	}
+
+	const { canvasId, idPrefix = '', untitledLabel = 'Untitled Chapter' } = options;
+	const entries = sections
+		.flatMap((section) => {
+			const times = readTimes(section.tags);
+			return times ? [{ section, ...times }] : [];
+		})
+		.sort((a, b) => a.startTime - b.startTime);
+
+	const chapters = entries.map(({ section, startTime, endTime }, index): Chapter => {
+		const next = entries.slice(index + 1).find((other) => other.startTime > startTime);
+		const end = endTime ?? next?.startTime ?? Infinity;
+		const title = [...section.tags].find(([key]) => key.toLowerCase() === 'title')?.[1];
+
+		// Build result conditionally (exactOptionalPropertyTypes)
+		const chapter: Chapter = {
+			id: `${idPrefix}${section.position}`,
+			label: title?.trim() ? title : untitledLabel,
+			startTime,
+			endTime: end
+		};
+		if (canvasId !== undefined) {
+			chapter.canvasId = canvasId;
+			chapter.segments = [{ canvasId, startTime, endTime: end }];
+		}
+		return chapter;
+	});
+
+	// Enclosing chapters before the chapters nested in them
+	return chapters.sort((a, b) => a.startTime - b.startTime || b.endTime - a.endTime);
+}
+
+/**
+ * Splits a metadata file into lines, resolving backslash escapes.
+ *
+ * An escaped newline continues the value on the next line.
+ */
+function readLines(text: string): MetadataLine[] {
+	const lines: MetadataLine[] = [];
+	let line: MetadataLine = { raw: '', key: '', value: null };
+	const append = (char: string): void => {
+		if (line.value === null) line.key += char;
+		else line.value += char;
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text.charAt(i);
+		if (char === '\\' && i + 1 < text.length) {
+			const escaped = text.charAt(++i);
+			line.raw += char + escaped;
+			append(escaped);
+		} else if (char === '\n') {
+			lines.push(line);
+			line = { raw: '', key: '', value: null };
+		} else {
+			line.raw += char;
+			if (char === '=' && line.value === null) line.value = '';
+			else append(char);
+		}
+	}
+	lines.push(line);
+	return lines;
+}
+
+/**
+ * Reads the start and end of a `[CHAPTER]` section in seconds.
+ *
+ * @returns The times (no endTime if `END` is absent), or null if the section is invalid
+ */
+function readTimes(tags: Map<string, string>): { startTime: number; endTime?: number } | null {
+	let timebase = READ_TIMEBASE;
+	const timebaseTag = tags.get('TIMEBASE');
+	if (timebaseTag !== undefined) {
+		const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(timebaseTag);
+		if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+			return null;
+		}
+		timebase = { num: Number(match[1]), den: Number(match[2]) };
+	}
+
+	const toSeconds = (tag: string | undefined): number | null =>
+		tag !== undefined && /^\s*-?\d+\s*$/.test(tag)
+			? (Number(tag) * timebase.num) / timebase.den
+			: null;
+
+	const startTime = toSeconds(tags.get('START'));
+	if (startTime === null || startTime < 0) {
+		return null;
+	}
+	const endTag = tags.get('END');
+	if (endTag === undefined) {
+		return { startTime };
+	}
+	const endTime = toSeconds(endTag);
+	return endTime !== null && endTime >= startTime ? { startTime, endTime } : null;
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { hitTest } from './hitTest.js';
+import { parseAnnotationTarget } from './parseAnnotationTarget.js';
+import type { ParsedAnnotation, ParsedAnnotationTarget } from './types.js';
+
+const canvas = 'https://example.org/canvas/1';
+const size = { width: 640, height: 360 };
+
+function target(fragment: string): ParsedAnnotationTarget {
+	return parseAnnotationTarget(`${canvas}#${fragment}`)!;
+}
+
+describe('hitTest', () => {
+	describe('spatial', () => {
+		it('should return targets containing the point, smallest first', () => {
+			const large = target('xywh=0,0,400,300');
+			const small = target('xywh=100,100,50,50');
+			const elsewhere = target('xywh=500,0,100,100');
+
+			const hits = hitTest([large, small, elsewhere], { x: 120, y: 120 });
+
+			expect(hits).toEqual([
+				{ item: small, target: small, area: 2500 },
+				{ item: large, target: large, area: 120000 }
+			]);
+		});
+
+		it('should include region edges', () => {
+			const region = target('xywh=10,10,20,20');
+
+			expect(hitTest([region], { x: 30, y: 30 })).toHaveLength(1);
+			expect(hitTest([region], { x: 30.1, y: 30 })).toHaveLength(0);
+		});
+
+		it('should convert percent regions using the canvas size', () => {
+			const region = target('xywh=percent:50,50,50,50');
+
+			const hits = hitTest([region], { x: 400, y: 200 }, { canvas: size });
+
+			expect(hits[0]?.area).toBe(320 * 180);
+			expect(hitTest([region], { x: 100, y: 100 }, { canvas: size })).toEqual([]);
+		});
+
+		it('should not hit percent regions without a canvas size', () => {
+			expect(hitTest([target('xywh=percent:0,0,100,100')], { x: 1, y: 1 })).toEqual([]);
+		});
+
+		it('should treat targets without a spatial part as the whole canvas', () => {
+			const whole = parseAnnotationTarget(canvas)!;
+			const region = target('xywh=0,0,10,10');
+
+			const hits = hitTest([whole, region], { x: 5, y: 5 }, { canvas: size });
+
+			expect(hits.map((hit) => hit.area)).toEqual([100, 640 * 360]);
+			expect(hitTest([whole], { x: 700, y: 5 }, { canvas: size })).toEqual([]);
+			expect(hitTest([whole], { x: 700, y: 5 })[0]?.area).toBe(Infinity);
+		});
+
+		it('should hit point targets within the tolerance', () => {
+			const point = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: canvas,
+				selector: { type: 'PointSelector', x: 100, y: 100 }
+			})!;
+
+			expect(hitTest([point], { x: 103, y: 104 })).toEqual([]);
+			expect(hitTest([point], { x: 103, y: 104 }, { tolerance: 5 })).toEqual([
+				{ item: point, target: point, area: 0 }
+			]);
+		});
+
+		it('should return an empty array for a non-finite point', () => {
+			expect(hitTest([target('xywh=0,0,10,10')], { x: NaN, y: 1 })).toEqual([]);
+		});
+	});
+
+	describe('SVG geometry', () => {
+		function svgTarget(svg: string): ParsedAnnotationTarget {
+			return parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: canvas,
+				selector: { type: 'SvgSelector', value: `<svg>${svg}</svg>` }
+			})!;
+		}
+
+		it('should use the shape rather than its bounding box', () => {
+			const triangle = svgTarget('<polygon points="0,0 100,0 0,100"/>');
+
+			expect(hitTest([triangle], { x: 10, y: 10 })[0]?.area).toBe(5000);
+			expect(hitTest([triangle], { x: 90, y: 90 })).toEqual([]);
+		});
+
+		it('should hit circles and ellipses', () => {
+			const circle = svgTarget('<circle cx="50" cy="50" r="10"/>');
+			const ellipse = svgTarget('<ellipse cx="50" cy="50" rx="40" ry="10"/>');
+
+			expect(hitTest([circle, ellipse], { x: 55, y: 55 }).map((hit) => hit.item)).toEqual([
+				circle,
+				ellipse
+			]);
+			expect(hitTest([circle, ellipse], { x: 85, y: 50 }).map((hit) => hit.item)).toEqual([
+				ellipse
+			]);
+		});
+
+		it('should apply the even-odd rule to path holes', () => {
+			const frame = svgTarget('<path d="M0,0 H100 V100 H0 Z M25,25 H75 V75 H25 Z"/>');
+
+			expect(hitTest([frame], { x: 10, y: 10 })).toHaveLength(1);
+			expect(hitTest([frame], { x: 50, y: 50 })).toEqual([]);
+		});
+	});
+
+	describe('temporal', () => {
+		it('should only hit targets active at the given time', () => {
+			const early = target('t=0,10&xywh=0,0,100,100');
+			const late = target('t=10,20&xywh=0,0,50,50');
+			const always = target('xywh=0,0,200,200');
+
+			const hits = hitTest([early, late, always], { x: 5, y: 5 }, { time: 10 });
+
+			expect(hits.map((hit) => hit.item)).toEqual([late, always]);
+		});
+
+		it('should ignore time when none is given', () => {
+			const hits = hitTest([target('t=0,10&xywh=0,0,100,100')], { x: 5, y: 5 });
+
+			expect(hits).toHaveLength(1);
+		});
+
+		it('should handle open-ended fragments and instants', () => {
+			const open = target('t=30&xywh=0,0,100,100');
+			const instant = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: canvas,
+				selector: [
+					{ type: 'PointSelector', t: 42 },
+					{ type: 'FragmentSelector', value: 'xywh=0,0,10,10' }
+				]
+			})!;
+
+			expect(hitTest([open, instant], { x: 5, y: 5 }, { time: 42 })).toHaveLength(2);
+			expect(hitTest([open, instant], { x: 5, y: 5 }, { time: 43 })).toHaveLength(1);
+			expect(hitTest([open, instant], { x: 5, y: 5 }, { time: 29 })).toEqual([]);
+		});
+
+		it('should hit instants within the time tolerance', () => {
+			const instant = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: canvas,
+				selector: { type: 'PointSelector', t: 42 }
+			})!;
+
+			expect(hitTest([instant], { x: 5, y: 5 }, { time: 42.1 })).toEqual([]);
+			expect(hitTest([instant], { x: 5, y: 5 }, { time: 42.1, timeTolerance: 0.125 })).toHaveLength(
+				1
+			);
+			expect(hitTest([instant], { x: 5, y: 5 }, { time: 41.9, timeTolerance: 0.125 })).toHaveLength(
+				1
+			);
+			expect(hitTest([instant], { x: 5, y: 5 }, { time: 42.2, timeTolerance: 0.125 })).toEqual([]);
+		});
+	});
+
+	describe('accessor', () => {
+		it('should test items with several targets and report the smallest hit', () => {
+			const annotation: ParsedAnnotation = {
+				id: 'https://example.org/anno/1',
+				motivations: ['commenting'],
+				bodies: [],
+				targets: [target('xywh=0,0,100,100'), target('xywh=0,0,10,10')]
+			};
+
+			const hits = hitTest([annotation], { x: 5, y: 5 }, {}, (item) => item.targets);
+
+			expect(hits).toEqual([{ item: annotation, target: annotation.targets[1], area: 100 }]);
+		});
+
+		it('should filter targets by source', () => {
+			const other = parseAnnotationTarget('https://example.org/canvas/2#xywh=0,0,10,10')!;
+
+			const hits = hitTest([other, target('xywh=0,0,10,10')], { x: 5, y: 5 }, { source: canvas });
+
+			expect(hits.map((hit) => hit.target.source)).toEqual([canvas]);
+		});
+	});
+});
@@ -0,0 +1,243 @@
+/**
+ * Spatio-Temporal Hit Testing
+ *
+ * Finds the annotation targets containing a point on the canvas (such as a
+ * click on a video) at a given playback time, using SvgSelector geometry when
+ * present and `xywh` regions otherwise.
+ *
+ * @see https://www.w3.org/TR/media-frags/#naming-space
+ * @see https://www.w3.org/TR/annotation-model/#svg-selector
+ */
+
+import type {
+	BoundingBox,
+	HitTestOptions,
+	HitTestResult,
+	ParsedAnnotationTarget,
+	Point,
+	SvgShape,
+	TemporalFragment
+} from './types.js';
+import { resolveSpatialFragment } from './resolveSpatialFragment.js';
+
+/**
+ * Checks whether a temporal fragment is active at a time.
+ * Ranges span `[start, end)`, instants their start give or take `timeTolerance`,
+ * and a missing end never ends.
+ */
+function isActiveAt(temporal: TemporalFragment, time: number, timeTolerance: number): boolean {
+	const end = temporal.end ?? Infinity;
+	return temporal.start === end
+		? Math.abs(time - temporal.start) <= timeTolerance
+		: temporal.start <= time && time < end;
+}
+
+/**
+ * Checks whether a point lies inside a rectangle (edges included).
+ */
+function inRect(point: Point, rect: BoundingBox): boolean {
+	return (
+		point.x >= rect.x &&
+		point.x <= rect.x + rect.width &&
+		point.y >= rect.y &&
+		point.y <= rect.y + rect.height
+	);
+}
+
+/**
+ * Counts how many polygon edges a horizontal ray from the point crosses.
+ */
+function countCrossings(point: Point, polygon: Point[]): number {
+	let crossings = 0;
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const a = polygon[i]!;
+		const b = polygon[j]!;
+		if (a.y > point.y !== b.y > point.y) {
+			const x = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+			if (point.x < x) {
+				crossings++;
+			}
+		}
+	}
+	return crossings;
+}
+
+/**
+ * Computes the area of a polygon with the shoelace formula.
+ */
+function polygonArea(polygon: Point[]): number {
+	let sum = 0;
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		sum += (polygon[j]!.x + polygon[i]!.x) * (polygon[j]!.y - polygon[i]!.y);
+	}
+	return Math.abs(sum) / 2;
+}
+
+/**
+ * Checks whether a point lies inside an SVG shape.
+ * Paths use the even-odd rule across their subpaths.
+ */
+function inShape(point: Point, shape: SvgShape): boolean {
+	switch (shape.type) {
+		case 'rect':
+			return inRect(point, shape);
+		case 'circle':
+			return (point.x - shape.cx) ** 2 + (point.y - shape.cy) ** 2 <= shape.r ** 2;
+		case 'ellipse':
+			return ((point.x - shape.cx) / shape.rx) ** 2 + ((point.y - shape.cy) / shape.ry) ** 2 <= 1;
+		case 'polygon':
+			return countCrossings(point, shape.points) % 2 === 1;
+		case 'path':
+			return (
+				shape.subpaths.reduce((total, subpath) => total + countCrossings(point, subpath), 0) % 2 ===
+				1
+			);
+	}
+}
+
+/**
+ * Computes the area of an SVG shape (paths: the sum of their subpaths).
+ */
+function shapeArea(shape: SvgShape): number {
+	switch (shape.type) {
+		case 'rect':
+			return shape.width * shape.height;
+		case 'circle':
+			return Math.PI * shape.r ** 2;
+		case 'ellipse':
+			return Math.PI * shape.rx * shape.ry;
+		case 'polygon':
+			return polygonArea(shape.points);
+		case 'path':
+			return shape.subpaths.reduce((total, subpath) => total + polygonArea(subpath), 0);
+	}
+}
+
+/**
+ * Tests one target, returning its area if it contains the point at the time.
+ */
+function testTarget(
+	target: ParsedAnnotationTarget,
+	point: Point,
+	options: HitTestOptions
+): number | undefined {
+	if (options.source !== undefined && target.source !== options.source) {
+		return undefined;
+	}
+	if (
+		options.time !== undefined &&
+		target.temporal &&
+		!isActiveAt(target.temporal, options.time, options.timeTolerance ?? 0)
+	) {
+		return undefined;
+	}
+
+	if (target.geometry) {
+		if (!inRect(point, target.geometry.bounds)) {
+			return undefined;
+		}
+		const hit = target.geometry.shapes.some((shape) => inShape(point, shape));
+		return hit
+			? target.geometry.shapes.reduce((total, shape) => total + shapeArea(shape), 0)
+			: undefined;
+	}
+
+	if (!target.spatial) {
+		const { canvas } = options;
+		if (!canvas) {
+			return Infinity;
+		}
+		return inRect(point, { x: 0, y: 0, ...canvas }) ? canvas.width * canvas.height : undefined;
+	}
+
+	const region =
+		target.spatial.unit === 'pixel'
+			? target.spatial
+			: options.canvas &&
+				resolveSpatialFragment(target.spatial, options.canvas, { clamp: false })?.pixel;
+	if (!region) {
+		return undefined;
+	}
+
+	if (target.spatial.kind === 'point') {
+		const distance = Math.hypot(point.x - region.x, point.y - region.y);
+		return distance <= (options.tolerance ?? 0) ? 0 : undefined;
+	}
+	return inRect(point, region) ? region.width * region.height : undefined;
+}
+
+/**
+ * Finds the targets containing a point on the canvas, smallest first.
+ *
+ * A target is hit when its SvgSelector geometry (or, without geometry, its
+ * `xywh` region) contains the point, and - when `options.time` is given - its
+ * temporal fragment is active at that time (`[start, end)`; instants within
+ * `options.timeTolerance` seconds of their start). Targets without a temporal
+ * fragment are active throughout,
+ * and targets without a spatial part cover the whole canvas.
+ *
+ * Percent regions are converted using `options.canvas`; without it they are
+ * never hit. Point targets (PointSelector) are hit within `options.tolerance`
+ * pixels.
+ *
+ * Items with several targets (such as parsed annotations) can be tested by
+ * passing an accessor; an item is hit if any of its targets is.
+ *
+ * @param items - Targets, or items to read targets from with `getTargets`
+ * @param point - Point in canvas pixels
+ * @param options - Playback time, canvas size, source filter and tolerances
+ * @param getTargets - Returns the target(s) of an item
+ * @returns Hits ordered by area (smallest first), ties in input order
+ *
+ * @example
+ * ```typescript
+ * const annotations = parseAnnotationPage(page);
+ * const hits = hitTest(annotations, { x: 320, y: 180 }, {
+ *   time: video.currentTime,
+ *   timeTolerance: 0.125,
+ *   canvas: { width: 640, height: 360 }
+ * }, (annotation) => annotation.targets);
+ * const topmost = hits[0]?.item;
+ * ```
+ */
+export function hitTest(
+	items: readonly ParsedAnnotationTarget[],
+	point: Point,
+	options?: HitTestOptions
+): HitTestResult<ParsedAnnotationTarget>[];
+export function hitTest<T>(
+	items: readonly T[],
+	point: Point,
+	options: HitTestOptions,
+	getTargets: (item: T) => ParsedAnnotationTarget | ParsedAnnotationTarget[] | null | undefined
+): HitTestResult<T>[];
+export function hitTest<T>(
+	items: readonly T[],
+	point: Point,
+	options: HitTestOptions = {},
+	getTargets: (item: T) => ParsedAnnotationTarget | ParsedAnnotationTarget[] | null | undefined = (
+		item
+	) => item as ParsedAnnotationTarget
+): HitTestResult<T>[] {
+	if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) {
+		return [];
+	}
+
+	const hits: HitTestResult<T>[] = [];
+	for (const item of items) {
+		const targets = getTargets(item);
+		let best: HitTestResult<T> | undefined;
+		for (const target of Array.isArray(targets) ? targets : targets ? [targets] : []) {
+			const area = testTarget(target, point, options);
+			if (area !== undefined && (!best || area < best.area)) {
+				best = { item, target, area };
+			}
+		}
+		if (best) {
+			hits.push(best);
+		}
+	}
+
+	// Array.prototype.sort is stable, so equal areas keep input order
+	return hits.sort((a, b) => (a.area === b.area ? 0 : a.area - b.area));
+}
@@ -9,15 +9,103 @@
 // Types
 export type {
 	Chapter,
+	ChapterNode,
+	ChapterSegment,
+	IIIFManifest,
+	IIIFCanvas,
+	IIIFRange,
+	IIIFRangeItem,
+	IIIFLinkedResource,
+	LinkedResource,
+	RequiredStatement,
+	LanguageMap,
+	MetadataEntry,
+	ParseRangesOptions,
+	ManifestTimeline,
+	TimelineCanvas,
+	TimelinePosition,
 	SpeakerSegment,
 	TemporalFragment,
+	TemporalFormat,
 	SpatialFragment,
+	MediaFragmentDimension,
+	Point,
+	BoundingBox,
+	SvgShape,
+	SvgGeometry,
 	ParsedAnnotationTarget,
 	AnnotationTargetInput,
-	IIIFResourceType
+	AnnotationSelector,
+	SpecificResource,
+	TargetCollection,
+	SerializeOptions,
+	WebVTTChaptersOptions,
+	ParseWebVTTChaptersOptions,
+	ChaptersToRangesOptions,
+	PodcastChapter,
+	PodcastChapters,
+	PodcastChaptersOptions,
+	ParsePodcastChaptersOptions,
+	FFMetadataOptions,
+	ParseFFMetadataOptions,
+	IIIFResourceType,
+	IIIFAgent,
+	IIIFAnnotation,
+	IIIFAnnotationBody,
+	IIIFAnnotationPage,
+	Presentation2Annotation,
+	Presentation2AnnotationList,
+	Presentation2SpecificResource,
+	Presentation2Selector,
+	Presentation2Value,
+	Presentation2Link,
+	Presentation2Range,
+	Presentation2Manifest,
+	AnnotationBody,
+	AnnotationAgent,
+	ParsedAnnotation,
+	Size,
+	ResolvedRegion,
+	ResolveRegionOptions,
+	PaintedMedia,
+	ParseWarning,
+	ParseWarningCode,
+	DiagnosticResult,
+	TemporalItem,
+	TemporalIndex,
+	HitTestOptions,
+	HitTestResult
 } from './types.js';
 
 // Parsers
-export { parseRanges } from './parseRanges.js';
+export { parseRanges, parseRangesWithDiagnostics, parseRangeTree } from './parseRanges.js';
+export { createManifestTimeline } from './timeline.js';
+export { resolveLanguageMap } from './languageMap.js';
 export { parseSpeakers } from './parseSpeakers.js';
-export { parseAnnotationTarget, parseMediaFragment } from './parseAnnotationTarget.js';
+export { parseWebVTTChapters } from './parseWebVTTChapters.js';
+export { parsePodcastChapters } from './podcastChapters.js';
+export { parseFFMetadata } from './ffmetadata.js';
+export {
+	parseAnnotationTarget,
+	parseAnnotationTargets,
+	parseMediaFragment,
+	parseMediaFragmentWithDiagnostics
+} from './parseAnnotationTarget.js';
+export { parseSvgSelector } from './parseSvgSelector.js';
+export { parseAnnotation, parseAnnotationPage } from './parseAnnotation.js';
+
+// Temporal lookup
+export { createTemporalIndex } from './temporalIndex.js';
+
+// Hit testing
+export { hitTest } from './hitTest.js';
+
+// Spatial resolution
+export { resolveSpatialFragment, projectToMedia } from './resolveSpatialFragment.js';
+
+// Serializers
+export { serializeMediaFragment, toSpecificResource } from './serializeAnnotationTarget.js';
+export { chaptersToWebVTT } from './chaptersToWebVTT.js';
+export { chaptersToRanges } from './chaptersToRanges.js';
+export { chaptersToPodcastChapters } from './podcastChapters.js';
+export { chaptersToFFMetadata } from './ffmetadata.js';
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { resolveLanguageMap } from './languageMap.js';
+
+describe('resolveLanguageMap', () => {
+	const map = {
+		en: ['Act One'],
+		es: ['Primer acto'],
+		'es-MX': ['Primer acto (México)'],
+		none: ['Atto I']
+	};
+
+	it('should pick the most specific matching tag', () => {
+		expect(resolveLanguageMap(map, ['es-MX'])).toBe('Primer acto (México)');
+	});
+
+	it('should fall back from regional to general tags', () => {
+		expect(resolveLanguageMap(map, ['es-AR'])).toBe('Primer acto');
+		expect(resolveLanguageMap({ zh: ['第一幕'] }, ['zh-Hant-TW'])).toBe('第一幕');
+	});
+
+	it('should use a more specific tag of a general preference', () => {
+		expect(resolveLanguageMap({ 'es-ES': ['Primer acto'], en: ['Act One'] }, ['es'])).toBe(
+			'Primer acto'
+		);
+	});
+
+	it('should try preferences in order before falling back', () => {
+		expect(resolveLanguageMap(map, ['fr', 'en'])).toBe('Act One');
+	});
+
+	it('should fall back to none, then @none, then any language', () => {
+		expect(resolveLanguageMap(map, ['fr'])).toBe('Atto I');
+		expect(resolveLanguageMap({ de: ['Erster Akt'], '@none': ['I'] }, ['fr'])).toBe('I');
+		expect(resolveLanguageMap({ de: ['Erster Akt'] }, ['fr'])).toBe('Erster Akt');
+		expect(resolveLanguageMap({ de: ['Erster Akt'] })).toBe('Erster Akt');
+	});
+
+	it('should compare tags case-insensitively', () => {
+		expect(resolveLanguageMap({ 'ES-mx': ['Primer acto'] }, ['es-MX'])).toBe('Primer acto');
+	});
+
+	it('should skip empty values', () => {
+		expect(resolveLanguageMap({ en: [''], it: ['Atto primo'] }, ['en'])).toBe('Atto primo');
+	});
+
+	it('should return null for empty or missing maps', () => {
+		expect(resolveLanguageMap({}, ['en'])).toBeNull();
+		expect(resolveLanguageMap({ en: [] }, ['en'])).toBeNull();
+		expect(resolveLanguageMap(undefined, ['en'])).toBeNull();
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * IIIF Language Maps
+ *
+ * Picks a value from a IIIF language map (`{ "en": ["Title"], "none": ["…"] }`)
+ * for a list of preferred languages, with BCP 47 fallback from specific to
+ * general tags.
+ *
+ * @see https://iiif.io/api/presentation/3.0/#44-language-of-property-values
+ * @see https://www.rfc-editor.org/rfc/bcp/bcp47.txt
+ */
+
+import type { LanguageMap } from './types.js';
+
+/**
+ * Keys for values without a language: IIIF v3 `none` and JSON-LD `@none`.
+ */
+const NO_LANGUAGE_KEYS = ['none', '@none'];
+
+/**
+ * Returns the first non-empty string of a language map entry.
+ */
+function firstValue(values: unknown): string | null {
+	if (!Array.isArray(values)) {
+		return null;
+	}
+	const value = values.find((item): item is string => typeof item === 'string' && item !== '');
+	return value ?? null;
+}
+
+/**
+ * Lists the fallback tags of a BCP 47 tag, most specific first
+ * (`zh-Hant-TW` → `zh-Hant-TW`, `zh-Hant`, `zh`).
+ */
+function fallbackTags(tag: string): string[] {
+	const subtags = tag.toLowerCase().split('-');
+	return subtags.map((_, index) => subtags.slice(0, subtags.length - index).join('-'));
+}
+
+/**
+ * Picks the value of a language map for the preferred languages.
+ *
+ * Each preferred language is tried from its most specific to its most general
+ * form (`es-MX` → `es`), then any more specific tag of it (`es` → `es-ES`),
+ * before the next preference. Then values without a language (`none`, then
+ * `@none`) are used, and finally the first language with a value. Tags are
+ * compared case-insensitively; empty strings are skipped.
+ *
+ * @param map - IIIF language map
+ * @param languages - Preferred BCP 47 language tags, most preferred first
+ * @returns First value in the best language, or null if the map has none
+ *
+ * @example
+ * ```typescript
+ * resolveLanguageMap({ en: ['Act One'], es: ['Primer acto'] }, ['es-MX']);
+ * // => 'Primer acto'
+ * ```
+ */
+export function resolveLanguageMap(
+	map: LanguageMap | null | undefined,
+	languages: readonly string[] = []
+): string | null {
+	if (!map || typeof map !== 'object') {
+		return null;
+	}
+
+	const entries = Object.entries(map).map(([key, values]) => [key.toLowerCase(), values] as const);
+	const lookup = (tag: string): string | null => {
+		for (const [key, values] of entries) {
+			if (key === tag) {
+				const value = firstValue(values);
+				if (value) return value;
+			}
+		}
+		return null;
+	};
+
+	for (const language of languages) {
+		for (const tag of fallbackTags(language)) {
+			const value = lookup(tag);
+			if (value) return value;
+		}
+		const prefix = `${language.toLowerCase()}-`;
+		for (const [key, values] of entries) {
+			const value = key.startsWith(prefix) ? firstValue(values) : null;
+			if (value) return value;
+		}
+	}
+
+	for (const key of NO_LANGUAGE_KEYS) {
+		const value = lookup(key);
+		if (value) return value;
+	}
+
+	for (const [, values] of entries) {
+		const value = firstValue(values);
+		if (value) return value;
+	}
+	return null;
+}
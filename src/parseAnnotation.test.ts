@@ -0,0 +1,400 @@
+/**
+ * Tests for IIIF Annotation and AnnotationPage parsing
+ *
+ * @see https://iiif.io/api/presentation/3.0/#56-annotation
+ * @see https://www.w3.org/TR/annotation-model/
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseAnnotation, parseAnnotationPage } from './parseAnnotation.js';
+import type { IIIFAnnotation, IIIFAnnotationPage, Presentation2Annotation } from './types.js';
+
+const canvas = 'https://example.org/canvas/1';
+
+describe('parseAnnotation', () => {
+	describe('basic fields', () => {
+		it('should parse id, motivation, TextualBody and target', () => {
+			const result = parseAnnotation({
+				id: 'https://example.org/anno/1',
+				type: 'Annotation',
+				motivation: 'commenting',
+				body: {
+					type: 'TextualBody',
+					value: 'Opening theme',
+					language: 'en',
+					format: 'text/plain'
+				},
+				target: `${canvas}#t=0,30`
+			});
+
+			expect(result).toEqual({
+				id: 'https://example.org/anno/1',
+				motivations: ['commenting'],
+				bodies: [
+					{ type: 'TextualBody', value: 'Opening theme', language: 'en', format: 'text/plain' }
+				],
+				targets: [{ source: canvas, temporal: { start: 0, end: 30, format: 'npt' } }]
+			});
+		});
+
+		it('should keep multiple motivations in order', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				motivation: ['supplementing', 'commenting'],
+				target: canvas
+			});
+
+			expect(result?.motivations).toEqual(['supplementing', 'commenting']);
+		});
+
+		it('should return empty motivations and bodies when absent', () => {
+			const result = parseAnnotation({ id: 'anno', type: 'Annotation', target: canvas });
+
+			expect(result?.motivations).toEqual([]);
+			expect(result?.bodies).toEqual([]);
+		});
+	});
+
+	describe('bodies', () => {
+		it('should normalize external bodies and bare IRIs', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				motivation: 'painting',
+				body: [
+					{
+						id: 'https://example.org/video.mp4',
+						type: 'Video',
+						format: 'video/mp4',
+						width: 1920,
+						height: 1080
+					},
+					'https://example.org/notes.html'
+				],
+				target: canvas
+			});
+
+			expect(result?.bodies).toEqual([
+				{ id: 'https://example.org/video.mp4', type: 'Video', format: 'video/mp4' },
+				{ id: 'https://example.org/notes.html' }
+			]);
+		});
+
+		it('should normalize purpose to an array', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				body: [
+					{ type: 'TextualBody', value: 'aria', purpose: 'tagging' },
+					{ type: 'TextualBody', value: 'Lovely', purpose: ['commenting', 'assessing'] }
+				],
+				target: canvas
+			});
+
+			expect(result?.bodies.map((body) => body.purpose)).toEqual([
+				['tagging'],
+				['commenting', 'assessing']
+			]);
+		});
+
+		it('should flatten Choice bodies into their items', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				body: {
+					type: 'Choice',
+					items: [
+						{ type: 'TextualBody', value: 'Hello', language: 'en' },
+						{ type: 'TextualBody', value: 'Bonjour', language: 'fr' }
+					]
+				},
+				target: canvas
+			});
+
+			expect(result?.bodies.map((body) => body.language)).toEqual(['en', 'fr']);
+		});
+
+		it('should take SpecificResource body ids from their source', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				body: {
+					type: 'SpecificResource',
+					source: { id: 'https://example.org/image.jpg', type: 'Image' }
+				},
+				target: canvas
+			});
+
+			expect(result?.bodies).toEqual([
+				{ type: 'SpecificResource', id: 'https://example.org/image.jpg' }
+			]);
+		});
+
+		it('should read bodyValue as a TextualBody', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				bodyValue: 'Plain comment',
+				target: canvas
+			});
+
+			expect(result?.bodies).toEqual([{ type: 'TextualBody', value: 'Plain comment' }]);
+		});
+
+		it('should skip empty and non-object bodies', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				body: ['', 42 as unknown as string, { type: 'TextualBody', value: 'ok' }],
+				target: canvas
+			});
+
+			expect(result?.bodies).toEqual([{ type: 'TextualBody', value: 'ok' }]);
+		});
+	});
+
+	describe('targets', () => {
+		it('should parse every target', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				target: [
+					`${canvas}#t=10,20`,
+					{
+						type: 'SpecificResource',
+						source: 'https://example.org/canvas/2',
+						selector: { type: 'PointSelector', t: 5 }
+					}
+				]
+			});
+
+			expect(result?.targets).toHaveLength(2);
+			expect(result?.targets[1]?.temporal?.kind).toBe('instant');
+		});
+
+		it('should return no targets for an invalid target', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				target: { type: 'Unknown' } as unknown as string
+			});
+
+			expect(result?.targets).toEqual([]);
+		});
+
+		it('should return no targets for a SpecificResource without a source', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				target: { type: 'SpecificResource', selector: { type: 'FragmentSelector', value: 't=0,5' } }
+			} as unknown as IIIFAnnotation);
+
+			expect(result?.targets).toEqual([]);
+		});
+	});
+
+	describe('provenance', () => {
+		it('should normalize creators and keep created/modified', () => {
+			const result = parseAnnotation({
+				id: 'anno',
+				type: 'Annotation',
+				target: canvas,
+				creator: [
+					{ id: 'https://example.org/user/1', type: 'Person', name: 'Mary Johnson' },
+					{ type: 'Software', nickname: 'transcriber' },
+					'https://example.org/user/2'
+				],
+				created: '2024-05-01T12:00:00Z',
+				modified: '2024-05-02T08:30:00Z'
+			});
+
+			expect(result?.creators).toEqual([
+				{ id: 'https://example.org/user/1', type: 'Person', name: 'Mary Johnson' },
+				{ type: 'Software', name: 'transcriber' },
+				{ id: 'https://example.org/user/2' }
+			]);
+			expect(result?.created).toBe('2024-05-01T12:00:00Z');
+			expect(result?.modified).toBe('2024-05-02T08:30:00Z');
+		});
+
+		it('should omit provenance fields when absent', () => {
+			const result = parseAnnotation({ id: 'anno', type: 'Annotation', target: canvas });
+
+			expect(result).not.toHaveProperty('creators');
+			expect(result).not.toHaveProperty('created');
+			expect(result).not.toHaveProperty('modified');
+		});
+	});
+
+	describe('edge cases', () => {
+		it('should return null for null input', () => {
+			expect(parseAnnotation(null as unknown as IIIFAnnotation)).toBeNull();
+		});
+
+		it('should return null for objects that are not annotations', () => {
+			const result = parseAnnotation({
+				id: 'page',
+				type: 'AnnotationPage'
+			} as unknown as IIIFAnnotation);
+
+			expect(result).toBeNull();
+		});
+	});
+});
+
+describe('parseAnnotationPage', () => {
+	it('should parse items in document order', () => {
+		const annotations = parseAnnotationPage({
+			id: 'https://example.org/page/1',
+			type: 'AnnotationPage',
+			items: [
+				{ id: 'b', type: 'Annotation', motivation: 'commenting', target: `${canvas}#t=30,40` },
+				{ id: 'a', type: 'Annotation', motivation: 'commenting', target: `${canvas}#t=0,10` }
+			]
+		});
+
+		expect(annotations.map((annotation) => annotation.id)).toEqual(['b', 'a']);
+	});
+
+	it('should skip items that are not annotations', () => {
+		const annotations = parseAnnotationPage({
+			type: 'AnnotationPage',
+			items: [null as unknown as IIIFAnnotation, { id: 'a', type: 'Annotation', target: canvas }]
+		});
+
+		expect(annotations.map((annotation) => annotation.id)).toEqual(['a']);
+	});
+
+	it('should keep parsing the page after an item with a malformed target', () => {
+		const annotations = parseAnnotationPage({
+			type: 'AnnotationPage',
+			items: [
+				{ id: 'a', type: 'Annotation', target: { type: 'SpecificResource' } },
+				{ id: 'b', type: 'Annotation', target: `${canvas}#t=0,10` }
+			] as unknown as IIIFAnnotation[]
+		});
+
+		expect(annotations.map(({ id, targets }) => [id, targets.length])).toEqual([
+			['a', 0],
+			['b', 1]
+		]);
+	});
+
+	it('should return an empty array without items', () => {
+		expect(parseAnnotationPage({ type: 'AnnotationPage' })).toEqual([]);
+		expect(parseAnnotationPage(null as unknown as IIIFAnnotationPage)).toEqual([]);
+	});
+});
+
+describe('Presentation 2 annotations', () => {
+	const canvas = 'https://example.org/iiif/book1/canvas/p1';
+
+	it('should parse on, resource and cnt:ContentAsText bodies', () => {
+		const result = parseAnnotation({
+			'@id': 'https://example.org/iiif/book1/annotation/1',
+			'@type': 'oa:Annotation',
+			motivation: 'oa:commenting',
+			resource: {
+				'@type': 'cnt:ContentAsText',
+				chars: 'A comment',
+				format: 'text/plain',
+				language: 'en'
+			},
+			on: `${canvas}#xywh=100,100,10,10`
+		});
+
+		expect(result).toEqual({
+			id: 'https://example.org/iiif/book1/annotation/1',
+			motivations: ['commenting'],
+			bodies: [{ type: 'TextualBody', value: 'A comment', format: 'text/plain', language: 'en' }],
+			targets: [
+				{ source: canvas, spatial: { x: 100, y: 100, width: 10, height: 10, unit: 'pixel' } }
+			]
+		});
+	});
+
+	it('should keep provenance of Presentation 2 annotations', () => {
+		const result = parseAnnotation({
+			'@id': 'anno',
+			'@type': 'oa:Annotation',
+			on: canvas,
+			creator: { name: 'Mary Johnson' },
+			created: '2016-03-01T10:00:00Z',
+			modified: 20160302
+		} as unknown as Presentation2Annotation);
+
+		expect(result?.creators).toEqual([{ name: 'Mary Johnson' }]);
+		expect(result?.created).toBe('2016-03-01T10:00:00Z');
+		expect(result).not.toHaveProperty('modified');
+	});
+
+	it('should parse Mirador 2 annotations with dctypes:Text bodies and oa:SpecificResource targets', () => {
+		const result = parseAnnotation({
+			'@context': 'http://iiif.io/api/presentation/2/context.json',
+			'@id': 'anno-1',
+			'@type': ['oa:Annotation', 'mirador:Annotation'],
+			motivation: ['oa:commenting', 'oa:tagging'],
+			resource: [
+				{ '@type': 'dctypes:Text', format: 'text/html', chars: '<p>Hello</p>' },
+				{ '@type': 'oa:Tag', chars: 'greeting' }
+			],
+			on: [
+				{
+					'@type': 'oa:SpecificResource',
+					full: canvas,
+					selector: { '@type': 'oa:FragmentSelector', value: 'xywh=1,2,3,4' }
+				}
+			]
+		});
+
+		expect(result?.motivations).toEqual(['commenting', 'tagging']);
+		expect(result?.bodies).toEqual([
+			{ type: 'TextualBody', value: '<p>Hello</p>', format: 'text/html' },
+			{ type: 'TextualBody', value: 'greeting' }
+		]);
+		expect(result?.targets[0]?.spatial).toEqual({ x: 1, y: 2, width: 3, height: 4, unit: 'pixel' });
+	});
+
+	it('should flatten oa:Choice bodies with default and item', () => {
+		const result = parseAnnotation({
+			'@type': 'oa:Annotation',
+			motivation: 'sc:painting',
+			resource: {
+				'@type': 'oa:Choice',
+				default: { '@id': 'https://example.org/color.jpg', '@type': 'dctypes:Image' },
+				item: [{ '@id': 'https://example.org/ir.jpg', '@type': 'dctypes:Image' }]
+			},
+			on: canvas
+		});
+
+		expect(result?.motivations).toEqual(['painting']);
+		expect(result?.bodies).toEqual([
+			{ type: 'Image', id: 'https://example.org/color.jpg' },
+			{ type: 'Image', id: 'https://example.org/ir.jpg' }
+		]);
+	});
+
+	it('should parse sc:AnnotationList resources', () => {
+		const annotations = parseAnnotationPage({
+			'@id': 'https://example.org/iiif/book1/list/p1',
+			'@type': 'sc:AnnotationList',
+			resources: [
+				{ '@id': 'a', '@type': 'oa:Annotation', on: `${canvas}#t=0,5` },
+				{ '@id': 'b', '@type': 'oa:Annotation', on: `${canvas}#t=5,10` }
+			]
+		});
+
+		expect(annotations.map((annotation) => annotation.id)).toEqual(['a', 'b']);
+		expect(annotations[1]?.targets[0]?.temporal?.start).toBe(5);
+	});
+
+	it('should return null for Presentation 2 objects that are not annotations', () => {
+		const result = parseAnnotation({
+			'@type': 'sc:Canvas',
+			on: canvas
+		});
+
+		expect(result).toBeNull();
+	});
+});
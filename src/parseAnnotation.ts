@@ -0,0 +1,215 @@
+/**
+ * IIIF Annotation Parser
+ *
+ * Parses whole Web Annotations and IIIF AnnotationPages into annotation
+ * records with motivations, normalized bodies and parsed targets.
+ *
+ * @see https://iiif.io/api/presentation/3.0/#56-annotation
+ * @see https://www.w3.org/TR/annotation-model/
+ */
+
+import type {
+	IIIFAgent,
+	IIIFAnnotation,
+	IIIFAnnotationBody,
+	IIIFAnnotationPage,
+	Presentation2Annotation,
+	Presentation2AnnotationList,
+	AnnotationAgent,
+	AnnotationBody,
+	ParsedAnnotation
+} from './types.js';
+import { parseAnnotationTargets } from './parseAnnotationTarget.js';
+import {
+	isPresentation2,
+	fromPresentation2Annotation,
+	fromPresentation2Page
+} from './presentation2.js';
+
+/**
+ * Normalizes an optional single value or array into an array.
+ */
+function toArray<T>(value: T | T[] | undefined): T[] {
+	if (value === undefined || value === null) {
+		return [];
+	}
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Keeps the string entries of a string-or-array property.
+ */
+function toStringArray(value: unknown): string[] {
+	return toArray(value).filter((item): item is string => typeof item === 'string');
+}
+
+/**
+ * Normalizes one body, flattening Choice bodies into their items.
+ *
+ * - Bare IRIs become `{ id }`
+ * - SpecificResource bodies take their `id` from `source`
+ * - String fields (`type`, `id`, `value`, `language`, `format`) are copied;
+ *   `purpose` is normalized to an array
+ *
+ * @see https://www.w3.org/TR/annotation-model/#choice-between-bodies
+ */
+function normalizeBody(body: IIIFAnnotationBody): AnnotationBody[] {
+	if (typeof body === 'string') {
+		return body ? [{ id: body }] : [];
+	}
+	if (!body || typeof body !== 'object') {
+		return [];
+	}
+
+	if (body.type === 'Choice') {
+		return toArray(body.items).flatMap(normalizeBody);
+	}
+
+	const id =
+		body.type === 'SpecificResource' && body.source
+			? typeof body.source === 'string'
+				? body.source
+				: body.source.id
+			: body.id;
+
+	// Build result conditionally (exactOptionalPropertyTypes)
+	const result: AnnotationBody = {};
+	if (typeof body.type === 'string') result.type = body.type;
+	if (typeof id === 'string') result.id = id;
+	if (typeof body.value === 'string') result.value = body.value;
+	if (typeof body.language === 'string') result.language = body.language;
+	if (typeof body.format === 'string') result.format = body.format;
+	const purpose = toStringArray(body.purpose);
+	if (purpose.length > 0) result.purpose = purpose;
+	return [result];
+}
+
+/**
+ * Normalizes a creator given as an IRI or an agent object.
+ */
+function normalizeAgent(agent: IIIFAgent): AnnotationAgent | null {
+	if (typeof agent === 'string') {
+		return agent ? { id: agent } : null;
+	}
+	if (!agent || typeof agent !== 'object') {
+		return null;
+	}
+
+	const result: AnnotationAgent = {};
+	if (typeof agent.id === 'string') result.id = agent.id;
+	if (typeof agent.type === 'string') result.type = agent.type;
+	// Fall back to nickname when no full name is given
+	const name = agent.name ?? agent.nickname;
+	if (typeof name === 'string') result.name = name;
+	return result;
+}
+
+/**
+ * Parses a Web Annotation into an annotation record.
+ *
+ * Collects the parts a timeline or viewer needs:
+ * - `motivations`: `motivation` as an array
+ * - `bodies`: normalized `body` entries (or `bodyValue` as a TextualBody);
+ *   Choice bodies are flattened into their items
+ * - `targets`: all targets, parsed with {@link parseAnnotationTargets}
+ * - `creators`, `created`, `modified` when present
+ *
+ * Presentation 2 annotations (`oa:Annotation` with `on`, `resource` and
+ * `cnt:ContentAsText` bodies) are converted first and give the same record.
+ *
+ * @param annotation - Web Annotation object (Presentation 3 or 2)
+ * @returns Parsed annotation, or null if input is invalid
+ *
+ * @remarks
+ * Returns `null` when:
+ * - Input is null, undefined, or not an object
+ * - Input lacks `type: 'Annotation'` (or `@type: 'oa:Annotation'`)
+ *
+ * Bodies and creators that are neither IRIs nor objects are skipped, as are
+ * targets that {@link parseAnnotationTargets} cannot parse (such as a
+ * SpecificResource without a `source`).
+ *
+ * @example
+ * ```typescript
+ * parseAnnotation({
+ *   id: 'https://example.org/anno/1',
+ *   type: 'Annotation',
+ *   motivation: 'commenting',
+ *   body: { type: 'TextualBody', value: 'Opening theme', language: 'en', format: 'text/plain' },
+ *   target: 'https://example.org/canvas/1#t=0,30'
+ * })
+ * // => {
+ * //   id: 'https://example.org/anno/1',
+ * //   motivations: ['commenting'],
+ * //   bodies: [{ type: 'TextualBody', value: 'Opening theme', language: 'en', format: 'text/plain' }],
+ * //   targets: [{ source: 'https://example.org/canvas/1', temporal: { start: 0, end: 30, format: 'npt' } }]
+ * // }
+ * ```
+ */
+export function parseAnnotation(
+	annotation: IIIFAnnotation | Presentation2Annotation
+): ParsedAnnotation | null {
+	const input = isPresentation2(annotation)
+		? fromPresentation2Annotation(annotation)
+		: (annotation as IIIFAnnotation);
+
+	if (!input || typeof input !== 'object' || input.type !== 'Annotation') {
+		return null;
+	}
+
+	const bodies = toArray(input.body).flatMap(normalizeBody);
+	if (typeof input.bodyValue === 'string') {
+		bodies.push({ type: 'TextualBody', value: input.bodyValue });
+	}
+
+	const result: ParsedAnnotation = {
+		id: typeof input.id === 'string' ? input.id : '',
+		motivations: toStringArray(input.motivation),
+		bodies,
+		targets: parseAnnotationTargets(input.target)
+	};
+
+	const creators = toArray(input.creator)
+		.map(normalizeAgent)
+		.filter((agent): agent is AnnotationAgent => agent !== null);
+	if (creators.length > 0) result.creators = creators;
+	if (typeof input.created === 'string') result.created = input.created;
+	if (typeof input.modified === 'string') result.modified = input.modified;
+	return result;
+}
+
+/**
+ * Parses every annotation in an IIIF AnnotationPage.
+ *
+ * Presentation 2 AnnotationLists (`sc:AnnotationList` with `resources`) are
+ * accepted too.
+ *
+ * @param page - AnnotationPage (or Presentation 2 AnnotationList) object
+ * @returns Parsed annotations in document order (may be empty)
+ *
+ * @remarks
+ * Returns an empty array when:
+ * - Input is null, undefined, or not an object
+ * - Page has no `items`
+ *
+ * Items that {@link parseAnnotation} rejects are skipped.
+ *
+ * @example
+ * ```typescript
+ * const annotations = parseAnnotationPage(canvas.annotations[0]);
+ * const comments = annotations.filter((a) => a.motivations.includes('commenting'));
+ * ```
+ */
+export function parseAnnotationPage(
+	page: IIIFAnnotationPage | Presentation2AnnotationList
+): ParsedAnnotation[] {
+	const input = isPresentation2(page) ? fromPresentation2Page(page) : (page as IIIFAnnotationPage);
+
+	if (!input || typeof input !== 'object' || !Array.isArray(input.items)) {
+		return [];
+	}
+
+	return input.items
+		.map(parseAnnotation)
+		.filter((annotation): annotation is ParsedAnnotation => annotation !== null);
+}
@@ -6,7 +6,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseMediaFragment, parseAnnotationTarget } from './parseAnnotationTarget.js';
+import {
+	parseMediaFragment,
+	parseAnnotationTarget,
+	parseAnnotationTargets,
+	parseMediaFragmentWithDiagnostics
+} from './parseAnnotationTarget.js';
 
 describe('parseMediaFragment', () => {
 	describe('temporal fragments (#t=)', () => {
@@ -14,7 +19,7 @@ describe('parseMediaFragment', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=10,20');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 10, end: 20 });
+			expect(result.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
 			expect(result.spatial).toBeUndefined();
 		});
 
@@ -22,27 +27,27 @@ describe('parseMediaFragment', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=10');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 10, end: undefined });
+			expect(result.temporal).toEqual({ start: 10, end: undefined, format: 'npt' });
 		});
 
 		it('should parse from-start pattern: #t=,20', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=,20');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 0, end: 20 });
+			expect(result.temporal).toEqual({ start: 0, end: 20, format: 'npt' });
 		});
 
 		it('should parse floating point times: #t=10.5,25.75', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=10.5,25.75');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 10.5, end: 25.75 });
+			expect(result.temporal).toEqual({ start: 10.5, end: 25.75, format: 'npt' });
 		});
 
 		it('should handle zero start time: #t=0,30', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=0,30');
 
-			expect(result.temporal).toEqual({ start: 0, end: 30 });
+			expect(result.temporal).toEqual({ start: 0, end: 30, format: 'npt' });
 		});
 
 		it('should return undefined temporal for invalid fragment: #t=invalid', () => {
@@ -59,12 +64,17 @@ describe('parseMediaFragment', () => {
 			expect(result.temporal).toBeUndefined();
 		});
 
-		it('should ignore malformed end time: #t=5,-20 parses as #t=5', () => {
-			// Regex [0-9.]* doesn't match '-20', so end captures empty string
+		it('should reject negative end time: #t=5,-20', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=5,-20');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 5, end: undefined });
+			expect(result.temporal).toBeUndefined();
+		});
+
+		it('should reject trailing comma without end time: #t=10,', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=10,');
+
+			expect(result.temporal).toBeUndefined();
 		});
 
 		it('should reject reversed time range: #t=20,10', () => {
@@ -78,28 +88,28 @@ describe('parseMediaFragment', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=10,10');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 10, end: 10 });
+			expect(result.temporal).toEqual({ start: 10, end: 10, format: 'npt' });
 		});
 
 		it('should accept zero-duration at start of media: #t=0,0', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=0,0');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 0, end: 0 });
+			expect(result.temporal).toEqual({ start: 0, end: 0, format: 'npt' });
 		});
 
 		it('should accept AVAnnotate-style point annotation: #t=95,95', () => {
 			const result = parseMediaFragment('https://AVAnnotate.github.io/voices/canvas/3#t=95,95');
 
 			expect(result.source).toBe('https://AVAnnotate.github.io/voices/canvas/3');
-			expect(result.temporal).toEqual({ start: 95, end: 95 });
+			expect(result.temporal).toEqual({ start: 95, end: 95, format: 'npt' });
 		});
 
 		it('should handle URI with query parameters', () => {
 			const result = parseMediaFragment('https://example.org/canvas?quality=high#t=10,20');
 
 			expect(result.source).toBe('https://example.org/canvas?quality=high');
-			expect(result.temporal).toEqual({ start: 10, end: 20 });
+			expect(result.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
 		});
 
 		it('should handle URI without fragment', () => {
@@ -118,6 +128,162 @@ describe('parseMediaFragment', () => {
 		});
 	});
 
+	describe('npt time format', () => {
+		it('should accept explicit npt prefix: #t=npt:10,20', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=npt:10,20');
+
+			expect(result.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
+		});
+
+		it('should parse hh:mm:ss values: #t=npt:0:01:30,0:02:00', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=npt:0:01:30,0:02:00');
+
+			expect(result.temporal).toEqual({ start: 90, end: 120, format: 'npt' });
+		});
+
+		it('should parse mm:ss values with fractions: #t=01:30.5,02:00', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=01:30.5,02:00');
+
+			expect(result.temporal).toEqual({ start: 90.5, end: 120, format: 'npt' });
+		});
+
+		it('should parse multi-digit hours: #t=npt:10:00:00', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=npt:10:00:00');
+
+			expect(result.temporal).toEqual({ start: 36000, format: 'npt' });
+		});
+
+		it('should accept seconds suffix: #t=10s,20.5s', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=10s,20.5s');
+
+			expect(result.temporal).toEqual({ start: 10, end: 20.5, format: 'npt' });
+		});
+
+		it('should mix clock and seconds forms within one fragment', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=npt:90,0:02:00');
+
+			expect(result.temporal).toEqual({ start: 90, end: 120, format: 'npt' });
+		});
+
+		it('should reject minutes or seconds above 59: #t=0:75:00', () => {
+			expect(parseMediaFragment('https://example.org/canvas#t=0:75:00').temporal).toBeUndefined();
+			expect(parseMediaFragment('https://example.org/canvas#t=00:60').temporal).toBeUndefined();
+		});
+
+		it('should reject single-digit minutes: #t=1:30', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=1:30');
+
+			expect(result.temporal).toBeUndefined();
+		});
+	});
+
+	describe('smpte time formats', () => {
+		it('should parse smpte (30 fps) with frames: #t=smpte:00:00:10:15', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte:00:00:10:15');
+
+			expect(result.temporal).toEqual({ start: 10.5, format: 'smpte' });
+		});
+
+		it('should parse smpte-25 start only: #t=smpte-25:00:01:30:12', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte-25:00:01:30:12');
+
+			expect(result.temporal?.start).toBeCloseTo(90.48, 6);
+			expect(result.temporal?.end).toBeUndefined();
+			expect(result.temporal?.format).toBe('smpte-25');
+		});
+
+		it('should parse smpte-30 range without frames', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte-30:0:02:00,0:02:30');
+
+			expect(result.temporal).toEqual({ start: 120, end: 150, format: 'smpte-30' });
+		});
+
+		it('should parse subframes as hundredths of a frame', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte-25:00:00:01:05.50');
+
+			expect(result.temporal?.start).toBeCloseTo(1 + 5.5 / 25, 6);
+		});
+
+		it('should parse smpte-30-drop at 29.97 fps', () => {
+			// 00:01:00;02 is frame 1800 in drop-frame counting
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte-30-drop:00:01:00:02');
+
+			expect(result.temporal?.start).toBeCloseTo((1800 * 1001) / 30000, 6);
+			expect(result.temporal?.format).toBe('smpte-30-drop');
+		});
+
+		it('should not drop frames on every tenth minute', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte-30-drop:00:10:00:00');
+
+			expect(result.temporal?.start).toBeCloseTo((17982 * 1001) / 30000, 6);
+		});
+
+		it('should reject dropped frame numbers: #t=smpte-30-drop:00:01:00:00', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte-30-drop:00:01:00:00');
+
+			expect(result.temporal).toBeUndefined();
+		});
+
+		it('should reject frames at or above the frame rate', () => {
+			expect(
+				parseMediaFragment('https://example.org/canvas#t=smpte-25:00:00:01:25').temporal
+			).toBeUndefined();
+			expect(
+				parseMediaFragment('https://example.org/canvas#t=smpte:00:00:01:30').temporal
+			).toBeUndefined();
+		});
+
+		it('should reject unknown smpte variants: #t=smpte-24:00:00:01', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=smpte-24:00:00:01');
+
+			expect(result.temporal).toBeUndefined();
+		});
+	});
+
+	describe('clock time format', () => {
+		it('should parse wall-clock range as epoch seconds', () => {
+			const result = parseMediaFragment(
+				'https://example.org/canvas#t=clock:2011-10-01T23:00:45Z,2011-10-01T23:01:00Z'
+			);
+
+			expect(result.temporal).toEqual({
+				start: Date.UTC(2011, 9, 1, 23, 0, 45) / 1000,
+				end: Date.UTC(2011, 9, 1, 23, 1, 0) / 1000,
+				format: 'clock'
+			});
+		});
+
+		it('should parse wall-clock time with offset and fraction', () => {
+			const result = parseMediaFragment(
+				'https://example.org/canvas#t=clock:2011-10-01T23:00:45.250+02:00'
+			);
+
+			expect(result.temporal).toEqual({
+				start: Date.UTC(2011, 9, 1, 21, 0, 45, 250) / 1000,
+				format: 'clock'
+			});
+		});
+
+		it('should reject clock values without a time zone', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=clock:2011-10-01T23:00:45');
+
+			expect(result.temporal).toBeUndefined();
+		});
+
+		it('should reject wall-clock ranges without a start', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=clock:,2011-10-01T23:01:00Z');
+
+			expect(result.temporal).toBeUndefined();
+			expect(result.invalidDimensions).toEqual(['t']);
+		});
+
+		it('should reject invalid calendar dates', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=clock:2011-13-01T23:00:45Z');
+
+			expect(result.temporal).toBeUndefined();
+		});
+	});
+
 	describe('spatial fragments (#xywh=)', () => {
 		it('should parse pixel coordinates: #xywh=100,200,50,75', () => {
 			const result = parseMediaFragment('https://example.org/canvas#xywh=100,200,50,75');
@@ -185,12 +351,132 @@ describe('parseMediaFragment', () => {
 		});
 	});
 
+	describe('track and id fragments', () => {
+		it('should parse track dimension: #track=audio_fr', () => {
+			const result = parseMediaFragment('https://example.org/video#track=audio_fr');
+
+			expect(result).toEqual({ source: 'https://example.org/video', track: 'audio_fr' });
+		});
+
+		it('should parse id dimension: #id=chapter-1', () => {
+			const result = parseMediaFragment('https://example.org/video#id=chapter-1');
+
+			expect(result).toEqual({ source: 'https://example.org/video', id: 'chapter-1' });
+		});
+
+		it('should percent-decode track and id values', () => {
+			const result = parseMediaFragment(
+				"https://example.org/video#track=Director's%20Commentary&id=%C3%A9t%C3%A9"
+			);
+
+			expect(result.track).toBe("Director's Commentary");
+			expect(result.id).toBe('été');
+		});
+
+		it('should percent-decode dimension names', () => {
+			const result = parseMediaFragment('https://example.org/video#%74rack=sign');
+
+			expect(result.track).toBe('sign');
+		});
+
+		it('should ignore empty and undecodable values', () => {
+			const result = parseMediaFragment('https://example.org/video#track=&id=%E0%A4%A');
+
+			expect(result.track).toBeUndefined();
+			expect(result.id).toBeUndefined();
+		});
+
+		it('should combine track with temporal dimension', () => {
+			const result = parseMediaFragment('https://example.org/video#t=10,20&track=sign');
+
+			expect(result).toEqual({
+				source: 'https://example.org/video',
+				temporal: { start: 10, end: 20, format: 'npt' },
+				track: 'sign'
+			});
+		});
+	});
+
+	describe('fragment tokenization', () => {
+		it('should not read names ending in t as temporal: #start=5', () => {
+			const result = parseMediaFragment('https://example.org/canvas#start=5');
+
+			expect(result).toEqual({ source: 'https://example.org/canvas' });
+		});
+
+		it('should ignore unknown dimensions: #foo=bar&xt=3', () => {
+			const result = parseMediaFragment('https://example.org/canvas#foo=bar&xt=3');
+
+			expect(result).toEqual({ source: 'https://example.org/canvas' });
+		});
+
+		it('should not read names ending in xywh as spatial: #axywh=1,2,3,4', () => {
+			const result = parseMediaFragment('https://example.org/canvas#axywh=1,2,3,4');
+
+			expect(result.spatial).toBeUndefined();
+		});
+
+		it('should use the last occurrence of a repeated dimension: #t=2&t=10', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=2&t=10');
+
+			expect(result.temporal).toEqual({ start: 10, format: 'npt' });
+			expect(result.invalidDimensions).toBeUndefined();
+		});
+
+		it('should fall back to the last valid occurrence: #t=10&t=20,5', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t=10&t=20,5');
+
+			expect(result.temporal).toEqual({ start: 10, format: 'npt' });
+			expect(result.invalidDimensions).toBeUndefined();
+		});
+
+		it('should percent-decode names and values: #%74=10%2C20', () => {
+			const result = parseMediaFragment('https://example.org/canvas#%74=10%2C20');
+
+			expect(result.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
+		});
+
+		it('should skip pairs without "=" or with undecodable escapes', () => {
+			const result = parseMediaFragment('https://example.org/canvas#t&xywh=%ZZ&t=5');
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas',
+				temporal: { start: 5, format: 'npt' }
+			});
+		});
+
+		it('should accept explicit pixel unit: #xywh=pixel:1,2,3,4', () => {
+			const result = parseMediaFragment('https://example.org/canvas#xywh=pixel:1,2,3,4');
+
+			expect(result.spatial).toEqual({ x: 1, y: 2, width: 3, height: 4, unit: 'pixel' });
+		});
+
+		it('should reject spatial values with extra components: #xywh=1,2,3,4,5', () => {
+			const result = parseMediaFragment('https://example.org/canvas#xywh=1,2,3,4,5');
+
+			expect(result.spatial).toBeUndefined();
+			expect(result.invalidDimensions).toEqual(['xywh']);
+		});
+
+		it('should report dimensions that were present but invalid', () => {
+			const result = parseMediaFragment(
+				'https://example.org/canvas#t=20,10&xywh=percent:80,0,30,10&track=&id=ok'
+			);
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas',
+				id: 'ok',
+				invalidDimensions: ['t', 'xywh', 'track']
+			});
+		});
+	});
+
 	describe('combined fragments', () => {
 		it('should parse both temporal and spatial: #t=10,20&xywh=100,200,50,75', () => {
 			const result = parseMediaFragment('https://example.org/canvas#t=10,20&xywh=100,200,50,75');
 
 			expect(result.source).toBe('https://example.org/canvas');
-			expect(result.temporal).toEqual({ start: 10, end: 20 });
+			expect(result.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
 			expect(result.spatial).toEqual({
 				x: 100,
 				y: 200,
@@ -203,7 +489,7 @@ describe('parseMediaFragment', () => {
 		it('should parse both in reverse order: #xywh=100,200,50,75&t=10,20', () => {
 			const result = parseMediaFragment('https://example.org/canvas#xywh=100,200,50,75&t=10,20');
 
-			expect(result.temporal).toEqual({ start: 10, end: 20 });
+			expect(result.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
 			expect(result.spatial).toEqual({
 				x: 100,
 				y: 200,
@@ -222,7 +508,7 @@ describe('parseAnnotationTarget', () => {
 
 			expect(result).toEqual({
 				source: 'https://example.org/canvas/1',
-				temporal: { start: 10, end: 20 }
+				temporal: { start: 10, end: 20, format: 'npt' }
 			});
 		});
 
@@ -260,7 +546,7 @@ describe('parseAnnotationTarget', () => {
 
 			expect(result).toEqual({
 				source: 'https://example.org/canvas/1',
-				temporal: { start: 10, end: 20 }
+				temporal: { start: 10, end: 20, format: 'npt' }
 			});
 		});
 
@@ -297,7 +583,7 @@ describe('parseAnnotationTarget', () => {
 
 			expect(result).toEqual({
 				source: 'https://example.org/canvas/1',
-				temporal: { start: 5, end: 15 }
+				temporal: { start: 5, end: 15, format: 'npt' }
 			});
 		});
 
@@ -317,7 +603,26 @@ describe('parseAnnotationTarget', () => {
 			const result = parseAnnotationTarget(target);
 
 			expect(result?.source).toBe('https://example.org/canvas/1');
-			expect(result?.temporal).toEqual({ start: 10, end: 20 });
+			expect(result?.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
+		});
+
+		it('should parse track and id from FragmentSelector value', () => {
+			const target = {
+				type: 'SpecificResource' as const,
+				source: 'https://example.org/video/1',
+				selector: {
+					type: 'FragmentSelector',
+					value: 'track=audio_fr&id=chapter%201'
+				}
+			};
+
+			const result = parseAnnotationTarget(target);
+
+			expect(result).toEqual({
+				source: 'https://example.org/video/1',
+				track: 'audio_fr',
+				id: 'chapter 1'
+			});
 		});
 
 		it('should return source only for SpecificResource without selector', () => {
@@ -333,14 +638,13 @@ describe('parseAnnotationTarget', () => {
 			});
 		});
 
-		it('should return source for non-FragmentSelector', () => {
+		it('should return source for unsupported selector types', () => {
 			const target = {
 				type: 'SpecificResource' as const,
 				source: 'https://example.org/canvas/1',
 				selector: {
-					type: 'PointSelector',
-					x: 100,
-					y: 200
+					type: 'TextQuoteSelector',
+					exact: 'hello'
 				}
 			};
 
@@ -387,6 +691,261 @@ describe('parseAnnotationTarget', () => {
 		});
 	});
 
+	describe('SpecificResource targets with SvgSelector', () => {
+		it('should parse polygon geometry and keep spatial as its bounding box', () => {
+			const target = {
+				type: 'SpecificResource' as const,
+				source: 'https://example.org/canvas/1',
+				selector: {
+					type: 'SvgSelector',
+					value:
+						'<svg xmlns="http://www.w3.org/2000/svg"><polygon points="100,100 300,100 200,250"/></svg>'
+				}
+			};
+
+			const result = parseAnnotationTarget(target);
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas/1',
+				spatial: { x: 100, y: 100, width: 200, height: 150, unit: 'pixel' },
+				geometry: {
+					shapes: [
+						{
+							type: 'polygon',
+							points: [
+								{ x: 100, y: 100 },
+								{ x: 300, y: 100 },
+								{ x: 200, y: 250 }
+							]
+						}
+					],
+					bounds: { x: 100, y: 100, width: 200, height: 150 }
+				}
+			});
+		});
+
+		it('should return source only when the SVG has no supported shape', () => {
+			const target = {
+				type: 'SpecificResource' as const,
+				source: 'https://example.org/canvas/1',
+				selector: { type: 'SvgSelector', value: '<svg><text>hi</text></svg>' }
+			};
+
+			expect(parseAnnotationTarget(target)).toEqual({ source: 'https://example.org/canvas/1' });
+		});
+	});
+
+	describe('SpecificResource targets with PointSelector', () => {
+		it('should parse t as an instant (IIIF start property)', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: { type: 'PointSelector', t: 27.5 }
+			});
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas/1',
+				temporal: { start: 27.5, end: 27.5, format: 'npt', kind: 'instant' }
+			});
+		});
+
+		it('should parse x and y as a point', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: { type: 'PointSelector', x: 100, y: 200 }
+			});
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas/1',
+				spatial: { x: 100, y: 200, width: 0, height: 0, unit: 'pixel', kind: 'point' }
+			});
+		});
+
+		it('should parse a point in both time and space', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: { id: 'https://example.org/canvas/1', type: 'Canvas' },
+				selector: { type: 'PointSelector', t: 0, x: 0, y: 0 }
+			});
+
+			expect(result?.temporal?.kind).toBe('instant');
+			expect(result?.temporal?.start).toBe(0);
+			expect(result?.spatial?.kind).toBe('point');
+		});
+
+		it('should distinguish a point from an equal-bounds range', () => {
+			const point = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: { type: 'PointSelector', t: 95 }
+			});
+			const range = parseAnnotationTarget('https://example.org/canvas/1#t=95,95');
+
+			expect(point?.temporal?.kind).toBe('instant');
+			expect(range?.temporal?.kind).toBeUndefined();
+		});
+
+		it('should ignore negative, non-numeric and partial coordinates', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: { type: 'PointSelector', t: -1, x: 10 }
+			});
+
+			expect(result).toEqual({ source: 'https://example.org/canvas/1' });
+		});
+	});
+
+	describe('selector arrays, Choice and refinedBy', () => {
+		it('should merge alternative selectors, preferring the first', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: [
+					{ type: 'FragmentSelector', value: 't=10,20' },
+					{ type: 'FragmentSelector', value: 't=30,40&xywh=1,2,3,4' }
+				]
+			});
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas/1',
+				temporal: { start: 10, end: 20, format: 'npt' },
+				spatial: { x: 1, y: 2, width: 3, height: 4, unit: 'pixel' }
+			});
+		});
+
+		it('should skip unsupported alternatives', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: [
+					{ type: 'TextQuoteSelector', value: 'hello' },
+					{ type: 'FragmentSelector', value: 't=5' }
+				]
+			});
+
+			expect(result?.temporal).toEqual({ start: 5, format: 'npt' });
+		});
+
+		it('should drop invalid dimensions supplied by another alternative', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: [
+					{ type: 'FragmentSelector', value: 't=20,10&xywh=a' },
+					{ type: 'FragmentSelector', value: 't=1,2' }
+				]
+			});
+
+			expect(result?.temporal).toEqual({ start: 1, end: 2, format: 'npt' });
+			expect(result?.invalidDimensions).toEqual(['xywh']);
+		});
+
+		it('should merge the items of a Choice selector', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: {
+					type: 'Choice',
+					items: [
+						{ type: 'FragmentSelector', value: 'xywh=percent:0,0,50,50' },
+						{ type: 'FragmentSelector', value: 'xywh=0,0,100,100&t=3' }
+					]
+				}
+			});
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas/1',
+				temporal: { start: 3, format: 'npt' },
+				spatial: { x: 0, y: 0, width: 50, height: 50, unit: 'percent' }
+			});
+		});
+
+		it('should refine a temporal fragment by an SvgSelector', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: {
+					type: 'FragmentSelector',
+					value: 't=10,20',
+					refinedBy: {
+						type: 'SvgSelector',
+						value: '<svg><rect x="10" y="20" width="30" height="40"/></svg>'
+					}
+				}
+			});
+
+			expect(result?.temporal).toEqual({ start: 10, end: 20, format: 'npt' });
+			expect(result?.spatial).toEqual({ x: 10, y: 20, width: 30, height: 40, unit: 'pixel' });
+			expect(result?.geometry?.shapes[0]?.type).toBe('rect');
+		});
+
+		it('should resolve refined times relative to the parent start', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: {
+					type: 'FragmentSelector',
+					value: 't=60,120',
+					refinedBy: { type: 'FragmentSelector', value: 't=5,10' }
+				}
+			});
+
+			expect(result?.temporal).toEqual({ start: 65, end: 70, format: 'npt' });
+		});
+
+		it('should clip refined times to the parent end', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: {
+					type: 'FragmentSelector',
+					value: 't=60,120',
+					refinedBy: { type: 'FragmentSelector', value: 't=50' }
+				}
+			});
+
+			expect(result?.temporal).toEqual({ start: 110, end: 120, format: 'npt' });
+		});
+
+		it('should offset refined pixel regions by the parent origin', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: {
+					type: 'FragmentSelector',
+					value: 'xywh=100,200,300,400',
+					refinedBy: { type: 'FragmentSelector', value: 'xywh=10,20,30,40' }
+				}
+			});
+
+			expect(result?.spatial).toEqual({ x: 110, y: 220, width: 30, height: 40, unit: 'pixel' });
+		});
+
+		it('should follow nested refinedBy chains', () => {
+			const result = parseAnnotationTarget({
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/1',
+				selector: {
+					type: 'FragmentSelector',
+					value: 't=100',
+					refinedBy: {
+						type: 'FragmentSelector',
+						value: 't=10,50',
+						refinedBy: [{ type: 'FragmentSelector', value: 't=5,10&track=en' }]
+					}
+				}
+			});
+
+			expect(result).toEqual({
+				source: 'https://example.org/canvas/1',
+				temporal: { start: 115, end: 120, format: 'npt' },
+				track: 'en'
+			});
+		});
+	});
+
 	describe('edge cases', () => {
 		it('should return null for null input', () => {
 			const result = parseAnnotationTarget(null as unknown as string);
@@ -411,5 +970,281 @@ describe('parseAnnotationTarget', () => {
 
 			expect(result).toBeNull();
 		});
+
+		it('should return null for a SpecificResource without a source', () => {
+			const targets = [
+				{ type: 'SpecificResource' },
+				{ type: 'SpecificResource', source: { type: 'Canvas' } },
+				{ type: 'SpecificResource', source: '' }
+			] as unknown as string[];
+
+			for (const target of targets) {
+				expect(parseAnnotationTarget(target)).toBeNull();
+			}
+		});
+	});
+});
+
+describe('parseAnnotationTargets', () => {
+	it('should wrap a single target in an array', () => {
+		const result = parseAnnotationTargets('https://example.org/canvas/1#t=0,10');
+
+		expect(result).toEqual([
+			{ source: 'https://example.org/canvas/1', temporal: { start: 0, end: 10, format: 'npt' } }
+		]);
+	});
+
+	it('should parse every item of a target array', () => {
+		const result = parseAnnotationTargets([
+			'https://example.org/canvas/1#t=0,10',
+			{
+				type: 'SpecificResource',
+				source: 'https://example.org/canvas/2',
+				selector: { type: 'FragmentSelector', value: 't=5,15' }
+			}
+		]);
+
+		expect(result.map((target) => target.source)).toEqual([
+			'https://example.org/canvas/1',
+			'https://example.org/canvas/2'
+		]);
+	});
+
+	it.each(['Composite', 'List', 'Independents'] as const)(
+		'should parse every item of a %s target',
+		(type) => {
+			const result = parseAnnotationTargets({
+				type,
+				items: ['https://example.org/canvas/1#t=1', 'https://example.org/canvas/2#t=2']
+			});
+
+			expect(result.map((target) => target.temporal?.start)).toEqual([1, 2]);
+		}
+	);
+
+	it('should use the first usable item of a Choice target', () => {
+		const result = parseAnnotationTargets({
+			type: 'Choice',
+			items: [
+				{ type: 'Unknown' } as unknown as string,
+				'https://example.org/canvas/2#t=2',
+				'https://example.org/canvas/3#t=3'
+			]
+		});
+
+		expect(result).toEqual([
+			{ source: 'https://example.org/canvas/2', temporal: { start: 2, format: 'npt' } }
+		]);
+	});
+
+	it('should flatten nested collections', () => {
+		const result = parseAnnotationTargets({
+			type: 'List',
+			items: [
+				{ type: 'Composite', items: ['https://example.org/a', 'https://example.org/b'] },
+				'https://example.org/c'
+			]
+		});
+
+		expect(result.map((target) => target.source)).toEqual([
+			'https://example.org/a',
+			'https://example.org/b',
+			'https://example.org/c'
+		]);
+	});
+
+	it('should return one target per segment of a List selector', () => {
+		const result = parseAnnotationTargets({
+			type: 'SpecificResource',
+			source: 'https://example.org/canvas/1',
+			selector: {
+				type: 'List',
+				items: [
+					{ type: 'FragmentSelector', value: 't=0,10' },
+					{ type: 'FragmentSelector', value: 't=20,30' }
+				],
+				refinedBy: { type: 'FragmentSelector', value: 'xywh=1,2,3,4' }
+			}
+		});
+
+		expect(result).toEqual([
+			{
+				source: 'https://example.org/canvas/1',
+				temporal: { start: 0, end: 10, format: 'npt' },
+				spatial: { x: 1, y: 2, width: 3, height: 4, unit: 'pixel' }
+			},
+			{
+				source: 'https://example.org/canvas/1',
+				temporal: { start: 20, end: 30, format: 'npt' },
+				spatial: { x: 1, y: 2, width: 3, height: 4, unit: 'pixel' }
+			}
+		]);
+	});
+
+	it('should return the first segment from parseAnnotationTarget', () => {
+		const result = parseAnnotationTarget({
+			type: 'Independents',
+			items: ['https://example.org/canvas/1#t=1', 'https://example.org/canvas/2#t=2']
+		});
+
+		expect(result?.source).toBe('https://example.org/canvas/1');
+	});
+
+	it('should return an empty array for invalid input', () => {
+		expect(parseAnnotationTargets(null as unknown as string)).toEqual([]);
+		expect(parseAnnotationTargets('')).toEqual([]);
+		expect(parseAnnotationTargets([])).toEqual([]);
+		expect(parseAnnotationTargets({ type: 'Choice', items: [] })).toEqual([]);
+	});
+});
+
+describe('parseMediaFragmentWithDiagnostics', () => {
+	it('should return the same result as parseMediaFragment', () => {
+		const uri = 'https://example.org/canvas#t=20,10&xywh=1,2,3,4';
+		const { result } = parseMediaFragmentWithDiagnostics(uri);
+
+		expect(result).toEqual(parseMediaFragment(uri));
+	});
+
+	it('should not warn about valid fragments or unknown dimensions', () => {
+		const { warnings } = parseMediaFragmentWithDiagnostics(
+			'https://example.org/canvas#t=10,20&xywh=percent:0,0,50,50&foo=bar&track=en'
+		);
+
+		expect(warnings).toEqual([]);
+	});
+
+	it('should report the code, raw pair and pointer of a rejected value', () => {
+		const { warnings } = parseMediaFragmentWithDiagnostics('https://example.org/canvas#t=20,10');
+
+		expect(warnings).toEqual([
+			{
+				code: 'temporal-reversed',
+				message: 'End 10 is before start 20',
+				value: 't=20,10',
+				pointer: ''
+			}
+		]);
+	});
+
+	it.each([
+		['t=abc', 'fragment-malformed'],
+		['t=10,', 'fragment-malformed'],
+		['t=1,2,3', 'fragment-malformed'],
+		['t=-5,20', 'temporal-negative'],
+		['t=5,-20', 'temporal-negative'],
+		['t=0:75:00', 'temporal-field-out-of-range'],
+		['t=smpte-25:00:00:01:25', 'temporal-field-out-of-range'],
+		['t=smpte-30-drop:00:01:00:00', 'temporal-field-out-of-range'],
+		['t=clock:2011-13-01T00:00:00Z', 'temporal-field-out-of-range'],
+		['t=clock:yesterday', 'fragment-malformed'],
+		['t=clock:,2011-10-01T00:00:00Z', 'fragment-malformed'],
+		['xywh=100,200', 'fragment-malformed'],
+		['xywh=-1,0,10,10', 'spatial-negative'],
+		['xywh=percent:0,0,150,10', 'spatial-out-of-bounds'],
+		['xywh=percent:60,0,50,10', 'spatial-out-of-bounds'],
+		['track=', 'fragment-malformed'],
+		['t=%ZZ', 'fragment-undecodable']
+	])('should report %s as %s', (pair, code) => {
+		const { warnings } = parseMediaFragmentWithDiagnostics(`https://example.org/canvas#${pair}`);
+
+		expect(warnings).toEqual([expect.objectContaining({ code, value: pair })]);
+	});
+
+	it('should only report occurrences tried before the last valid one', () => {
+		const { result, warnings } = parseMediaFragmentWithDiagnostics(
+			'https://example.org/canvas#t=abc&t=5,10&t=20,10'
+		);
+
+		expect(result.temporal).toEqual({ start: 5, end: 10, format: 'npt' });
+		expect(warnings.map((warning) => warning.value)).toEqual(['t=20,10']);
+	});
+});
+
+describe('Presentation 2 targets', () => {
+	const canvas = 'https://example.org/iiif/book1/canvas/p1';
+
+	it('should parse oa:SpecificResource with full and oa:FragmentSelector', () => {
+		const result = parseAnnotationTarget({
+			'@type': 'oa:SpecificResource',
+			full: canvas,
+			selector: { '@type': 'oa:FragmentSelector', value: 'xywh=100,200,50,75' }
+		});
+
+		expect(result).toEqual({
+			source: canvas,
+			spatial: { x: 100, y: 200, width: 50, height: 75, unit: 'pixel' }
+		});
+	});
+
+	it('should give the same result as the Presentation 3 equivalent', () => {
+		const p2 = parseAnnotationTarget({
+			'@id': 'https://example.org/target/1',
+			'@type': 'oa:SpecificResource',
+			full: { '@id': canvas, '@type': 'sc:Canvas' },
+			selector: { '@type': 'oa:FragmentSelector', value: 't=10,20' }
+		});
+		const p3 = parseAnnotationTarget({
+			type: 'SpecificResource',
+			source: { id: canvas, type: 'Canvas' },
+			selector: { type: 'FragmentSelector', value: 't=10,20' }
+		});
+
+		expect(p2).toEqual(p3);
+	});
+
+	it('should merge oa:Choice selector default and item (Mirador 2)', () => {
+		const result = parseAnnotationTarget({
+			'@type': 'oa:SpecificResource',
+			full: canvas,
+			selector: {
+				'@type': 'oa:Choice',
+				default: { '@type': 'oa:FragmentSelector', value: 'xywh=10,20,30,40' },
+				item: {
+					'@type': 'oa:SvgSelector',
+					value: '<svg><rect x="12" y="22" width="26" height="36"/></svg>'
+				}
+			}
+		});
+
+		expect(result?.spatial).toEqual({ x: 10, y: 20, width: 30, height: 40, unit: 'pixel' });
+		expect(result?.geometry?.shapes[0]?.type).toBe('rect');
+	});
+
+	it('should read selector text from chars', () => {
+		const result = parseAnnotationTarget({
+			'@type': 'oa:SpecificResource',
+			full: canvas,
+			selector: { '@type': 'oa:FragmentSelector', chars: 't=5' }
+		});
+
+		expect(result?.temporal).toEqual({ start: 5, format: 'npt' });
+	});
+
+	it('should accept an oa: prefix in type', () => {
+		const result = parseAnnotationTarget({
+			type: 'oa:SpecificResource',
+			full: canvas
+		} as unknown as string);
+
+		expect(result).toEqual({ source: canvas });
+	});
+
+	it('should parse every member of an oa:Choice target, preferring default', () => {
+		const results = parseAnnotationTargets({
+			'@type': 'oa:Choice',
+			default: `${canvas}#t=1,2`,
+			item: [`${canvas}#t=3,4`]
+		} as unknown as string);
+
+		expect(results).toEqual([{ source: canvas, temporal: { start: 1, end: 2, format: 'npt' } }]);
+	});
+
+	it('should return null without a full or source', () => {
+		const result = parseAnnotationTarget({
+			'@type': 'oa:SpecificResource'
+		} as unknown as string);
+
+		expect(result).toBeNull();
 	});
 });
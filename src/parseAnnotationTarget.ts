@@ -10,111 +10,380 @@
 
 import type {
 	TemporalFragment,
+	TemporalFormat,
 	SpatialFragment,
+	MediaFragmentDimension,
 	ParsedAnnotationTarget,
-	AnnotationTargetInput
+	AnnotationTargetInput,
+	AnnotationSelector,
+	SpecificResource,
+	TargetCollection,
+	DiagnosticResult
 } from './types.js';
+import { parseSvgSelector } from './parseSvgSelector.js';
+import { isPresentation2, fromPresentation2Target } from './presentation2.js';
+import {
+	createDiagnostics,
+	rejectWith,
+	type DiagnosticsContext,
+	type Reject
+} from './diagnostics.js';
 
 /**
- * Safely parses a numeric string, returning undefined for empty/invalid.
- * Also rejects negative values per W3C Media Fragments spec.
+ * Frame rates for the SMPTE time code formats defined by W3C Media Fragments.
+ *
+ * `smpte` is synonymous with `smpte-30`. `smpte-30-drop` counts 30 frames per
+ * second but runs at 29.97 fps, dropping frame numbers to stay in sync.
+ *
+ * @see https://www.w3.org/TR/media-frags/#naming-time
  */
-function parseNonNegativeValue(str: string | undefined): number | undefined {
-	if (str === undefined || str === '') {
-		return undefined;
+export const SMPTE_FRAME_RATES: Record<Exclude<TemporalFormat, 'npt' | 'clock'>, number> = {
+	smpte: 30,
+	'smpte-25': 25,
+	'smpte-30': 30,
+	'smpte-30-drop': 30
+};
+
+/**
+ * RFC 3339 date-time as required for `clock:` temporal fragments.
+ * Date.parse() performs the calendar validation (month 13, day 32, ...).
+ */
+const CLOCK_TIME_PATTERN =
+	/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Parses a Normal Play Time value into seconds.
+ *
+ * Accepts the three npt forms from the W3C grammar:
+ * - `npt-sec`: `90`, `90.5`, `90s`
+ * - `npt-mmss`: `01:30`, `01:30.5`
+ * - `npt-hhmmss`: `0:01:30`, `1:01:30.5`
+ *
+ * Minutes and seconds in the clock forms must be two digits in the range 00-59.
+ */
+function parseNptTime(str: string, reject: Reject): number | undefined {
+	const secMatch = str.match(/^(\d+(?:\.\d*)?)s?$/);
+	if (secMatch) {
+		return parseFloat(secMatch[1]!);
+	}
+
+	const clockMatch = str.match(/^(?:(\d+):)?(\d{2}):(\d{2}(?:\.\d*)?)$/);
+	if (!clockMatch) {
+		return reject('fragment-malformed', `"${str}" is not a valid npt time`);
+	}
+
+	const hours = clockMatch[1] === undefined ? 0 : parseInt(clockMatch[1], 10);
+	const minutes = parseInt(clockMatch[2]!, 10);
+	const seconds = parseFloat(clockMatch[3]!);
+	if (minutes > 59 || seconds >= 60) {
+		return reject(
+			'temporal-field-out-of-range',
+			`Minutes and seconds in "${str}" must be below 60`
+		);
 	}
-	const num = parseFloat(str);
-	// Reject NaN and negative values per W3C spec
-	return isNaN(num) || num < 0 ? undefined : num;
+
+	return hours * 3600 + minutes * 60 + seconds;
 }
 
 /**
- * Parses temporal fragment from a fragment string.
+ * Parses an SMPTE time code (`hh:mm:ss[:ff[.ss]]`) into seconds.
  *
- * @param fragment - Fragment string (without #)
- * @returns TemporalFragment or undefined if invalid/not present
+ * Frames must be below the format's frame rate. Subframes are read as
+ * hundredths of a frame. For `smpte-30-drop`, frame numbers 00 and 01 do not
+ * exist at the start of each minute except every tenth minute.
  */
-function parseTemporalFromFragment(fragment: string): TemporalFragment | undefined {
-	// Regex matches: t= followed by optional number, optional comma, optional number
-	const match = fragment.match(/t=([0-9.]*),?([0-9.]*)/);
+function parseSmpteTime(
+	str: string,
+	format: Exclude<TemporalFormat, 'npt' | 'clock'>,
+	reject: Reject
+): number | undefined {
+	const match = str.match(/^(\d+):(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{2}))?)?$/);
 	if (!match) {
-		return undefined;
+		return reject('fragment-malformed', `"${str}" is not a valid ${format} time code`);
 	}
 
-	const startStr = match[1];
-	const endStr = match[2];
+	const fps = SMPTE_FRAME_RATES[format];
+	const hours = parseInt(match[1]!, 10);
+	const minutes = parseInt(match[2]!, 10);
+	const seconds = parseInt(match[3]!, 10);
+	const frames = match[4] === undefined ? 0 : parseInt(match[4], 10);
+	const subframes = match[5] === undefined ? 0 : parseInt(match[5], 10) / 100;
 
-	// Both empty means invalid (just "t=")
-	if (startStr === '' && endStr === '') {
-		return undefined;
+	if (minutes > 59 || seconds > 59 || frames >= fps) {
+		return reject(
+			'temporal-field-out-of-range',
+			`Fields of "${str}" exceed 59 minutes, 59 seconds or ${fps - 1} frames`
+		);
+	}
+
+	if (format !== 'smpte-30-drop') {
+		return hours * 3600 + minutes * 60 + seconds + (frames + subframes) / fps;
+	}
+
+	if (seconds === 0 && minutes % 10 !== 0 && frames < 2) {
+		return reject('temporal-field-out-of-range', `Frame "${str}" is dropped in ${format}`);
+	}
+
+	// Convert the drop-frame label to an absolute frame count, then to seconds at 29.97 fps
+	const totalMinutes = hours * 60 + minutes;
+	const droppedFrames = 2 * (totalMinutes - Math.floor(totalMinutes / 10));
+	const frameCount = (hours * 3600 + minutes * 60 + seconds) * fps + frames - droppedFrames;
+	return ((frameCount + subframes) * 1001) / 30000;
+}
+
+/**
+ * Parses a wall-clock time into seconds since the Unix epoch.
+ */
+function parseClockTime(str: string, reject: Reject): number | undefined {
+	if (!CLOCK_TIME_PATTERN.test(str)) {
+		return reject('fragment-malformed', `"${str}" is not an RFC 3339 date-time`);
+	}
+	const ms = Date.parse(str);
+	if (isNaN(ms)) {
+		return reject('temporal-field-out-of-range', `"${str}" is not a valid calendar date-time`);
+	}
+	return ms / 1000;
+}
+
+/**
+ * Parses a single time value in the given format.
+ */
+function parseTimeValue(str: string, format: TemporalFormat, reject: Reject): number | undefined {
+	if (/^-\d/.test(str)) {
+		return reject('temporal-negative', `Time "${str}" is negative`);
+	}
+	if (format === 'npt') {
+		return parseNptTime(str, reject);
+	}
+	if (format === 'clock') {
+		return parseClockTime(str, reject);
+	}
+	return parseSmpteTime(str, format, reject);
+}
+
+/**
+ * Parses the value of a `t=` dimension per the W3C Media Fragments grammar.
+ *
+ * Supported forms:
+ * - `10,20`, `npt:10,20`, `npt:0:00:10,0:00:20`, `npt:00:10,00:20`
+ * - `smpte:0:00:10:12`, `smpte-25:...`, `smpte-30:...`, `smpte-30-drop:...`
+ * - `clock:2011-10-01T23:00:45Z,2011-10-01T23:01:00Z`
+ *
+ * Either bound may be omitted, but not both (`10`, `,20`). An omitted start
+ * means the beginning of the media and is reported as 0, except for `clock:`
+ * times, where the wall-clock time of the beginning is unknown and the value
+ * is rejected.
+ *
+ * @param value - Value of the `t` dimension (without `t=`)
+ * @param reject - Receives the reason when the value is invalid
+ * @returns TemporalFragment or undefined if invalid
+ */
+function parseTemporalValue(value: string, reject: Reject): TemporalFragment | undefined {
+	const prefixMatch = value.match(/^(npt|smpte(?:-25|-30(?:-drop)?)?|clock):/);
+	const format = (prefixMatch?.[1] ?? 'npt') as TemporalFormat;
+	const times = prefixMatch ? value.slice(prefixMatch[0].length) : value;
+
+	const parts = times.split(',');
+	if (parts.length > 2) {
+		return reject('fragment-malformed', `"${value}" has more than two times`);
 	}
 
-	// Handle t=,end pattern (from start) - empty start means 0
-	const start = startStr === '' ? 0 : parseNonNegativeValue(startStr);
-	const end = parseNonNegativeValue(endStr);
+	const startStr = parts[0]!;
+	const endStr = parts[1];
 
-	// Start must be valid (parseNonNegativeValue handles negative rejection)
+	// "t=" and "t=10," are both malformed; "t=,20" is allowed
+	if (endStr === '' || (startStr === '' && endStr === undefined)) {
+		return reject('fragment-malformed', `"${value}" is missing a time`);
+	}
+	if (startStr === '' && format === 'clock') {
+		return reject('fragment-malformed', `"${value}" has no start; clock times need one`);
+	}
+
+	const start = startStr === '' ? 0 : parseTimeValue(startStr, format, reject);
 	if (start === undefined) {
 		return undefined;
 	}
+	const end = endStr === undefined ? undefined : parseTimeValue(endStr, format, reject);
+
+	if (endStr !== undefined && end === undefined) {
+		return undefined;
+	}
 
 	// Reject reversed ranges (end before start).
 	// Equal values (t=x,x) are accepted — AVAnnotate and other tools use
 	// this pattern for point-in-time annotations even though the W3C Media
 	// Fragments spec considers it an error (§6.2.2).
 	if (end !== undefined && end < start) {
-		return undefined;
+		return reject('temporal-reversed', `End ${end} is before start ${start}`);
 	}
 
 	// Conditionally include end only when defined (exactOptionalPropertyTypes)
-	return end !== undefined ? { start, end } : { start };
+	return end !== undefined ? { start, end, format } : { start, format };
 }
 
 /**
- * Parses spatial fragment from a fragment string.
+ * Parses the value of an `xywh=` dimension.
  *
  * Supports W3C Media Fragments spatial targeting:
  * - `xywh=100,200,50,75` - pixel coordinates (default)
+ * - `xywh=pixel:100,200,50,75` - explicit pixel coordinates
  * - `xywh=percent:10,20,30,40` - percentage coordinates
  *
- * @param fragment - Fragment string (without #)
- * @returns SpatialFragment or undefined if invalid/not present
+ * @param value - Value of the `xywh` dimension (without `xywh=`)
+ * @param reject - Receives the reason when the value is invalid
+ * @returns SpatialFragment or undefined if invalid
  *
  * @see https://www.w3.org/TR/media-frags/#naming-space
  */
-function parseSpatialFromFragment(fragment: string): SpatialFragment | undefined {
-	// Regex matches: xywh=[pixel:|percent:]x,y,w,h
-	const match = fragment.match(/xywh=(pixel:|percent:)?([0-9.]+),([0-9.]+),([0-9.]+),([0-9.]+)/);
+function parseSpatialValue(value: string, reject: Reject): SpatialFragment | undefined {
+	// Regex matches: [pixel:|percent:]x,y,w,h with optionally signed decimal numbers
+	const match = value.match(
+		/^(?:(pixel|percent):)?(-?\d+(?:\.\d*)?),(-?\d+(?:\.\d*)?),(-?\d+(?:\.\d*)?),(-?\d+(?:\.\d*)?)$/
+	);
 	if (!match) {
-		return undefined;
+		return reject('fragment-malformed', `"${value}" is not four comma-separated numbers`);
 	}
-
-	const unit = match[1] === 'percent:' ? 'percent' : 'pixel';
-	const x = parseNonNegativeValue(match[2]);
-	const y = parseNonNegativeValue(match[3]);
-	const width = parseNonNegativeValue(match[4]);
-	const height = parseNonNegativeValue(match[5]);
-
-	// All four values must be valid
-	if (x === undefined || y === undefined || width === undefined || height === undefined) {
-		return undefined;
+	if (match.slice(2).some((number) => number.startsWith('-'))) {
+		return reject('spatial-negative', `"${value}" has a negative coordinate or size`);
 	}
 
+	const unit = match[1] === 'percent' ? 'percent' : 'pixel';
+	const x = parseFloat(match[2]!);
+	const y = parseFloat(match[3]!);
+	const width = parseFloat(match[4]!);
+	const height = parseFloat(match[5]!);
+
 	// For percentage units, validate bounds (0-100) and that region fits within canvas
 	if (unit === 'percent') {
 		// Individual values must be <= 100
 		if (x > 100 || y > 100 || width > 100 || height > 100) {
-			return undefined;
+			return reject('spatial-out-of-bounds', `"${value}" has a percentage above 100`);
 		}
 		// Region must fit within bounds (x + width <= 100, y + height <= 100)
 		if (x + width > 100 || y + height > 100) {
-			return undefined;
+			return reject('spatial-out-of-bounds', `"${value}" extends beyond the canvas`);
 		}
 	}
 
 	return { x, y, width, height, unit };
 }
 
+/**
+ * Parses the value of a `track=` or `id=` dimension.
+ * Any non-empty (already percent-decoded) string is a valid name.
+ *
+ * @see https://www.w3.org/TR/media-frags/#naming-track
+ * @see https://www.w3.org/TR/media-frags/#naming-name
+ */
+function parseNameValue(value: string, reject: Reject): string | undefined {
+	return value === '' ? reject('fragment-malformed', 'Name is empty') : value;
+}
+
+/**
+ * Percent-decodes a fragment name or value as UTF-8.
+ *
+ * @returns Decoded string, or undefined for invalid escape sequences
+ */
+function percentDecode(str: string): string | undefined {
+	try {
+		return decodeURIComponent(str);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Name-value pair from a media fragment, after percent-decoding.
+ */
+interface FragmentParameter {
+	name: string;
+	value: string;
+	/** Pair as written in the fragment, before decoding */
+	raw: string;
+}
+
+/**
+ * Splits a fragment string into name-value pairs per W3C Media Fragments §5.1.
+ *
+ * Pairs are separated by `&` and split at the first `=`. Names and values are
+ * percent-decoded as UTF-8. Pairs without `=`, with an empty name, or that fail
+ * to decode are dropped.
+ *
+ * @param fragment - Fragment string (without #)
+ * @param diagnostics - Receives a warning for each pair that fails to decode
+ * @returns Pairs in document order (names may repeat)
+ *
+ * @see https://www.w3.org/TR/media-frags/#processing-name-value-components
+ */
+function tokenizeFragment(fragment: string, diagnostics?: DiagnosticsContext): FragmentParameter[] {
+	const params: FragmentParameter[] = [];
+
+	for (const pair of fragment.split('&')) {
+		const equalsIndex = pair.indexOf('=');
+		if (equalsIndex === -1) {
+			continue;
+		}
+
+		const name = percentDecode(pair.substring(0, equalsIndex));
+		const value = percentDecode(pair.substring(equalsIndex + 1));
+		if (name === undefined || value === undefined) {
+			rejectWith(diagnostics, pair)('fragment-undecodable', 'Invalid percent-encoding');
+			continue;
+		}
+		if (!name) {
+			continue;
+		}
+
+		params.push({ name, value, raw: pair });
+	}
+
+	return params;
+}
+
+/**
+ * Resolves one dimension from tokenized fragment parameters.
+ *
+ * Applies the W3C "last valid occurrence wins" rule: occurrences are tried from
+ * last to first and the first one that parses is used. When the dimension is
+ * present but no occurrence parses, it is recorded in `invalid`. Each invalid
+ * occurrence that was tried is reported to `diagnostics`.
+ *
+ * @param params - Tokenized fragment parameters
+ * @param name - Dimension to resolve
+ * @param parse - Value parser for the dimension
+ * @param invalid - Accumulator for dimensions that were present but invalid
+ * @param diagnostics - Optional warning sink
+ * @returns Parsed value or undefined if absent/invalid
+ *
+ * @see https://www.w3.org/TR/media-frags/#error-uri-general
+ */
+function resolveDimension<T>(
+	params: FragmentParameter[],
+	name: MediaFragmentDimension,
+	parse: (value: string, reject: Reject) => T | undefined,
+	invalid: MediaFragmentDimension[],
+	diagnostics?: DiagnosticsContext
+): T | undefined {
+	let present = false;
+
+	for (let i = params.length - 1; i >= 0; i--) {
+		const param = params[i]!;
+		if (param.name !== name) {
+			continue;
+		}
+		present = true;
+		const value = parse(param.value, rejectWith(diagnostics, param.raw));
+		if (value !== undefined) {
+			return value;
+		}
+	}
+
+	if (present) {
+		invalid.push(name);
+	}
+	return undefined;
+}
+
 /**
  * Parses W3C Media Fragment URI components from a string.
  *
@@ -123,6 +392,20 @@ function parseSpatialFromFragment(fragment: string): SpatialFragment | undefined
  * - `#t=10` - start time only (end optional)
  * - `#t=,20` - from start (0) to end time
  * - Float precision supported: `#t=10.5,25.75`
+ * - npt clock values: `#t=npt:0:01:30,0:02:00`, `#t=01:30`
+ * - SMPTE time codes: `#t=smpte-25:00:01:30:12`, `#t=smpte-30-drop:00:01:00:02`
+ * - Wall-clock time: `#t=clock:2011-10-01T23:00:45Z` (seconds since the Unix epoch)
+ *
+ * The parsed `temporal.format` records which of these forms was used.
+ *
+ * Also extracts the track (`#track=audio_fr`) and name (`#id=chapter-1`)
+ * dimensions.
+ *
+ * The fragment is tokenized per W3C Media Fragments §5.1: name-value pairs are
+ * split on `&`, names and values are percent-decoded, unknown dimensions are
+ * ignored, and when a dimension repeats the last valid occurrence wins.
+ * Dimensions that were present but had no valid occurrence are listed in
+ * `invalidDimensions`.
  *
  * @param uri - URI potentially containing media fragments
  * @returns Parsed fragment data with source URI (always returns an object)
@@ -132,8 +415,9 @@ function parseSpatialFromFragment(fragment: string): SpatialFragment | undefined
  *
  * The `temporal` property is undefined when:
  * - No `#t=` fragment present in URI
- * - Fragment is malformed (`#t=invalid`, `#t=`)
- * - Values are negative (`#t=-5,20`)
+ * - Fragment is malformed (`#t=invalid`, `#t=`, `#t=10,`)
+ * - Values are negative (`#t=-5,20`, `#t=5,-20`)
+ * - Clock fields are out of range (`#t=0:75:00`, frame 30 in `smpte-25`)
  * - Time range is reversed (`#t=20,10` where end < start)
  *
  * The `spatial` property is undefined when:
@@ -142,13 +426,18 @@ function parseSpatialFromFragment(fragment: string): SpatialFragment | undefined
  * - Values are negative
  * - Percentage values exceed bounds (>100 or region outside canvas)
  *
+ * Use {@link parseMediaFragmentWithDiagnostics} to find out why a value was rejected.
+ *
  * @example
  * ```typescript
  * parseMediaFragment('https://example.org/canvas#t=10,20')
- * // => { source: 'https://example.org/canvas', temporal: { start: 10, end: 20 } }
+ * // => { source: 'https://example.org/canvas', temporal: { start: 10, end: 20, format: 'npt' } }
  *
  * parseMediaFragment('https://example.org/canvas#t=10')
- * // => { source: 'https://example.org/canvas', temporal: { start: 10 } }
+ * // => { source: 'https://example.org/canvas', temporal: { start: 10, format: 'npt' } }
+ *
+ * parseMediaFragment('https://example.org/canvas#t=smpte-25:00:01:30:12')
+ * // => { source: 'https://example.org/canvas', temporal: { start: 90.48, format: 'smpte-25' } }
  *
  * parseMediaFragment('https://example.org/canvas#t=20,10')
  * // => { source: 'https://example.org/canvas', temporal: undefined } // invalid range
@@ -157,6 +446,50 @@ function parseSpatialFromFragment(fragment: string): SpatialFragment | undefined
  * @see https://www.w3.org/TR/media-frags/#naming-time
  */
 export function parseMediaFragment(uri: string): ParsedAnnotationTarget {
+	return parseFragmentUri(uri);
+}
+
+/**
+ * Parses W3C Media Fragment URI components, explaining anything rejected.
+ *
+ * Returns the same result as {@link parseMediaFragment}, together with one
+ * warning per dropped name-value pair: invalid values of known dimensions
+ * and pairs that fail to percent-decode. Unknown dimensions are ignored, as
+ * the spec requires, and produce no warning. Warning pointers are always `''`
+ * since the input is a single string.
+ *
+ * @param uri - URI potentially containing media fragments
+ * @returns Parsed fragment data and warnings
+ *
+ * @example
+ * ```typescript
+ * parseMediaFragmentWithDiagnostics('https://example.org/canvas#t=20,10')
+ * // => {
+ * //   result: { source: 'https://example.org/canvas', invalidDimensions: ['t'] },
+ * //   warnings: [
+ * //     { code: 'temporal-reversed', message: 'End 10 is before start 20', value: 't=20,10', pointer: '' }
+ * //   ]
+ * // }
+ * ```
+ */
+export function parseMediaFragmentWithDiagnostics(
+	uri: string
+): DiagnosticResult<ParsedAnnotationTarget> {
+	const diagnostics = createDiagnostics();
+	const result = parseFragmentUri(uri, diagnostics);
+	return { result, warnings: diagnostics.warnings };
+}
+
+/**
+ * Parses a media fragment URI, reporting rejected values to `diagnostics`.
+ *
+ * Shared with the Range parser, which reads Canvas ids with it so that they
+ * accept the same fragments as annotation targets.
+ */
+export function parseFragmentUri(
+	uri: string,
+	diagnostics?: DiagnosticsContext
+): ParsedAnnotationTarget {
 	const hashIndex = uri.indexOf('#');
 
 	if (hashIndex === -1) {
@@ -166,80 +499,336 @@ export function parseMediaFragment(uri: string): ParsedAnnotationTarget {
 	const source = uri.substring(0, hashIndex);
 	const fragment = uri.substring(hashIndex + 1);
 
-	const temporal = parseTemporalFromFragment(fragment);
-	const spatial = parseSpatialFromFragment(fragment);
+	const params = tokenizeFragment(fragment, diagnostics);
+	const invalid: MediaFragmentDimension[] = [];
+
+	const temporal = resolveDimension(params, 't', parseTemporalValue, invalid, diagnostics);
+	const spatial = resolveDimension(params, 'xywh', parseSpatialValue, invalid, diagnostics);
+	const track = resolveDimension(params, 'track', parseNameValue, invalid, diagnostics);
+	const id = resolveDimension(params, 'id', parseNameValue, invalid, diagnostics);
 
 	// Build result conditionally (exactOptionalPropertyTypes)
 	const result: ParsedAnnotationTarget = { source };
 	if (temporal) result.temporal = temporal;
 	if (spatial) result.spatial = spatial;
+	if (track) result.track = track;
+	if (id) result.id = id;
+	if (invalid.length > 0) result.invalidDimensions = invalid;
 	return result;
 }
 
 /**
  * Extracts source URI from a SpecificResource source field.
+ *
+ * @returns Source URI, or undefined if the source is missing or has no string id
+ */
+function extractSourceUri(source: unknown): string | undefined {
+	const uri =
+		source && typeof source === 'object' ? (source as { id?: unknown }).id : (source as unknown);
+	return typeof uri === 'string' && uri !== '' ? uri : undefined;
+}
+
+/**
+ * Checks that a PointSelector coordinate is a finite, non-negative number.
  */
-function extractSourceUri(source: string | { id: string }): string {
-	return typeof source === 'string' ? source : source.id;
+function isPointCoordinate(value: unknown): value is number {
+	return typeof value === 'number' && Number.isFinite(value) && value >= 0;
 }
 
 /**
- * Parses a string annotation target.
+ * Parses a PointSelector into temporal and spatial dimensions.
+ *
+ * - `t` becomes an instant: `{ start: t, end: t, kind: 'instant' }`
+ * - `x`/`y` become a zero-size pixel region: `{ x, y, width: 0, height: 0, kind: 'point' }`
+ *
+ * Both x and y are required for a spatial point. Negative or non-numeric
+ * values are ignored.
+ *
+ * @see https://iiif.io/api/presentation/3.0/#point-selector
  */
-function parseStringTarget(target: string): ParsedAnnotationTarget | null {
-	if (target === '') {
-		return null;
+function parsePointSelector(
+	selector: AnnotationSelector
+): Pick<ParsedAnnotationTarget, 'temporal' | 'spatial'> {
+	const result: Pick<ParsedAnnotationTarget, 'temporal' | 'spatial'> = {};
+
+	if (isPointCoordinate(selector.t)) {
+		result.temporal = { start: selector.t, end: selector.t, format: 'npt', kind: 'instant' };
+	}
+
+	if (isPointCoordinate(selector.x) && isPointCoordinate(selector.y)) {
+		result.spatial = {
+			x: selector.x,
+			y: selector.y,
+			width: 0,
+			height: 0,
+			unit: 'pixel',
+			kind: 'point'
+		};
 	}
-	return parseMediaFragment(target);
+
+	return result;
 }
 
 /**
- * Parses a SpecificResource annotation target.
+ * Fragment dimensions contributed by selectors (a parsed target without its source).
  */
-function parseSpecificResourceTarget(
-	target: Extract<AnnotationTargetInput, { type: 'SpecificResource' }>
-): ParsedAnnotationTarget {
-	const source = extractSourceUri(target.source);
+type SelectorDimensions = Omit<ParsedAnnotationTarget, 'source'>;
+
+/**
+ * Target field holding each media fragment dimension.
+ */
+const DIMENSION_FIELDS = {
+	t: 'temporal',
+	xywh: 'spatial',
+	track: 'track',
+	id: 'id'
+} as const satisfies Record<MediaFragmentDimension, keyof SelectorDimensions>;
+
+/**
+ * Normalizes a single value or array into an array.
+ */
+function toArray<T>(value: T | T[]): T[] {
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Combines the invalid dimensions of merged selectors, dropping any that
+ * another selector supplied a valid value for.
+ */
+function mergeInvalidDimensions(
+	merged: SelectorDimensions,
+	...parts: SelectorDimensions[]
+): SelectorDimensions {
+	const invalid = new Set(parts.flatMap((part) => part.invalidDimensions ?? []));
+	const unresolved = [...invalid].filter((name) => merged[DIMENSION_FIELDS[name]] === undefined);
+
+	const { invalidDimensions: _invalid, ...result } = merged;
+	return unresolved.length > 0 ? { ...result, invalidDimensions: unresolved } : result;
+}
+
+/**
+ * Merges alternative selectors that describe the same segment.
+ *
+ * Per the Web Annotation model, each selector in an array (or Choice) selects
+ * the same segment in a different way. Dimensions are combined, and where two
+ * selectors supply the same dimension the earlier one wins.
+ *
+ * @see https://www.w3.org/TR/annotation-model/#selectors
+ */
+function mergeAlternatives(
+	primary: SelectorDimensions,
+	alternative: SelectorDimensions
+): SelectorDimensions {
+	return mergeInvalidDimensions({ ...alternative, ...primary }, primary, alternative);
+}
+
+/**
+ * Applies a refining selector to the segment selected by its parent.
+ *
+ * Dimensions are combined, with the refinement taking precedence. Where both
+ * select the same dimension, the refinement is relative to the parent:
+ * - Temporal: refinement times are offsets from the parent start, and the end
+ *   is clipped to the parent end
+ * - Pixel regions: refinement coordinates are offsets from the parent origin
+ * - Other combinations (percent regions, SVG geometry): the refinement replaces
+ *   the parent value
+ *
+ * @see https://www.w3.org/TR/annotation-model/#refinement-of-selection
+ */
+function refineDimensions(
+	parent: SelectorDimensions,
+	refinement: SelectorDimensions
+): SelectorDimensions {
+	const result: SelectorDimensions = { ...parent, ...refinement };
 
-	// Check for FragmentSelector with value
-	if (target.selector?.type === 'FragmentSelector' && target.selector.value) {
+	if (parent.temporal && refinement.temporal) {
+		const offset = parent.temporal.start;
+		const parentEnd = parent.temporal.end ?? Infinity;
+		const start = Math.min(offset + refinement.temporal.start, parentEnd);
+		const end =
+			refinement.temporal.end !== undefined
+				? Math.min(offset + refinement.temporal.end, parentEnd)
+				: parent.temporal.end;
+		result.temporal = { ...refinement.temporal, start, format: parent.temporal.format ?? 'npt' };
+		if (end !== undefined) {
+			result.temporal.end = end;
+		} else {
+			delete result.temporal.end;
+		}
+	}
+
+	if (refinement.spatial) {
+		const parentSpatial = parent.spatial;
+		if (
+			parentSpatial?.unit === 'pixel' &&
+			refinement.spatial.unit === 'pixel' &&
+			!refinement.geometry
+		) {
+			result.spatial = {
+				...refinement.spatial,
+				x: parentSpatial.x + refinement.spatial.x,
+				y: parentSpatial.y + refinement.spatial.y
+			};
+		}
+		// The parent's shape no longer describes the refined region
+		if (!refinement.geometry) {
+			delete result.geometry;
+		}
+	}
+
+	return mergeInvalidDimensions(result, parent, refinement);
+}
+
+/**
+ * Multiplicity constructs from the Web Annotation model.
+ *
+ * `Choice` offers alternatives for the same segment or resource; the others
+ * group several segments or resources that each count as a target.
+ *
+ * @see https://www.w3.org/TR/annotation-vocab/#multiplicity-constructs
+ */
+const MULTIPLE_SEGMENT_TYPES = new Set(['Composite', 'List', 'Independents']);
+
+/**
+ * Parses one selector, including its `refinedBy` chain.
+ *
+ * Returns one dimension set per selected segment: a single entry for ordinary
+ * selectors and Choice groups, several for Composite/List/Independents groups.
+ */
+function parseSelector(selector: AnnotationSelector): SelectorDimensions[] {
+	let segments: SelectorDimensions[] = [{}];
+
+	if (selector.type === 'FragmentSelector' && selector.value) {
 		// Parse the selector value as a fragment
-		const fragmentResult = parseMediaFragment(`dummy#${target.selector.value}`);
-		// Build result conditionally (exactOptionalPropertyTypes)
-		const result: ParsedAnnotationTarget = { source };
-		if (fragmentResult.temporal) result.temporal = fragmentResult.temporal;
-		if (fragmentResult.spatial) result.spatial = fragmentResult.spatial;
-		return result;
+		const { source: _dummy, ...fragment } = parseMediaFragment(`dummy#${selector.value}`);
+		segments = [fragment];
+	} else if (selector.type === 'SvgSelector' && selector.value) {
+		const geometry = parseSvgSelector(selector.value);
+		if (geometry) {
+			// Keep spatial populated with the bounding box for region-based consumers
+			segments = [{ spatial: { ...geometry.bounds, unit: 'pixel' }, geometry }];
+		}
+	} else if (selector.type === 'PointSelector') {
+		segments = [parsePointSelector(selector)];
+	} else if (selector.type === 'Choice' && Array.isArray(selector.items)) {
+		segments = parseSelectors(selector.items);
+	} else if (MULTIPLE_SEGMENT_TYPES.has(selector.type) && Array.isArray(selector.items)) {
+		segments = selector.items
+			.filter((item) => item && typeof item === 'object')
+			.flatMap(parseSelector);
 	}
 
-	// No FragmentSelector - return just the source
-	return { source };
+	if (selector.refinedBy) {
+		const refinements = parseSelectors(selector.refinedBy);
+		segments = segments.flatMap((parent) =>
+			refinements.map((refinement) => refineDimensions(parent, refinement))
+		);
+	}
+
+	return segments;
+}
+
+/**
+ * Parses a selector or array of alternative selectors.
+ *
+ * Single-segment alternatives are merged (see {@link mergeAlternatives}).
+ * An alternative selecting several segments cannot be merged; the earliest
+ * alternative that selects anything is used instead.
+ */
+function parseSelectors(
+	selectors: AnnotationSelector | AnnotationSelector[]
+): SelectorDimensions[] {
+	return toArray(selectors)
+		.filter((selector) => selector && typeof selector === 'object')
+		.map(parseSelector)
+		.reduce<SelectorDimensions[]>(
+			(primary, alternative) => {
+				const [first] = primary;
+				const [other] = alternative;
+				if (primary.length === 1 && alternative.length === 1 && first && other) {
+					return [mergeAlternatives(first, other)];
+				}
+				return isEmptySelection(primary) ? alternative : primary;
+			},
+			[{}]
+		);
+}
+
+/**
+ * Checks whether parsed selectors contributed no dimensions at all.
+ */
+function isEmptySelection(segments: SelectorDimensions[]): boolean {
+	return segments.every((segment) => Object.keys(segment).length === 0);
+}
+
+/**
+ * Parses a SpecificResource annotation target into one target per selected segment.
+ */
+function parseSpecificResourceTarget(target: SpecificResource): ParsedAnnotationTarget[] {
+	const source = extractSourceUri(target.source);
+	if (source === undefined) {
+		return [];
+	}
+
+	if (!target.selector) {
+		return [{ source }];
+	}
+
+	return parseSelectors(target.selector).map((dimensions) => ({ source, ...dimensions }));
+}
+
+/**
+ * Checks whether a target is a Choice/Composite/List/Independents collection.
+ */
+function isTargetCollection(target: object): target is TargetCollection {
+	return (
+		'type' in target &&
+		(target.type === 'Choice' || MULTIPLE_SEGMENT_TYPES.has(target.type as string)) &&
+		'items' in target &&
+		Array.isArray(target.items)
+	);
 }
 
 /**
  * Parses an IIIF annotation target into structured fragment data.
  *
- * Handles two IIIF patterns:
+ * Handles five IIIF patterns:
  * 1. Simple string with media fragment: `"https://example.org/canvas#t=10,20"`
  * 2. SpecificResource with FragmentSelector
+ * 3. SpecificResource with SvgSelector (polygon, rect, circle, ellipse, path)
+ * 4. SpecificResource with PointSelector (`t`, `x`, `y`); the parsed fragments
+ *    carry `kind: 'instant'` / `kind: 'point'` to tell them from ranges and regions
+ * 5. Presentation 2 `oa:SpecificResource` with `full` and `oa:` selectors
+ *    (`@id`/`@type` keys, `oa:Choice` with `default`/`item`), normalized into
+ *    the same result as the Presentation 3 equivalent
  *
- * @param target - Annotation target (string URI or SpecificResource object)
+ * Selector arrays, `Choice` selectors and `refinedBy` chains are combined into
+ * one target. When the target selects several resources or segments (arrays,
+ * Composite, List or Independents), only the first is returned; use
+ * {@link parseAnnotationTargets} to get all of them.
+ *
+ * @param target - Annotation target (string URI, SpecificResource, multiplicity construct or array)
  * @returns Parsed annotation target, or null if input is invalid
  *
  * @remarks
  * Returns `null` when:
  * - Input is null, undefined, or empty string
- * - Input is an object without `type: 'SpecificResource'`
+ * - Input is an object without `type: 'SpecificResource'` that is not a multiplicity construct
+ *   (`oa:` prefixed and `@type` forms included)
+ * - Input is a SpecificResource whose `source` is missing or has no `id`
+ * - Input is an empty array or multiplicity construct
  *
  * Returns object with undefined `temporal`/`spatial` when:
  * - No fragment present in URI or selector
  * - Fragment is malformed (see {@link parseMediaFragment} for details)
- * - Non-FragmentSelector types (e.g., PointSelector) - only source is extracted
+ * - SvgSelector value contains no supported shape (see {@link parseSvgSelector})
+ * - PointSelector values are missing or negative
+ * - Other selector types (e.g., TextQuoteSelector) - only source is extracted
  *
  * @example String target
  * ```typescript
  * parseAnnotationTarget('https://example.org/canvas#t=10,20')
- * // => { source: 'https://example.org/canvas', temporal: { start: 10, end: 20 } }
+ * // => { source: 'https://example.org/canvas', temporal: { start: 10, end: 20, format: 'npt' } }
  * ```
  *
  * @example SpecificResource target
@@ -249,23 +838,112 @@ function parseSpecificResourceTarget(
  *   source: 'https://example.org/canvas',
  *   selector: { type: 'FragmentSelector', value: 't=10,20' }
  * })
- * // => { source: 'https://example.org/canvas', temporal: { start: 10, end: 20 } }
+ * // => { source: 'https://example.org/canvas', temporal: { start: 10, end: 20, format: 'npt' } }
+ * ```
+ *
+ * @example SvgSelector target
+ * ```typescript
+ * parseAnnotationTarget({
+ *   type: 'SpecificResource',
+ *   source: 'https://example.org/canvas',
+ *   selector: { type: 'SvgSelector', value: '<svg><rect x="10" y="20" width="30" height="40"/></svg>' }
+ * })
+ * // => {
+ * //   source: 'https://example.org/canvas',
+ * //   spatial: { x: 10, y: 20, width: 30, height: 40, unit: 'pixel' },
+ * //   geometry: { shapes: [{ type: 'rect', ... }], bounds: { x: 10, y: 20, width: 30, height: 40 } }
+ * // }
+ * ```
+ *
+ * @example Refined selector
+ * ```typescript
+ * parseAnnotationTarget({
+ *   type: 'SpecificResource',
+ *   source: 'https://example.org/canvas',
+ *   selector: {
+ *     type: 'FragmentSelector',
+ *     value: 't=60,120',
+ *     refinedBy: { type: 'FragmentSelector', value: 't=5,10' }
+ *   }
+ * })
+ * // => { source: 'https://example.org/canvas', temporal: { start: 65, end: 70, format: 'npt' } }
  * ```
  */
 export function parseAnnotationTarget(
 	target: AnnotationTargetInput
 ): ParsedAnnotationTarget | null {
+	return parseAnnotationTargets(target)[0] ?? null;
+}
+
+/**
+ * Parses an annotation target into every target it selects.
+ *
+ * Web Annotation targets can select several resources or segments at once:
+ * - Arrays of targets, and `Composite`, `List` or `Independents` groups,
+ *   yield one parsed target per item, in order
+ * - `Choice` groups yield the targets of the first usable item
+ * - Selectors of type `Composite`, `List` or `Independents` yield one parsed
+ *   target per selected segment of the same source
+ *
+ * Each item is otherwise parsed as in {@link parseAnnotationTarget}.
+ *
+ * @param target - Annotation target (string URI, SpecificResource, multiplicity construct or array)
+ * @returns Parsed annotation targets (empty if input is invalid)
+ *
+ * @example
+ * ```typescript
+ * parseAnnotationTargets({
+ *   type: 'List',
+ *   items: ['https://example.org/canvas/1#t=0,10', 'https://example.org/canvas/2#t=5,15']
+ * })
+ * // => [
+ * //   { source: 'https://example.org/canvas/1', temporal: { start: 0, end: 10, format: 'npt' } },
+ * //   { source: 'https://example.org/canvas/2', temporal: { start: 5, end: 15, format: 'npt' } }
+ * // ]
+ * ```
+ *
+ * @see https://www.w3.org/TR/annotation-model/#sets-of-bodies-and-targets
+ */
+export function parseAnnotationTargets(target: AnnotationTargetInput): ParsedAnnotationTarget[] {
 	if (!target) {
-		return null;
+		return [];
 	}
 
 	if (typeof target === 'string') {
-		return parseStringTarget(target);
+		return [parseMediaFragment(target)];
+	}
+
+	if (Array.isArray(target)) {
+		return target.flatMap(parseAnnotationTargets);
+	}
+
+	if (typeof target !== 'object') {
+		return [];
+	}
+
+	// Presentation 2 targets are converted, then parsed like any other
+	if (isPresentation2(target)) {
+		const converted = fromPresentation2Target(target);
+		return converted ? parseAnnotationTargets(converted) : [];
+	}
+
+	if (isTargetCollection(target)) {
+		if (target.type === 'Choice') {
+			for (const item of target.items) {
+				const parsed = parseAnnotationTargets(item);
+				if (parsed.length > 0) {
+					return parsed;
+				}
+			}
+			return [];
+		}
+		return target.items.flatMap(parseAnnotationTargets);
 	}
 
+	// Presentation 2 shapes were converted above
 	if (target.type === 'SpecificResource') {
-		return parseSpecificResourceTarget(target);
+		return parseSpecificResourceTarget(target as SpecificResource);
 	}
 
-	return null;
+	return [];
 }
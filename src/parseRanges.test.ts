@@ -2,10 +2,11 @@
  * Tests for IIIF Range Structure Parser
  *
  * @see https://iiif.io/api/presentation/3.0/#range
+ * @see https://iiif.io/api/presentation/2.1/#range
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseRanges } from './parseRanges.js';
+import { parseRanges, parseRangesWithDiagnostics, parseRangeTree } from './parseRanges.js';
 
 describe('parseRanges', () => {
 	describe('basic Range parsing', () => {
@@ -45,6 +46,9 @@ describe('parseRanges', () => {
 				label: 'Introduction',
 				startTime: 0,
 				endTime: 30,
+				canvasId: 'https://example.org/canvas/1',
+				segments: [{ canvasId: 'https://example.org/canvas/1', startTime: 0, endTime: 30 }],
+				labelMap: { en: ['Introduction'] },
 				thumbnail: undefined,
 				metadata: undefined
 			});
@@ -654,3 +658,1182 @@ describe('parseRanges', () => {
 		});
 	});
 });
+
+describe('parseRangesWithDiagnostics', () => {
+	const manifest = {
+		id: 'https://example.org/manifest.json',
+		type: 'Manifest' as const,
+		items: [
+			{ id: 'https://example.org/canvas/1', type: 'Canvas' as const, duration: 300 },
+			{ id: 'https://example.org/canvas/2', type: 'Canvas' as const }
+		],
+		structures: [
+			{
+				id: 'https://example.org/range/valid',
+				type: 'Range' as const,
+				items: [{ id: 'https://example.org/canvas/1#t=0,30', type: 'Canvas' as const }]
+			},
+			{
+				id: 'https://example.org/range/parent',
+				type: 'Range' as const,
+				items: [
+					{
+						id: 'https://example.org/range/reversed',
+						type: 'Range' as const,
+						items: [{ id: 'https://example.org/canvas/1#t=20,10', type: 'Canvas' as const }]
+					},
+					{
+						id: 'https://example.org/range/open',
+						type: 'Range' as const,
+						items: [
+							{ id: 'https://example.org/canvas/2', type: 'Canvas' as const },
+							{ id: 'https://example.org/canvas/2#t=10', type: 'Canvas' as const }
+						]
+					}
+				]
+			},
+			{
+				id: 'https://example.org/range/plain',
+				type: 'Range' as const,
+				items: [{ id: 'https://example.org/canvas/2', type: 'Canvas' as const }]
+			}
+		]
+	};
+
+	it('should return the same chapters as parseRanges', () => {
+		const { result } = parseRangesWithDiagnostics(manifest);
+
+		expect(result).toEqual(parseRanges(manifest));
+	});
+
+	it('should explain each skipped range with a code, value and pointer', () => {
+		const { warnings } = parseRangesWithDiagnostics(manifest);
+
+		expect(warnings.map(({ code, value, pointer }) => ({ code, value, pointer }))).toEqual([
+			{
+				code: 'temporal-reversed',
+				value: 'https://example.org/canvas/1#t=20,10',
+				pointer: '/structures/1/items/0/items/0/id'
+			},
+			{
+				code: 'range-missing-duration',
+				value: 'https://example.org/canvas/2#t=10',
+				pointer: '/structures/1/items/1/items/1/id'
+			},
+			{
+				code: 'range-no-temporal-items',
+				value: 'https://example.org/range/plain',
+				pointer: '/structures/2'
+			}
+		]);
+		expect(warnings.every((warning) => warning.message.length > 0)).toBe(true);
+	});
+
+	it.each([
+		['https://example.org/canvas/1#t=-5,10', 'temporal-negative'],
+		['https://example.org/canvas/1#t=5,-10', 'temporal-negative'],
+		['https://example.org/canvas/1#t=abc', 'fragment-malformed'],
+		['https://example.org/canvas/1#t=.,10', 'fragment-malformed']
+	])('should report %s as %s', (id, code) => {
+		const { warnings } = parseRangesWithDiagnostics({
+			id: 'https://example.org/manifest.json',
+			type: 'Manifest',
+			structures: [{ id: 'range', type: 'Range', items: [{ id, type: 'Canvas' }] }]
+		});
+
+		expect(warnings).toEqual([
+			expect.objectContaining({ code, value: id, pointer: '/structures/0/items/0/id' })
+		]);
+	});
+
+	it('should not warn about a valid manifest', () => {
+		const { warnings } = parseRangesWithDiagnostics({
+			...manifest,
+			structures: manifest.structures.slice(0, 1)
+		});
+
+		expect(warnings).toEqual([]);
+	});
+});
+
+describe('parseRangeTree', () => {
+	const canvas = 'https://example.org/canvas/1';
+	const manifest = {
+		id: 'https://example.org/manifest.json',
+		type: 'Manifest' as const,
+		items: [{ id: canvas, type: 'Canvas' as const, duration: 600 }],
+		structures: [
+			{
+				id: 'act-1',
+				type: 'Range' as const,
+				label: { en: ['Act I'] },
+				items: [
+					{
+						id: 'scene-2',
+						type: 'Range' as const,
+						label: { en: ['Scene 2'] },
+						items: [{ id: `${canvas}#t=120,300`, type: 'Canvas' as const }]
+					},
+					{
+						id: 'scene-1',
+						type: 'Range' as const,
+						label: { en: ['Scene 1'] },
+						items: [{ id: `${canvas}#t=0,120`, type: 'Canvas' as const }]
+					}
+				]
+			},
+			{
+				id: 'act-2',
+				type: 'Range' as const,
+				label: { en: ['Act II'] },
+				items: [{ id: `${canvas}#t=300`, type: 'Canvas' as const }]
+			}
+		]
+	};
+
+	it('should keep the nesting and document order of ranges', () => {
+		const tree = parseRangeTree(manifest);
+
+		expect(tree.map((node) => node.id)).toEqual(['act-1', 'act-2']);
+		expect(tree[0]?.children.map((node) => node.id)).toEqual(['scene-2', 'scene-1']);
+	});
+
+	it('should record depth and parent id', () => {
+		const [act1, act2] = parseRangeTree(manifest);
+
+		expect(act1).toMatchObject({ depth: 0 });
+		expect(act1).not.toHaveProperty('parentId');
+		expect(act1?.children[0]).toMatchObject({ depth: 1, parentId: 'act-1' });
+		expect(act2).toMatchObject({ depth: 0, children: [] });
+	});
+
+	it('should give ranges with temporal items their own chapter', () => {
+		const [act1, act2] = parseRangeTree(manifest);
+
+		expect(act1?.children[0]?.chapter).toEqual({
+			id: 'scene-2',
+			label: 'Scene 2',
+			startTime: 120,
+			endTime: 300,
+			canvasId: canvas,
+			segments: [{ canvasId: canvas, startTime: 120, endTime: 300 }],
+			labelMap: { en: ['Scene 2'] }
+		});
+		expect(act2?.chapter).toEqual({
+			id: 'act-2',
+			label: 'Act II',
+			startTime: 300,
+			endTime: 600,
+			canvasId: canvas,
+			segments: [{ canvasId: canvas, startTime: 300, endTime: 600 }],
+			labelMap: { en: ['Act II'] }
+		});
+	});
+
+	it('should span parent ranges over their descendants', () => {
+		const [act1] = parseRangeTree(manifest);
+
+		expect(act1?.label).toBe('Act I');
+		expect(act1?.chapter).toEqual({
+			id: 'act-1',
+			label: 'Act I',
+			startTime: 0,
+			endTime: 300,
+			canvasId: canvas,
+			segments: [
+				{ canvasId: canvas, startTime: 120, endTime: 300 },
+				{ canvasId: canvas, startTime: 0, endTime: 120 }
+			],
+			labelMap: { en: ['Act I'] }
+		});
+	});
+
+	it('should span deeply nested ranges', () => {
+		const tree = parseRangeTree({
+			id: 'https://example.org/manifest.json',
+			type: 'Manifest',
+			structures: [
+				{
+					id: 'work',
+					type: 'Range',
+					items: [
+						{
+							id: 'act',
+							type: 'Range',
+							items: [
+								{
+									id: 'aria',
+									type: 'Range',
+									items: [{ id: `${canvas}#t=40,50`, type: 'Canvas' }]
+								}
+							]
+						}
+					]
+				}
+			]
+		});
+
+		expect(tree[0]?.chapter).toMatchObject({ startTime: 40, endTime: 50 });
+		expect(tree[0]?.children[0]?.children[0]).toMatchObject({ depth: 2, parentId: 'act' });
+	});
+
+	it('should keep ranges without timing as nodes without a chapter', () => {
+		const [node] = parseRangeTree({
+			id: 'https://example.org/manifest.json',
+			type: 'Manifest',
+			structures: [
+				{
+					id: 'untimed',
+					type: 'Range',
+					label: { en: ['Credits'] },
+					items: [{ id: canvas, type: 'Canvas' }]
+				}
+			]
+		});
+
+		expect(node).toEqual({ id: 'untimed', label: 'Credits', depth: 0, children: [] });
+	});
+
+	it('should return an empty array without structures', () => {
+		expect(parseRangeTree({ id: 'https://example.org/manifest.json', type: 'Manifest' })).toEqual(
+			[]
+		);
+	});
+
+	it('should contain the same own chapters as parseRanges', () => {
+		const collect = (nodes: ReturnType<typeof parseRangeTree>): string[] =>
+			nodes.flatMap((node) => [
+				...(node.chapter && node.children.length === 0 ? [node.id] : []),
+				...collect(node.children)
+			]);
+
+		expect(collect(parseRangeTree(manifest)).sort()).toEqual(
+			parseRanges(manifest)
+				.map((chapter) => chapter.id)
+				.sort()
+		);
+	});
+});
+
+describe('multi-canvas timelines', () => {
+	const canvas1 = 'https://example.org/canvas/1';
+	const canvas2 = 'https://example.org/canvas/2';
+	const manifest = {
+		id: 'https://example.org/manifest.json',
+		type: 'Manifest' as const,
+		items: [
+			{ id: canvas1, type: 'Canvas' as const, duration: 100 },
+			{ id: canvas2, type: 'Canvas' as const, duration: 50 }
+		],
+		structures: [
+			{
+				id: 'opera',
+				type: 'Range' as const,
+				items: [
+					{
+						id: 'act-2',
+						type: 'Range' as const,
+						label: { en: ['Act II'] },
+						items: [{ id: `${canvas2}#t=0,50`, type: 'Canvas' as const }]
+					},
+					{
+						id: 'act-1b',
+						type: 'Range' as const,
+						label: { en: ['Act I, part 2'] },
+						items: [{ id: `${canvas1}#t=40`, type: 'Canvas' as const }]
+					},
+					{
+						id: 'act-1a',
+						type: 'Range' as const,
+						label: { en: ['Act I, part 1'] },
+						items: [{ id: `${canvas1}#t=0,40`, type: 'Canvas' as const }]
+					}
+				]
+			}
+		]
+	};
+
+	it('should record the canvas of each chapter', () => {
+		const chapters = parseRanges(manifest);
+
+		expect(chapters.map((chapter) => [chapter.id, chapter.canvasId])).toEqual([
+			['act-1a', canvas1],
+			['act-1b', canvas1],
+			['act-2', canvas2]
+		]);
+	});
+
+	it('should sort by canvas order before start time', () => {
+		const chapters = parseRanges(manifest);
+
+		expect(chapters.map((chapter) => chapter.startTime)).toEqual([0, 40, 0]);
+	});
+
+	it('should offset chapter times onto the manifest timeline', () => {
+		const chapters = parseRanges(manifest, { timeline: 'manifest' });
+
+		expect(chapters.map((chapter) => [chapter.id, chapter.startTime, chapter.endTime])).toEqual([
+			['act-1a', 0, 40],
+			['act-1b', 40, 100],
+			['act-2', 100, 150]
+		]);
+		expect(chapters[2]?.canvasId).toBe(canvas2);
+	});
+
+	it('should span parents across canvases only on the manifest timeline', () => {
+		const [local] = parseRangeTree(manifest);
+		const [global] = parseRangeTree(manifest, { timeline: 'manifest' });
+
+		expect(local?.chapter).toMatchObject({ startTime: 0, endTime: 50, canvasId: canvas2 });
+		expect(global?.chapter).toMatchObject({ startTime: 0, endTime: 150, canvasId: canvas1 });
+	});
+
+	it('should warn about canvases missing from manifest.items on the manifest timeline', () => {
+		const { result, warnings } = parseRangesWithDiagnostics(
+			{
+				id: 'https://example.org/manifest.json',
+				type: 'Manifest',
+				items: [{ id: canvas1, type: 'Canvas', duration: 100 }],
+				structures: [
+					{ id: 'range', type: 'Range', items: [{ id: `${canvas2}#t=0,10`, type: 'Canvas' }] }
+				]
+			},
+			{ timeline: 'manifest' }
+		);
+
+		expect(result).toEqual([]);
+		expect(warnings).toEqual([
+			expect.objectContaining({
+				code: 'range-unknown-canvas',
+				value: `${canvas2}#t=0,10`,
+				pointer: '/structures/0/items/0/id'
+			})
+		]);
+	});
+});
+
+describe('discontiguous chapters', () => {
+	const canvas1 = 'https://example.org/canvas/1';
+	const canvas2 = 'https://example.org/canvas/2';
+
+	function manifestWith(items: string[]) {
+		return {
+			id: 'https://example.org/manifest.json',
+			type: 'Manifest' as const,
+			items: [
+				{ id: canvas1, type: 'Canvas' as const, duration: 400 },
+				{ id: canvas2, type: 'Canvas' as const, duration: 100 }
+			],
+			structures: [
+				{
+					id: 'range',
+					type: 'Range' as const,
+					items: items.map((id) => ({ id, type: 'Canvas' as const }))
+				}
+			]
+		};
+	}
+
+	it('should keep every temporal item as a segment', () => {
+		const [chapter] = parseRanges(manifestWith([`${canvas1}#t=0,60`, `${canvas1}#t=300,360`]));
+
+		expect(chapter?.segments).toEqual([
+			{ canvasId: canvas1, startTime: 0, endTime: 60 },
+			{ canvasId: canvas1, startTime: 300, endTime: 360 }
+		]);
+		expect(chapter).toMatchObject({ startTime: 0, endTime: 360 });
+	});
+
+	it('should span segments regardless of document order', () => {
+		const [chapter] = parseRanges(manifestWith([`${canvas1}#t=300,360`, `${canvas1}#t=0,60`]));
+
+		expect(chapter).toMatchObject({ startTime: 0, endTime: 360 });
+		expect(chapter?.segments?.[0]?.startTime).toBe(300);
+	});
+
+	it('should keep canvas-relative times on the first canvas for ranges spanning canvases', () => {
+		const [chapter] = parseRanges(manifestWith([`${canvas1}#t=350`, `${canvas2}#t=0,30`]));
+
+		expect(chapter).toMatchObject({ canvasId: canvas1, startTime: 350, endTime: 400 });
+		expect(chapter?.segments).toEqual([
+			{ canvasId: canvas1, startTime: 350, endTime: 400 },
+			{ canvasId: canvas2, startTime: 0, endTime: 30 }
+		]);
+	});
+
+	it('should span canvases on the manifest timeline', () => {
+		const [chapter] = parseRanges(manifestWith([`${canvas1}#t=350`, `${canvas2}#t=0,30`]), {
+			timeline: 'manifest'
+		});
+
+		expect(chapter).toMatchObject({ canvasId: canvas1, startTime: 350, endTime: 430 });
+		expect(chapter?.segments?.[1]).toEqual({ canvasId: canvas2, startTime: 400, endTime: 430 });
+	});
+
+	it('should take the canvas from the earliest segment on the manifest timeline', () => {
+		const [chapter] = parseRanges(manifestWith([`${canvas2}#t=0,10`, `${canvas1}#t=390,400`]), {
+			timeline: 'manifest'
+		});
+
+		expect(chapter).toMatchObject({ canvasId: canvas1, startTime: 390, endTime: 410 });
+	});
+
+	it('should skip invalid segments and report each one', () => {
+		const { result, warnings } = parseRangesWithDiagnostics(
+			manifestWith([`${canvas1}#t=20,10`, `${canvas1}#t=0,60`, `${canvas1}#t=abc`])
+		);
+
+		expect(result[0]?.segments).toEqual([{ canvasId: canvas1, startTime: 0, endTime: 60 }]);
+		expect(warnings.map((warning) => [warning.code, warning.pointer])).toEqual([
+			['temporal-reversed', '/structures/0/items/0/id'],
+			['fragment-malformed', '/structures/0/items/2/id']
+		]);
+	});
+
+	it('should collect descendant segments on parent nodes', () => {
+		const [node] = parseRangeTree({
+			id: 'https://example.org/manifest.json',
+			type: 'Manifest',
+			structures: [
+				{
+					id: 'parent',
+					type: 'Range',
+					items: [
+						{ id: 'a', type: 'Range', items: [{ id: `${canvas1}#t=0,10`, type: 'Canvas' }] },
+						{ id: 'b', type: 'Range', items: [{ id: `${canvas1}#t=20,30`, type: 'Canvas' }] }
+					]
+				}
+			]
+		});
+
+		expect(node?.chapter?.segments).toEqual([
+			{ canvasId: canvas1, startTime: 0, endTime: 10 },
+			{ canvasId: canvas1, startTime: 20, endTime: 30 }
+		]);
+	});
+});
+
+describe('label languages', () => {
+	const canvas = 'https://example.org/canvas/1';
+	const manifest = {
+		id: 'https://example.org/manifest.json',
+		type: 'Manifest' as const,
+		structures: [
+			{
+				id: 'range-1',
+				type: 'Range' as const,
+				label: { en: ['Act One'], es: ['Primer acto'], it: ['Atto primo'] },
+				metadata: [
+					{
+						label: { en: ['Composer'], es: ['Compositor'] },
+						value: { none: ['Gaetano Donizetti'] }
+					}
+				],
+				items: [{ id: `${canvas}#t=0,60`, type: 'Canvas' as const }]
+			},
+			{
+				id: 'range-2',
+				type: 'Range' as const,
+				items: [{ id: `${canvas}#t=60,120`, type: 'Canvas' as const }]
+			}
+		]
+	};
+
+	it('should prefer English by default', () => {
+		expect(parseRanges(manifest)[0]?.label).toBe('Act One');
+	});
+
+	it('should fall back from regional to general language tags', () => {
+		const [chapter] = parseRanges(manifest, { languages: ['es-MX'] });
+
+		expect(chapter?.label).toBe('Primer acto');
+		expect(chapter?.metadata).toEqual({ Compositor: 'Gaetano Donizetti' });
+	});
+
+	it('should try preferred languages in order', () => {
+		const [chapter] = parseRanges(manifest, { languages: ['fr', 'it'] });
+
+		expect(chapter?.label).toBe('Atto primo');
+	});
+
+	it('should keep the full label and metadata language maps', () => {
+		const [chapter] = parseRanges(manifest, { languages: ['it'] });
+
+		expect(chapter?.labelMap).toEqual({
+			en: ['Act One'],
+			es: ['Primer acto'],
+			it: ['Atto primo']
+		});
+		expect(chapter?.metadataEntries).toEqual(manifest.structures[0]?.metadata);
+	});
+
+	it('should use a configurable label for untitled ranges', () => {
+		const chapters = parseRanges(manifest, { untitledLabel: 'Sin título' });
+
+		expect(chapters[1]?.label).toBe('Sin título');
+		expect(chapters[1]).not.toHaveProperty('labelMap');
+		expect(parseRangeTree(manifest, { untitledLabel: 'Sin título' })[1]?.label).toBe('Sin título');
+	});
+});
+
+describe('SpecificResource and whole-canvas range items', () => {
+	const canvas1 = 'https://example.org/canvas/1';
+	const canvas2 = 'https://example.org/canvas/2';
+
+	function manifestWith(items: unknown[]) {
+		return {
+			id: 'https://example.org/manifest.json',
+			type: 'Manifest' as const,
+			items: [
+				{ id: canvas1, type: 'Canvas' as const, duration: 300 },
+				{ id: canvas2, type: 'Canvas' as const }
+			],
+			structures: [{ id: 'range', type: 'Range' as const, items }]
+		} as Parameters<typeof parseRanges>[0];
+	}
+
+	it('should read SpecificResource items with a FragmentSelector', () => {
+		const [chapter] = parseRanges(
+			manifestWith([
+				{
+					type: 'SpecificResource',
+					source: { id: canvas1, type: 'Canvas' },
+					selector: {
+						type: 'FragmentSelector',
+						conformsTo: 'http://www.w3.org/TR/media-frags/',
+						value: 't=npt:0:01:00,0:02:00'
+					}
+				}
+			])
+		);
+
+		expect(chapter).toMatchObject({ canvasId: canvas1, startTime: 60, endTime: 120 });
+	});
+
+	it('should read SpecificResource items with a PointSelector as instants', () => {
+		const [chapter] = parseRanges(
+			manifestWith([
+				{ type: 'SpecificResource', source: canvas1, selector: { type: 'PointSelector', t: 42 } }
+			])
+		);
+
+		expect(chapter).toMatchObject({ startTime: 42, endTime: 42 });
+	});
+
+	it('should run open-ended or untimed SpecificResources to the end of the canvas', () => {
+		const [chapter] = parseRanges(
+			manifestWith([
+				{
+					type: 'SpecificResource',
+					source: canvas1,
+					selector: { type: 'FragmentSelector', value: 't=200' }
+				},
+				{
+					type: 'SpecificResource',
+					source: canvas1,
+					selector: { type: 'FragmentSelector', value: 'xywh=0,0,10,10' }
+				}
+			])
+		);
+
+		expect(chapter?.segments).toEqual([
+			{ canvasId: canvas1, startTime: 200, endTime: 300 },
+			{ canvasId: canvas1, startTime: 0, endTime: 300 }
+		]);
+	});
+
+	it('should treat a bare Canvas reference as the whole canvas duration', () => {
+		const [chapter] = parseRanges(manifestWith([{ id: canvas1, type: 'Canvas' }]));
+
+		expect(chapter).toMatchObject({ canvasId: canvas1, startTime: 0, endTime: 300 });
+	});
+
+	it('should skip bare Canvas references to canvases without a duration', () => {
+		const { result, warnings } = parseRangesWithDiagnostics(
+			manifestWith([{ id: canvas2, type: 'Canvas' }])
+		);
+
+		expect(result).toEqual([]);
+		expect(warnings.map((warning) => warning.code)).toEqual(['range-no-temporal-items']);
+	});
+
+	it('should report invalid SpecificResource items', () => {
+		const { result, warnings } = parseRangesWithDiagnostics(
+			manifestWith([
+				{
+					type: 'SpecificResource',
+					source: canvas1,
+					selector: { type: 'FragmentSelector', value: 't=20,10' }
+				},
+				{
+					type: 'SpecificResource',
+					source: canvas2,
+					selector: { type: 'FragmentSelector', value: 't=5' }
+				}
+			])
+		);
+
+		expect(result).toEqual([]);
+		expect(warnings.map(({ code, value, pointer }) => ({ code, value, pointer }))).toEqual([
+			{ code: 'fragment-malformed', value: canvas1, pointer: '/structures/0/items/0' },
+			{ code: 'range-missing-duration', value: canvas2, pointer: '/structures/0/items/1' }
+		]);
+	});
+
+	it('should report SpecificResource items without a source', () => {
+		const { result, warnings } = parseRangesWithDiagnostics(
+			manifestWith([
+				{ type: 'SpecificResource', selector: { type: 'FragmentSelector', value: 't=5,10' } }
+			])
+		);
+
+		expect(result).toEqual([]);
+		expect(warnings.map(({ code, value, pointer }) => ({ code, value, pointer }))).toEqual([
+			{
+				code: 'target-missing-source',
+				value:
+					'{"type":"SpecificResource","selector":{"type":"FragmentSelector","value":"t=5,10"}}',
+				pointer: '/structures/0/items/0'
+			}
+		]);
+		expect(parseRanges(manifestWith([{ type: 'SpecificResource' }]))).toEqual([]);
+	});
+
+	it('should read Canvas ids with &-combined fragments', () => {
+		const ids = [`${canvas1}#xywh=0,0,1,1&t=5,10`, `${canvas1}#t=5,10&xywh=0,0,10,10`];
+
+		for (const id of ids) {
+			const { result, warnings } = parseRangesWithDiagnostics(
+				manifestWith([{ id, type: 'Canvas' }])
+			);
+			expect(result[0]).toMatchObject({ canvasId: canvas1, startTime: 5, endTime: 10 });
+			expect(warnings).toEqual([]);
+		}
+	});
+
+	it('should read npt clock values and omitted starts in Canvas ids', () => {
+		const times = [
+			['t=00:05,00:10', 5, 10],
+			['t=npt:0:01:00,0:02:00', 60, 120],
+			['t=,5', 0, 5]
+		] as const;
+
+		for (const [fragment, startTime, endTime] of times) {
+			const [chapter] = parseRanges(
+				manifestWith([{ id: `${canvas1}#${fragment}`, type: 'Canvas' }])
+			);
+			expect(chapter).toMatchObject({ startTime, endTime });
+		}
+	});
+
+	it('should report Canvas ids with a malformed t dimension instead of covering the canvas', () => {
+		const id = `${canvas1}#t=1.2.3,5`;
+		const { result, warnings } = parseRangesWithDiagnostics(manifestWith([{ id, type: 'Canvas' }]));
+
+		expect(result).toEqual([]);
+		expect(warnings.map(({ code, value, pointer }) => ({ code, value, pointer }))).toEqual([
+			{ code: 'fragment-malformed', value: id, pointer: '/structures/0/items/0/id' }
+		]);
+	});
+});
+
+describe('Range references and cycles', () => {
+	const canvas = 'https://example.org/canvas/1';
+	const base = {
+		id: 'https://example.org/manifest.json',
+		type: 'Manifest' as const,
+		items: [{ id: canvas, type: 'Canvas' as const, duration: 600 }]
+	};
+
+	it('should resolve id-only Range references against structures', () => {
+		const manifest = {
+			...base,
+			structures: [
+				{
+					id: 'toc',
+					type: 'Range' as const,
+					label: { en: ['Contents'] },
+					items: [
+						{ id: 'act-1', type: 'Range' as const },
+						{ id: 'act-2', type: 'Range' as const }
+					]
+				},
+				{
+					id: 'act-1',
+					type: 'Range' as const,
+					label: { en: ['Act I'] },
+					items: [{ id: `${canvas}#t=0,300`, type: 'Canvas' as const }]
+				},
+				{
+					id: 'act-2',
+					type: 'Range' as const,
+					label: { en: ['Act II'] },
+					items: [{ id: `${canvas}#t=300,600`, type: 'Canvas' as const }]
+				}
+			]
+		};
+
+		const [toc] = parseRangeTree(manifest);
+
+		expect(toc?.children.map((node) => [node.label, node.depth, node.parentId])).toEqual([
+			['Act I', 1, 'toc'],
+			['Act II', 1, 'toc']
+		]);
+		expect(toc?.chapter).toMatchObject({ startTime: 0, endTime: 600 });
+	});
+
+	it('should not duplicate chapters of shared sub-ranges', () => {
+		const manifest = {
+			...base,
+			structures: [
+				{
+					id: 'by-act',
+					type: 'Range' as const,
+					items: [{ id: 'aria', type: 'Range' as const }]
+				},
+				{
+					id: 'by-singer',
+					type: 'Range' as const,
+					items: [
+						{
+							id: 'aria',
+							type: 'Range' as const,
+							label: { en: ['Una furtiva lagrima'] },
+							items: [{ id: `${canvas}#t=100,200`, type: 'Canvas' as const }]
+						}
+					]
+				}
+			]
+		};
+
+		const chapters = parseRanges(manifest);
+
+		expect(chapters.map((chapter) => chapter.id)).toEqual(['aria']);
+		expect(parseRangeTree(manifest).map((node) => node.children[0]?.label)).toEqual([
+			'Una furtiva lagrima',
+			'Una furtiva lagrima'
+		]);
+	});
+
+	it('should report a self-referencing range instead of recursing', () => {
+		const { result, warnings } = parseRangesWithDiagnostics({
+			...base,
+			structures: [
+				{
+					id: 'loop',
+					type: 'Range',
+					items: [
+						{ id: `${canvas}#t=0,10`, type: 'Canvas' },
+						{ id: 'loop', type: 'Range' }
+					]
+				}
+			]
+		});
+
+		expect(result.map((chapter) => chapter.id)).toEqual(['loop']);
+		expect(warnings).toEqual([
+			expect.objectContaining({ code: 'range-cycle', value: 'loop', pointer: '/structures/0' })
+		]);
+	});
+
+	it('should report cycles through several ranges', () => {
+		const manifest = {
+			...base,
+			structures: [
+				{
+					id: 'a',
+					type: 'Range' as const,
+					items: [
+						{ id: 'b', type: 'Range' as const },
+						{ id: `${canvas}#t=0,10`, type: 'Canvas' as const }
+					]
+				},
+				{
+					id: 'b',
+					type: 'Range' as const,
+					items: [
+						{ id: 'a', type: 'Range' as const },
+						{ id: `${canvas}#t=10,20`, type: 'Canvas' as const }
+					]
+				}
+			]
+		};
+
+		const { result, warnings } = parseRangesWithDiagnostics(manifest);
+
+		expect(result.map((chapter) => chapter.id)).toEqual(['a', 'b']);
+		expect(warnings.map((warning) => [warning.code, warning.value, warning.pointer])).toEqual([
+			['range-cycle', 'a', '/structures/0']
+		]);
+		expect(parseRangeTree(manifest)[0]?.children[0]?.children).toEqual([]);
+	});
+
+	it('should keep unresolvable references as untimed nodes', () => {
+		const [node] = parseRangeTree({
+			...base,
+			structures: [{ id: 'toc', type: 'Range', items: [{ id: 'missing', type: 'Range' }] }]
+		});
+
+		expect(node?.children).toEqual([
+			{ id: 'missing', label: 'Untitled Chapter', depth: 1, parentId: 'toc', children: [] }
+		]);
+	});
+
+	it('should skip null range items', () => {
+		const manifest = {
+			...base,
+			structures: [
+				{ id: 'toc', type: 'Range', items: [null, { id: `${canvas}#t=1,2`, type: 'Canvas' }] }
+			]
+		} as unknown as Parameters<typeof parseRanges>[0];
+
+		expect(parseRanges(manifest)).toMatchObject([{ id: 'toc', startTime: 1, endTime: 2 }]);
+		expect(parseRangeTree(manifest)[0]?.children).toEqual([]);
+	});
+});
+
+describe('Presentation 2 ranges', () => {
+	const canvas1 = 'https://example.org/canvas/1';
+	const canvas2 = 'https://example.org/canvas/2';
+	const presentation2 = {
+		'@context': 'http://iiif.io/api/presentation/2/context.json',
+		'@id': 'https://example.org/manifest.json',
+		'@type': 'sc:Manifest' as const,
+		sequences: [
+			{
+				'@type': 'sc:Sequence',
+				canvases: [
+					{ '@id': canvas1, '@type': 'sc:Canvas', duration: 600 },
+					{ '@id': canvas2, '@type': 'sc:Canvas', duration: 300 }
+				]
+			}
+		],
+		structures: [
+			{
+				'@id': 'toc',
+				'@type': 'sc:Range' as const,
+				label: 'Contents',
+				viewingHint: 'top',
+				ranges: ['act-1', 'act-2']
+			},
+			{
+				'@id': 'act-1',
+				'@type': 'sc:Range' as const,
+				label: [
+					{ '@value': 'Act I', '@language': 'en' },
+					{ '@value': 'Atto primo', '@language': 'it' }
+				],
+				canvases: [`${canvas1}#t=0,250`, `${canvas1}#t=250`]
+			},
+			{
+				'@id': 'act-2',
+				'@type': 'sc:Range' as const,
+				label: 'Act II',
+				canvases: [canvas2]
+			}
+		]
+	};
+
+	it('should give the same chapters as the equivalent Presentation 3 manifest', () => {
+		const presentation3 = {
+			id: 'https://example.org/manifest.json',
+			type: 'Manifest' as const,
+			items: [
+				{ id: canvas1, type: 'Canvas' as const, duration: 600 },
+				{ id: canvas2, type: 'Canvas' as const, duration: 300 }
+			],
+			structures: [
+				{
+					id: 'toc',
+					type: 'Range' as const,
+					label: { none: ['Contents'] },
+					items: [
+						{
+							id: 'act-1',
+							type: 'Range' as const,
+							label: { en: ['Act I'], it: ['Atto primo'] },
+							items: [
+								{ id: `${canvas1}#t=0,250`, type: 'Canvas' as const },
+								{ id: `${canvas1}#t=250`, type: 'Canvas' as const }
+							]
+						},
+						{
+							id: 'act-2',
+							type: 'Range' as const,
+							label: { none: ['Act II'] },
+							items: [{ id: canvas2, type: 'Canvas' as const }]
+						}
+					]
+				}
+			]
+		};
+
+		for (const timeline of ['canvas', 'manifest'] as const) {
+			expect(parseRanges(presentation2, { timeline })).toEqual(
+				parseRanges(presentation3, { timeline })
+			);
+			expect(parseRangeTree(presentation2, { timeline })).toEqual(
+				parseRangeTree(presentation3, { timeline })
+			);
+		}
+		expect(parseRanges(presentation2, { languages: ['it'] })[0]?.label).toBe('Atto primo');
+	});
+
+	it('should read Presentation 2 descriptive and linking properties', () => {
+		const [chapter] = parseRanges({
+			...presentation2,
+			structures: [
+				{
+					'@id': 'act-1',
+					'@type': 'sc:Range',
+					viewingHint: 'top',
+					description: { '@value': 'The first act', '@language': 'en' },
+					attribution: 'Provided by the Example Opera House',
+					related: 'https://example.org/act-1',
+					rendering: {
+						'@id': 'https://example.org/libretto.pdf',
+						label: 'Libretto',
+						format: 'application/pdf'
+					},
+					canvases: [`${canvas1}#t=0,250`]
+				}
+			]
+		});
+
+		expect(chapter).toMatchObject({
+			summary: 'The first act',
+			requiredStatement: { label: 'Attribution', value: 'Provided by the Example Opera House' },
+			homepage: [{ id: 'https://example.org/act-1' }],
+			rendering: [
+				{ id: 'https://example.org/libretto.pdf', label: 'Libretto', format: 'application/pdf' }
+			]
+		});
+		expect(chapter?.behavior).toBeUndefined();
+	});
+
+	it('should keep the order of members and resolve nested ranges', () => {
+		const tree = parseRangeTree({
+			...presentation2,
+			structures: [
+				{
+					'@id': 'toc',
+					'@type': 'sc:Range',
+					members: [
+						{ '@id': 'act-2', '@type': 'sc:Range' },
+						{ '@id': `${canvas1}#t=0,60`, '@type': 'sc:Canvas' },
+						{ '@id': 'act-1', '@type': 'sc:Range' }
+					]
+				},
+				{ '@id': 'act-1', '@type': 'sc:Range', label: 'Act I', canvases: [`${canvas1}#t=60,90`] },
+				{ '@id': 'act-2', '@type': 'sc:Range', label: 'Act II', canvases: [`${canvas1}#t=90,99`] }
+			]
+		});
+
+		expect(tree).toHaveLength(1);
+		expect(tree[0]?.chapter?.segments?.map((segment) => segment.startTime)).toEqual([0]);
+		expect(tree[0]?.children.map((node) => node.label)).toEqual(['Act II', 'Act I']);
+	});
+
+	it('should use the ranges nothing refers to as the top level without viewingHint', () => {
+		const tree = parseRangeTree({
+			...presentation2,
+			structures: [
+				{ '@id': 'scene', '@type': 'sc:Range', canvases: [`${canvas1}#t=0,10`] },
+				{ '@id': 'act', '@type': 'sc:Range', ranges: ['scene'] },
+				{ '@id': 'credits', '@type': 'sc:Range', canvases: [`${canvas2}#t=0,10`] }
+			]
+		});
+
+		expect(tree.map((node) => [node.id, node.children.map((child) => child.id)])).toEqual([
+			['act', ['scene']],
+			['credits', []]
+		]);
+	});
+
+	it('should point warnings into the Presentation 2 manifest', () => {
+		const { result, warnings } = parseRangesWithDiagnostics({
+			...presentation2,
+			sequences: [],
+			structures: [
+				{ '@id': 'a', '@type': 'sc:Range', canvases: [`${canvas1}#t=0,10`, `${canvas1}#t=5`] },
+				{
+					'@id': 'b',
+					'@type': 'sc:Range',
+					members: [{ '@id': `${canvas2}#t=20,10`, '@type': 'sc:Canvas' }]
+				}
+			]
+		});
+
+		expect(result.map((chapter) => chapter.id)).toEqual(['a']);
+		expect(warnings.map((warning) => [warning.code, warning.pointer])).toEqual([
+			['range-missing-duration', '/structures/0/canvases/1'],
+			['temporal-reversed', '/structures/1/members/0/@id']
+		]);
+	});
+});
+
+describe('Range behavior and linking properties', () => {
+	const canvas = 'https://example.org/canvas/1';
+	const base = {
+		id: 'https://example.org/manifest.json',
+		type: 'Manifest' as const,
+		items: [{ id: canvas, type: 'Canvas' as const, duration: 600 }]
+	};
+
+	it('should carry descriptive and linking properties to chapters', () => {
+		const [chapter] = parseRanges(
+			{
+				...base,
+				structures: [
+					{
+						id: 'interview',
+						type: 'Range',
+						label: { en: ['Interview'] },
+						behavior: ['thumbnail-nav', 'auto-advance'],
+						summary: { en: ['Childhood in Baltimore'], es: ['Infancia en Baltimore'] },
+						requiredStatement: {
+							label: { en: ['Rights'], es: ['Derechos'] },
+							value: { none: ['CC BY 4.0'] }
+						},
+						rendering: [
+							{
+								id: 'https://example.org/transcript.pdf',
+								type: 'Text',
+								label: { en: ['Transcript (PDF)'], es: ['Transcripción (PDF)'] },
+								format: 'application/pdf',
+								language: 'en'
+							}
+						],
+						seeAlso: [
+							{
+								id: 'https://example.org/interview.xml',
+								type: 'Dataset',
+								format: 'text/xml',
+								profile: 'https://example.org/profiles/ohms'
+							}
+						],
+						homepage: [{ id: 'https://example.org/interview', type: 'Text' }],
+						supplementary: {
+							id: 'https://example.org/transcript/collection',
+							type: 'AnnotationCollection'
+						},
+						items: [{ id: `${canvas}#t=0,300`, type: 'Canvas' }]
+					}
+				]
+			},
+			{ languages: ['es'] }
+		);
+
+		expect(chapter).toMatchObject({
+			behavior: ['thumbnail-nav', 'auto-advance'],
+			summary: 'Infancia en Baltimore',
+			requiredStatement: { label: 'Derechos', value: 'CC BY 4.0' },
+			rendering: [
+				{
+					id: 'https://example.org/transcript.pdf',
+					type: 'Text',
+					label: 'Transcripción (PDF)',
+					format: 'application/pdf',
+					language: ['en']
+				}
+			],
+			seeAlso: [
+				{
+					id: 'https://example.org/interview.xml',
+					type: 'Dataset',
+					format: 'text/xml',
+					profile: 'https://example.org/profiles/ohms'
+				}
+			],
+			homepage: [{ id: 'https://example.org/interview', type: 'Text' }],
+			supplementary: [
+				{ id: 'https://example.org/transcript/collection', type: 'AnnotationCollection' }
+			]
+		});
+	});
+
+	it('should leave properties out when absent or without an id', () => {
+		const [chapter] = parseRanges({
+			...base,
+			structures: [
+				{
+					id: 'plain',
+					type: 'Range',
+					rendering: [{ type: 'Text' } as never],
+					requiredStatement: { label: { en: ['Rights'] }, value: {} },
+					items: [{ id: `${canvas}#t=0,300`, type: 'Canvas' }]
+				}
+			]
+		});
+
+		expect(chapter).toEqual({
+			id: 'plain',
+			label: 'Untitled Chapter',
+			startTime: 0,
+			endTime: 300,
+			canvasId: canvas,
+			segments: [{ canvasId: canvas, startTime: 0, endTime: 300 }]
+		});
+	});
+
+	describe('hideNoNav', () => {
+		const manifest = {
+			...base,
+			structures: [
+				{
+					id: 'all',
+					type: 'Range' as const,
+					behavior: ['no-nav'],
+					items: [
+						{ id: `${canvas}#t=0,600`, type: 'Canvas' as const },
+						{
+							id: 'part-1',
+							type: 'Range' as const,
+							items: [
+								{ id: `${canvas}#t=0,300`, type: 'Canvas' as const },
+								{
+									id: 'hidden-note',
+									type: 'Range' as const,
+									behavior: ['no-nav'],
+									items: [{ id: `${canvas}#t=100,110`, type: 'Canvas' as const }]
+								}
+							]
+						},
+						{
+							id: 'part-2',
+							type: 'Range' as const,
+							items: [{ id: `${canvas}#t=300,600`, type: 'Canvas' as const }]
+						}
+					]
+				}
+			]
+		};
+
+		it('should keep no-nav ranges by default', () => {
+			expect(parseRanges(manifest).map((chapter) => chapter.id)).toEqual([
+				'all',
+				'part-1',
+				'hidden-note',
+				'part-2'
+			]);
+			expect(parseRanges(manifest)[0]?.behavior).toEqual(['no-nav']);
+		});
+
+		it('should leave out no-nav chapters', () => {
+			expect(parseRanges(manifest, { hideNoNav: true }).map((chapter) => chapter.id)).toEqual([
+				'part-1',
+				'part-2'
+			]);
+		});
+
+		it('should put the children of no-nav ranges in their place in the tree', () => {
+			const tree = parseRangeTree(manifest, { hideNoNav: true });
+
+			expect(tree.map((node) => [node.id, node.depth, node.parentId])).toEqual([
+				['part-1', 0, undefined],
+				['part-2', 0, undefined]
+			]);
+			expect(tree[0]?.children).toEqual([]);
+		});
+	});
+});
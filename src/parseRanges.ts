@@ -3,56 +3,97 @@
  *
  * Parses IIIF Presentation API v3 Range structures into Chapter objects.
  * Supports nested ranges (recursive parsing) and temporal fragment extraction.
+ * Presentation 2 manifests are converted to their Presentation 3 form first.
  *
  * @see https://iiif.io/api/presentation/3.0/#range
+ * @see https://iiif.io/api/presentation/2.1/#range
  */
 
-import type { Chapter } from './types.js';
+import type {
+	Chapter,
+	ChapterNode,
+	ChapterSegment,
+	DiagnosticResult,
+	IIIFCanvas,
+	IIIFLinkedResource,
+	IIIFManifest,
+	IIIFRange,
+	IIIFRangeItem,
+	LanguageMap,
+	LinkedResource,
+	ManifestTimeline,
+	MetadataEntry,
+	ParseRangesOptions,
+	Presentation2Manifest,
+	RequiredStatement,
+	SpecificResource
+} from './types.js';
+import {
+	createDiagnostics,
+	descend,
+	locate,
+	warn,
+	type DiagnosticsContext
+} from './diagnostics.js';
+import { createManifestTimeline } from './timeline.js';
+import { resolveLanguageMap } from './languageMap.js';
+import { parseAnnotationTarget, parseFragmentUri } from './parseAnnotationTarget.js';
+import {
+	fromPresentation2Manifest,
+	isPresentation2Manifest,
+	presentation2TopRanges,
+	toPresentation2Pointer
+} from './presentation2.js';
 
 /**
- * IIIF Manifest structure with optional structures array
+ * Range item that selects media: a Canvas reference or a SpecificResource of one
  */
-interface IIIFManifest {
-	'@context'?: string | string[];
-	id: string;
-	type: 'Manifest';
-	label?: Record<string, string[]>;
-	structures?: IIIFRange[];
-	items?: IIIFCanvas[];
-	[key: string]: unknown;
-}
+type IIIFRangeMediaItem = IIIFRangeItem | SpecificResource;
 
 /**
- * IIIF Canvas with duration for time-based media
+ * Manifest-wide lookups shared while processing ranges
  */
-interface IIIFCanvas {
-	id: string;
-	type: 'Canvas';
-	duration?: number;
-	[key: string]: unknown;
-}
+interface RangeContext {
+	/** Ranges of `manifest.structures` (in Presentation 3 form) */
+	structures: IIIFRange[];
 
-/**
- * IIIF Range structure
- */
-interface IIIFRange {
-	id: string;
-	type: 'Range';
-	label?: Record<string, string[]>;
-	items?: (IIIFRangeItem | IIIFRange)[];
-	thumbnail?: Array<{ id: string; type: string }>;
-	metadata?: Array<{
-		label: Record<string, string[]>;
-		value: Record<string, string[]>;
-	}>;
+	/** Ids of the top-level ranges when `structures` also lists nested ones, otherwise null */
+	topLevel: Set<string> | null;
+
+	/** Canvas id to duration, for resolving open-ended fragments */
+	canvasDurations: Map<string, number>;
+
+	/** Canvas id to position in `manifest.items`, for sorting */
+	canvasOrder: Map<string, number>;
+
+	/** Manifest timeline when chapter times are global, otherwise null */
+	timeline: ManifestTimeline | null;
+
+	/** Preferred label languages, most preferred first */
+	languages: string[];
+
+	/** Label for ranges without one */
+	untitledLabel: string;
+
+	/** Whether `no-nav` ranges are left out */
+	hideNoNav: boolean;
+
+	/** Range id to its full definition in `structures`, with its location */
+	rangesById: Map<string, RangeDefinition>;
+
+	/** Ids of the ranges being processed, from the top level down (cycle guard) */
+	ancestors: Set<string>;
+
+	/** Ids of ranges already processed, whose chapters and warnings are not repeated */
+	visited: Set<string>;
 }
 
 /**
- * IIIF Range item (Canvas reference with temporal fragment)
+ * Range with `items`, and the JSON Pointer tokens of its location in the manifest
  */
-interface IIIFRangeItem {
-	id: string;
-	type: 'Canvas';
+interface RangeDefinition {
+	range: IIIFRange;
+	tokens: Array<string | number>;
 }
 
 /**
@@ -60,21 +101,44 @@ interface IIIFRangeItem {
  *
  * This function recursively processes Range structures, extracting temporal
  * information from Media Fragment URIs (e.g., `#t=10,20`), and flattening
- * nested ranges into a linear array of chapters.
+ * nested ranges into a linear array of chapters. Every temporal item of a
+ * range is kept in `chapter.segments`, and the chapter spans them.
  *
- * @param manifest - IIIF Presentation API v3 Manifest
- * @returns Array of Chapter objects sorted by startTime (may be empty)
+ * Range items can be Canvas references (`canvas#t=10,20`, or a bare `canvas`
+ * for its whole duration) or SpecificResources with a `source` canvas and a
+ * FragmentSelector or PointSelector, parsed like annotation targets. Nested
+ * ranges can be given inline or as id-only references to a range defined
+ * elsewhere in `structures`; a range shared by several parents yields one chapter.
+ *
+ * Chapter times are relative to their canvas (`chapter.canvasId`) unless
+ * `options.timeline` is `'manifest'`, which lays the canvases of
+ * `manifest.items` end to end (see {@link createManifestTimeline}).
+ *
+ * Presentation 2 manifests (detected from their `@context` or `sc:Manifest`
+ * type) give the same chapters: ranges list `canvases` and `ranges` (or
+ * `members`) by URI, and canvas durations are read from `sequences[].canvases`.
+ *
+ * @param manifest - IIIF Presentation API v3 (or v2) Manifest
+ * @param options - Parsing options
+ * @returns Array of Chapter objects sorted by canvas (in `manifest.items`
+ *   order), then startTime (may be empty)
  *
  * @remarks
  * Returns an empty array when:
  * - Manifest has no `structures` property
  * - No ranges contain temporal fragments (`#t=...`)
  *
- * Ranges are silently skipped when:
- * - No Canvas items with temporal fragments
+ * Temporal items are silently skipped (and ranges without any left) when:
  * - Temporal fragment is malformed (non-numeric, negative values)
  * - Time range is reversed (`end < start`)
  * - Open-ended fragment (`#t=10`) without canvas duration to resolve end time
+ * - With `timeline: 'manifest'`, the canvas is not in `manifest.items`
+ *
+ * Ranges are skipped too when no item has a temporal fragment, is a
+ * SpecificResource, or is a bare reference to a canvas with a duration.
+ *
+ * Use {@link parseRangesWithDiagnostics} to find out which ranges were skipped and why,
+ * and {@link parseRangeTree} to keep the nesting of ranges.
  *
  * @example
  * ```typescript
@@ -91,169 +155,624 @@ interface IIIFRangeItem {
  *   ]
  * };
  * const chapters = parseRanges(manifest);
- * // => [{ id: 'range-1', label: 'Introduction', startTime: 0, endTime: 30 }]
+ * // => [{ id: 'range-1', label: 'Introduction', startTime: 0, endTime: 30, canvasId: 'canvas' }]
  * ```
  */
-export function parseRanges(manifest: IIIFManifest): Chapter[] {
-	if (!manifest.structures || manifest.structures.length === 0) {
-		return [];
+export function parseRanges(
+	manifest: IIIFManifest | Presentation2Manifest,
+	options: ParseRangesOptions = {}
+): Chapter[] {
+	return parseManifestRanges(manifest, options);
+}
+
+/**
+ * Parses IIIF Range structures into Chapter objects, explaining skipped ranges.
+ *
+ * Returns the same chapters as {@link parseRanges}, together with a warning
+ * for each range or temporal item that was skipped because of its content:
+ * - `range-no-temporal-items`: a range without nested ranges has items, but none
+ *   with a temporal fragment (or a canvas duration)
+ * - `fragment-malformed`, `temporal-negative`, `temporal-reversed`: the temporal
+ *   fragment of one of the range's items is invalid (`fragment-malformed` for any
+ *   invalid SpecificResource)
+ * - `range-missing-duration`: the fragment is open-ended and its canvas has no `duration`
+ * - `range-unknown-canvas`: with `timeline: 'manifest'`, the canvas is not in `manifest.items`
+ * - `range-cycle`: a range contains itself; the inner occurrence is skipped
+ * - `target-missing-source`: a SpecificResource item has no `source` canvas id
+ *
+ * Pointers locate the offending value in the manifest, e.g.
+ * `/structures/0/items/1/id` for an item's fragment URI (or
+ * `/structures/0/canvases/1` in a Presentation 2 manifest).
+ *
+ * @param manifest - IIIF Presentation API v3 (or v2) Manifest
+ * @param options - Parsing options
+ * @returns Chapters and warnings
+ *
+ * @example
+ * ```typescript
+ * const { result, warnings } = parseRangesWithDiagnostics(manifest);
+ * for (const warning of warnings) {
+ *   console.warn(`${manifest.id}${warning.pointer}: ${warning.code} (${warning.value})`);
+ * }
+ * ```
+ */
+export function parseRangesWithDiagnostics(
+	manifest: IIIFManifest | Presentation2Manifest,
+	options: ParseRangesOptions = {}
+): DiagnosticResult<Chapter[]> {
+	const diagnostics = createDiagnostics();
+	const result = parseManifestRanges(manifest, options, diagnostics);
+	if (!isPresentation2Manifest(manifest)) {
+		return { result, warnings: diagnostics.warnings };
 	}
 
+	// Point into the Presentation 2 manifest rather than its converted form
+	const warnings = diagnostics.warnings.map((warning) => ({
+		...warning,
+		pointer: toPresentation2Pointer(manifest, warning.pointer)
+	}));
+	return { result, warnings };
+}
+
+/**
+ * Parses IIIF Range structures into a tree of chapters, keeping their nesting.
+ *
+ * Each Range becomes a node with its children in document order, its depth
+ * (0 for top-level ranges) and its parent's id. Nodes carry a `chapter` when
+ * their timing is known: from the range's own temporal items, as in
+ * {@link parseRanges}, or - for ranges that only group other ranges - spanning
+ * the earliest start to the latest end of their descendants. Descendants on
+ * other canvases than the first timed one are left out of the span unless
+ * `options.timeline` is `'manifest'`.
+ *
+ * In Presentation 2 manifests, which list every range in `structures`, the
+ * top level is made of the ranges with `viewingHint: top`, or else of the
+ * ranges no other range refers to.
+ *
+ * @param manifest - IIIF Presentation API v3 (or v2) Manifest
+ * @param options - Parsing options
+ * @returns Top-level nodes in document order (may be empty)
+ *
+ * @example
+ * ```typescript
+ * const tree = parseRangeTree(manifest);
+ * // => [{
+ * //   id: 'act-1', label: 'Act I', depth: 0,
+ * //   chapter: { id: 'act-1', label: 'Act I', startTime: 0, endTime: 3971.24 },
+ * //   children: [
+ * //     { id: 'scene-1', label: 'Prelude', depth: 1, parentId: 'act-1', chapter: {...}, children: [] },
+ * //     ...
+ * //   ]
+ * // }]
+ * ```
+ */
+export function parseRangeTree(
+	manifest: IIIFManifest | Presentation2Manifest,
+	options: ParseRangesOptions = {}
+): ChapterNode[] {
+	return buildRangeTree(createRangeContext(manifest, options), []);
+}
+
+/**
+ * Parses a manifest's ranges, reporting skipped ranges to `diagnostics`.
+ */
+function parseManifestRanges(
+	manifest: IIIFManifest | Presentation2Manifest,
+	options: ParseRangesOptions,
+	diagnostics?: DiagnosticsContext
+): Chapter[] {
+	const context = createRangeContext(manifest, options);
 	const chapters: Chapter[] = [];
+	buildRangeTree(context, chapters, diagnostics);
 
-	// Build canvas duration lookup map for resolving open-ended fragments
-	const canvasDurations = buildCanvasDurationMap(manifest.items);
+	// Sort chapters by canvas, then startTime, for consistent ordering
+	const canvasIndex = (chapter: Chapter): number =>
+		context.canvasOrder.get(chapter.canvasId ?? '') ?? Number.MAX_SAFE_INTEGER;
+	return chapters.sort((a, b) => canvasIndex(a) - canvasIndex(b) || a.startTime - b.startTime);
+}
 
-	// Process each top-level range
-	for (const range of manifest.structures) {
-		processRange(range, chapters, canvasDurations);
-	}
+/**
+ * Builds the manifest-wide lookups for processing ranges, converting
+ * Presentation 2 manifests to their Presentation 3 form.
+ *
+ * @param input - IIIF Presentation API v3 (or v2) Manifest
+ * @param options - Parsing options
+ * @returns Range context
+ */
+function createRangeContext(
+	input: IIIFManifest | Presentation2Manifest,
+	options: ParseRangesOptions
+): RangeContext {
+	const presentation2 = isPresentation2Manifest(input);
+	const manifest = presentation2
+		? (fromPresentation2Manifest(input) as IIIFManifest)
+		: (input as IIIFManifest);
+
+	const timeline = createManifestTimeline(manifest);
+	const canvasOrder = new Map<string, number>();
+	timeline.canvases.forEach((canvas, index) => {
+		if (!canvasOrder.has(canvas.id)) {
+			canvasOrder.set(canvas.id, index);
+		}
+	});
+
+	return {
+		structures: manifest.structures ?? [],
+		topLevel: presentation2 ? presentation2TopRanges(input) : null,
+		// Build canvas duration lookup map for resolving open-ended fragments
+		canvasDurations: buildCanvasDurationMap(manifest.items),
+		canvasOrder,
+		timeline: options.timeline === 'manifest' ? timeline : null,
+		languages: options.languages ?? ['en'],
+		untitledLabel: options.untitledLabel ?? 'Untitled Chapter',
+		hideNoNav: options.hideNoNav ?? false,
+		rangesById: collectRangeDefinitions(manifest.structures),
+		ancestors: new Set(),
+		visited: new Set()
+	};
+}
 
-	// Sort chapters by startTime for consistent ordering
-	return chapters.sort((a, b) => a.startTime - b.startTime);
+/**
+ * Indexes every range in `structures` (at any depth) that has `items`, so
+ * id-only references can be resolved. The first definition of an id wins.
+ *
+ * @param structures - Top-level ranges of the manifest
+ * @returns Map of range id to definition
+ */
+function collectRangeDefinitions(structures?: IIIFRange[]): Map<string, RangeDefinition> {
+	const definitions = new Map<string, RangeDefinition>();
+	const collect = (range: unknown, tokens: Array<string | number>): void => {
+		if (!range || typeof range !== 'object' || (range as IIIFRange).type !== 'Range') {
+			return;
+		}
+		const { id, items } = range as IIIFRange;
+		if (!Array.isArray(items)) {
+			return;
+		}
+		if (typeof id === 'string' && !definitions.has(id)) {
+			definitions.set(id, { range: range as IIIFRange, tokens });
+		}
+		items.forEach((item, index) => collect(item, [...tokens, 'items', index]));
+	};
+	structures?.forEach((range, index) => collect(range, ['structures', index]));
+	return definitions;
 }
 
 /**
- * Recursively processes a Range structure, extracting chapters from
- * temporal fragments or nested ranges.
+ * Builds the range tree of a manifest.
+ *
+ * When `structures` also lists nested ranges, the top-level ranges are
+ * processed first, then any range they do not reach (such as ranges that
+ * only refer to each other).
+ *
+ * @param context - Manifest-wide lookups with the ranges
+ * @param chapters - Accumulator for chapters with their own temporal items
+ * @param diagnostics - Optional warning sink
+ * @returns Top-level nodes
+ */
+function buildRangeTree(
+	context: RangeContext,
+	chapters: Chapter[],
+	diagnostics?: DiagnosticsContext
+): ChapterNode[] {
+	const { structures, topLevel } = context;
+	const isTopLevel = (range: IIIFRange): boolean => !topLevel || topLevel.has(range?.id);
+
+	// Process each top-level range
+	const nodes: ChapterNode[] = [];
+	const processTopLevel = (range: IIIFRange, index: number): void => {
+		nodes.push(
+			...processRange(
+				range,
+				chapters,
+				context,
+				0,
+				undefined,
+				descend(diagnostics, 'structures', index)
+			)
+		);
+	};
+	structures.forEach((range, index) => {
+		if (isTopLevel(range)) processTopLevel(range, index);
+	});
+	structures.forEach((range, index) => {
+		if (!isTopLevel(range) && !context.visited.has(range?.id)) processTopLevel(range, index);
+	});
+	return nodes;
+}
+
+/**
+ * Recursively processes a Range structure into a tree node, extracting
+ * chapters from temporal fragments or nested ranges.
+ *
+ * Id-only references (`{ id, type: 'Range' }` without `items`) are replaced by
+ * their definition elsewhere in `structures`. A range nested in itself is
+ * reported as `range-cycle` and left out. A range reached more than once (a
+ * sub-range shared by several parents) appears in the tree each time, but its
+ * chapter and warnings are only recorded the first time. With `hideNoNav`, a
+ * `no-nav` range is left out and its children take its place.
  *
  * @param range - IIIF Range object
- * @param chapters - Accumulator array for discovered chapters
- * @param canvasDurations - Map of canvas IDs to durations for resolving open-ended fragments
+ * @param chapters - Accumulator array for chapters with their own temporal items
+ * @param context - Manifest-wide lookups
+ * @param depth - Nesting depth of the range
+ * @param parentId - Id of the enclosing range, if any
+ * @param diagnostics - Optional warning sink, pointing at this range
+ * @returns The range's tree node, its children's for a hidden range, or
+ *   nothing if the range is not an object or contains itself
  */
 function processRange(
 	range: IIIFRange,
 	chapters: Chapter[],
-	canvasDurations: Map<string, number>
-): void {
-	if (!range || !range.items || range.items.length === 0) {
-		return;
+	context: RangeContext,
+	depth: number,
+	parentId: string | undefined,
+	diagnostics?: DiagnosticsContext
+): ChapterNode[] {
+	if (!range || typeof range !== 'object') {
+		return [];
 	}
 
-	// Check if this range has direct temporal fragments
-	const temporalItems = range.items.filter(
-		(item): item is IIIFRangeItem => item.type === 'Canvas' && hasTemporalFragment(item.id)
+	// Resolve id-only references; warnings then point at the definition
+	const definition = range.items ? undefined : context.rangesById.get(range.id);
+	if (definition) {
+		range = definition.range;
+		diagnostics = locate(diagnostics, ...definition.tokens);
+	}
+
+	if (context.ancestors.has(range.id)) {
+		warn(diagnostics, 'range-cycle', `Range ${range.id} contains itself`, range.id);
+		return [];
+	}
+
+	// Shared sub-ranges: record their chapter and warnings only once
+	const firstVisit = !context.visited.has(range.id);
+	if (typeof range.id === 'string') {
+		context.visited.add(range.id);
+	}
+	if (!firstVisit) {
+		chapters = [];
+		diagnostics = undefined;
+	}
+
+	const node: ChapterNode = {
+		id: range.id,
+		label: extractLabel(range.label, context),
+		depth,
+		children: []
+	};
+	if (parentId !== undefined) node.parentId = parentId;
+
+	// Hidden ranges keep their chapter out of the list and their node out of the tree
+	const hidden =
+		context.hideNoNav && Array.isArray(range.behavior) && range.behavior.includes('no-nav');
+	const result = (): ChapterNode[] => (hidden ? node.children : [node]);
+
+	if (!range.items || range.items.length === 0) {
+		return result();
+	}
+
+	// Check if this range has direct temporal items
+	const temporalItems = range.items.filter((item): item is IIIFRangeMediaItem =>
+		isTemporalItem(item, context)
 	);
 
 	if (temporalItems.length > 0) {
 		// This range has temporal fragments - create a chapter
-		const chapter = createChapterFromRange(range, temporalItems, canvasDurations);
+		const chapter = createChapterFromRange(range, temporalItems, context, diagnostics);
 		if (chapter) {
-			chapters.push(chapter);
+			if (!hidden) chapters.push(chapter);
+			node.chapter = chapter;
 		}
 	}
 
 	// Recursively process nested ranges
-	const nestedRanges = range.items.filter((item): item is IIIFRange => item.type === 'Range');
-	for (const nestedRange of nestedRanges) {
-		processRange(nestedRange, chapters, canvasDurations);
+	let hasNestedRanges = false;
+	const isTracked = typeof range.id === 'string';
+	if (isTracked) context.ancestors.add(range.id);
+	range.items.forEach((item, index) => {
+		if (item && item.type === 'Range') {
+			hasNestedRanges = true;
+			node.children.push(
+				...processRange(
+					item,
+					chapters,
+					context,
+					hidden ? depth : depth + 1,
+					hidden ? parentId : range.id,
+					descend(diagnostics, 'items', index)
+				)
+			);
+		}
+	});
+	if (isTracked) context.ancestors.delete(range.id);
+
+	// Ranges that only group other ranges are not chapters themselves,
+	// but span their descendants in the tree
+	if (temporalItems.length === 0) {
+		if (!hasNestedRanges) {
+			warn(
+				diagnostics,
+				'range-no-temporal-items',
+				'Range has no Canvas items with a temporal fragment or duration',
+				range.id
+			);
+		}
+		const extent = spanChildren(node.children, context.timeline !== null);
+		if (extent) {
+			node.chapter = buildChapter(range, extent.start, extent.end, extent.canvasId, context);
+			node.chapter.segments = node.children.flatMap((child) => child.chapter?.segments ?? []);
+		}
 	}
+
+	return result();
+}
+
+/**
+ * Computes the earliest start and latest end of timed nodes.
+ *
+ * Canvas-relative times only compare within one canvas, so unless times are
+ * global only nodes on the first timed node's canvas are spanned.
+ *
+ * @param nodes - Child nodes (their chapters already span their own descendants)
+ * @param global - Whether chapter times are on the manifest timeline
+ * @returns Extent with the canvas of the earliest spanned node, or null if no node has timing
+ */
+function spanChildren(
+	nodes: ChapterNode[],
+	global: boolean
+): { start: number; end: number; canvasId: string | undefined } | null {
+	const first = nodes.find((node) => node.chapter)?.chapter;
+	if (!first) {
+		return null;
+	}
+	const timed = nodes.flatMap((node) =>
+		node.chapter && (global || node.chapter.canvasId === first.canvasId) ? [node.chapter] : []
+	);
+	const earliest = timed.reduce((a, b) => (b.startTime < a.startTime ? b : a));
+	return {
+		start: earliest.startTime,
+		end: Math.max(...timed.map((chapter) => chapter.endTime)),
+		canvasId: earliest.canvasId
+	};
 }
 
 /**
  * Creates a Chapter object from a Range with temporal fragments.
  *
- * Extracts start and end times from the first temporal fragment in the range.
- * For open-ended fragments (no end time), resolves end from canvas duration.
- * Supports float timestamps and handles malformed fragments gracefully.
+ * Every temporal fragment becomes a segment, in document order; fragments
+ * that cannot be resolved are skipped. The chapter spans its segments: all of
+ * them on the manifest timeline, otherwise those on the first segment's canvas
+ * (canvas-relative times cannot be compared across canvases). Its `canvasId`
+ * is the canvas of the segment it starts with, so seeking to `startTime` on
+ * that canvas lands at the chapter's start.
  *
  * @param range - IIIF Range object
- * @param items - Array of Canvas items with temporal fragments
- * @param canvasDurations - Map of canvas IDs to durations
- * @returns Chapter object or null if parsing fails
+ * @param items - Temporal Canvas and SpecificResource items
+ * @param context - Manifest-wide lookups
+ * @param diagnostics - Optional warning sink, pointing at the range
+ * @returns Chapter object or null if no fragment could be resolved
  */
 function createChapterFromRange(
 	range: IIIFRange,
-	items: IIIFRangeItem[],
-	canvasDurations: Map<string, number>
+	items: IIIFRangeMediaItem[],
+	context: RangeContext,
+	diagnostics?: DiagnosticsContext
 ): Chapter | null {
-	// Use first temporal fragment for timing
-	const firstItem = items[0];
-	if (!firstItem) {
+	const segments = items.flatMap((item) => {
+		const index = range.items?.indexOf(item) ?? 0;
+		const itemDiagnostics =
+			item.type === 'Canvas'
+				? descend(diagnostics, 'items', index, 'id')
+				: descend(diagnostics, 'items', index);
+		const segment = createSegment(item, context, itemDiagnostics);
+		return segment ? [segment] : [];
+	});
+
+	const first = segments[0];
+	if (!first) {
 		return null;
 	}
+	const spanned = context.timeline
+		? segments
+		: segments.filter((segment) => segment.canvasId === first.canvasId);
+	const earliest = spanned.reduce((a, b) => (b.startTime < a.startTime ? b : a));
+
+	const chapter = buildChapter(
+		range,
+		earliest.startTime,
+		Math.max(...spanned.map((segment) => segment.endTime)),
+		earliest.canvasId,
+		context
+	);
+	chapter.segments = segments;
+	return chapter;
+}
 
-	const timing = extractTemporalFragment(firstItem.id);
-	if (!timing) {
+/**
+ * Checks whether a Range item selects a time span of a canvas.
+ *
+ * Canvas references with a `t` dimension (valid or not, so that invalid ones
+ * are reported) and SpecificResources do; Canvas references without one do
+ * when the canvas has a duration (they cover all of it).
+ *
+ * @param item - Range item
+ * @param context - Manifest-wide lookups
+ * @returns True for items that become chapter segments
+ */
+function isTemporalItem(item: IIIFRangeMediaItem | IIIFRange, context: RangeContext): boolean {
+	if (!item || typeof item !== 'object') {
+		return false;
+	}
+	if (item.type === 'SpecificResource') {
+		return true;
+	}
+	if (item.type !== 'Canvas' || typeof item.id !== 'string') {
+		return false;
+	}
+	const parsed = parseFragmentUri(item.id);
+	return (
+		parsed.temporal !== undefined ||
+		parsed.invalidDimensions?.includes('t') === true ||
+		context.canvasDurations.has(parsed.source)
+	);
+}
+
+/**
+ * Resolves one temporal item of a Range into a chapter segment.
+ *
+ * Items without a temporal fragment cover the whole canvas, and open-ended
+ * fragments run to its end; both take the end from the canvas duration.
+ *
+ * @param item - Canvas or SpecificResource item
+ * @param context - Manifest-wide lookups
+ * @param diagnostics - Optional warning sink, pointing at the item's id (Canvas)
+ *   or the item (SpecificResource)
+ * @returns Segment or null if the item cannot be resolved
+ */
+function createSegment(
+	item: IIIFRangeMediaItem,
+	context: RangeContext,
+	diagnostics?: DiagnosticsContext
+): ChapterSegment | null {
+	const resolved = resolveItemTiming(item, diagnostics);
+	if (!resolved) {
 		return null;
 	}
+	const { canvasId, timing, value } = resolved;
 
 	// Resolve end time for open-ended fragments using canvas duration
 	let endTime = timing.end;
 	if (endTime === undefined) {
-		const canvasId = extractCanvasId(firstItem.id);
-		const duration = canvasDurations.get(canvasId);
+		const duration = context.canvasDurations.get(canvasId);
 		if (duration !== undefined) {
 			endTime = duration;
 		} else {
-			// Cannot determine end time - skip this chapter
+			// Cannot determine end time - skip this segment
+			warn(
+				diagnostics,
+				'range-missing-duration',
+				`Open-ended fragment needs a duration on canvas ${canvasId}`,
+				value
+			);
 			return null;
 		}
 	}
 
-	const label = extractLabel(range.label);
-	const thumbnail = extractThumbnail(range.thumbnail);
-	const metadata = extractMetadata(range.metadata);
-
-	// Build result conditionally (exactOptionalPropertyTypes)
-	const chapter: Chapter = {
-		id: range.id,
-		label,
-		startTime: timing.start,
-		endTime
-	};
-	if (thumbnail) chapter.thumbnail = thumbnail;
-	if (metadata) chapter.metadata = metadata;
-	return chapter;
-}
+	if (!context.timeline) {
+		return { canvasId, startTime: timing.start, endTime };
+	}
 
-/**
- * Checks if a Canvas ID contains a temporal fragment.
- *
- * @param canvasId - Canvas identifier (may include Media Fragment)
- * @returns True if the ID contains a `#t=` fragment
- */
-function hasTemporalFragment(canvasId: string): boolean {
-	return canvasId.includes('#t=');
+	// Move onto the manifest timeline
+	const offset = context.timeline.toGlobal(canvasId, 0);
+	if (offset === null) {
+		warn(diagnostics, 'range-unknown-canvas', `Canvas ${canvasId} is not in manifest.items`, value);
+		return null;
+	}
+	return { canvasId, startTime: offset + timing.start, endTime: offset + endTime };
 }
 
 /**
- * Extracts temporal timing from a Media Fragment URI.
- *
- * Parses Media Fragments per W3C Media Fragments URI spec:
- * - `#t=10,20` - start and end times
- * - `#t=10` - start time only (end resolved from canvas duration)
- * - `#t=10.5,25.75` - floating point precision supported
+ * Reads the canvas and (possibly open-ended) timing of a Range item.
  *
- * @param canvasId - Canvas ID with temporal fragment
- * @returns Object with start and optional end times, or null if malformed
+ * Canvas references are read like media fragment URIs, so `&`-combined
+ * dimensions and npt, SMPTE and clock times work as in annotation targets.
+ * SpecificResources are parsed like annotation targets (FragmentSelector,
+ * PointSelector, ...) with {@link parseAnnotationTarget}.
  *
- * @see https://www.w3.org/TR/media-frags/#naming-time
+ * @param item - Canvas or SpecificResource item
+ * @param diagnostics - Optional warning sink for invalid fragments
+ * @returns Canvas id, timing and the raw value for warnings, or null if invalid
  */
-function extractTemporalFragment(canvasId: string): { start: number; end?: number } | null {
-	// W3C Media Fragments spec: t=start[,end]
-	const match = canvasId.match(/#t=([0-9.]+)(?:,([0-9.]+))?$/);
-	if (!match) {
-		return null;
+function resolveItemTiming(
+	item: IIIFRangeMediaItem,
+	diagnostics?: DiagnosticsContext
+): { canvasId: string; timing: { start: number; end?: number }; value: string } | null {
+	if (item.type === 'Canvas') {
+		// Warnings name the whole id, which is what the pointer points at
+		const fragment = diagnostics && createDiagnostics();
+		const parsed = parseFragmentUri(item.id, fragment);
+		for (const { code, message } of fragment?.warnings ?? []) {
+			warn(diagnostics, code, message, item.id);
+		}
+		if (parsed.invalidDimensions?.includes('t')) {
+			return null;
+		}
+		return { canvasId: parsed.source, timing: parsed.temporal ?? { start: 0 }, value: item.id };
 	}
 
-	const start = parseFloat(match[1]!);
-	if (isNaN(start) || start < 0) {
+	const target = parseAnnotationTarget(item);
+	if (!target) {
+		warn(
+			diagnostics,
+			'target-missing-source',
+			'SpecificResource has no source',
+			JSON.stringify(item)
+		);
 		return null;
 	}
-
-	const endStr = match[2];
-	if (!endStr) {
-		// Open-ended fragment - end will be resolved from canvas duration
-		return { start };
+	if (target.invalidDimensions?.includes('t')) {
+		warn(
+			diagnostics,
+			'fragment-malformed',
+			'SpecificResource selector has an invalid temporal fragment',
+			target.source
+		);
+		return null;
 	}
+	return { canvasId: target.source, timing: target.temporal ?? { start: 0 }, value: target.source };
+}
 
-	const end = parseFloat(endStr);
-	if (isNaN(end) || end < start) {
-		return null;
+/**
+ * Builds a Chapter from a Range's descriptive properties and resolved timing.
+ *
+ * @param range - IIIF Range object
+ * @param startTime - Start time in seconds
+ * @param endTime - End time in seconds
+ * @param canvasId - Canvas the timing refers to
+ * @param context - Manifest-wide lookups (for label languages)
+ * @returns Chapter object
+ */
+function buildChapter(
+	range: IIIFRange,
+	startTime: number,
+	endTime: number,
+	canvasId: string | undefined,
+	context: RangeContext
+): Chapter {
+	const label = extractLabel(range.label, context);
+	const thumbnail = extractThumbnail(range.thumbnail);
+	const metadata = extractMetadata(range.metadata, context);
+
+	// Build result conditionally (exactOptionalPropertyTypes)
+	const chapter: Chapter = {
+		id: range.id,
+		label,
+		startTime,
+		endTime
+	};
+	if (canvasId !== undefined) chapter.canvasId = canvasId;
+	if (thumbnail) chapter.thumbnail = thumbnail;
+	if (metadata) chapter.metadata = metadata;
+	if (range.label && typeof range.label === 'object') chapter.labelMap = range.label;
+	if (Array.isArray(range.metadata) && range.metadata.length > 0) {
+		chapter.metadataEntries = range.metadata;
 	}
 
-	return { start, end };
+	// Descriptive and linking properties
+	const behavior = Array.isArray(range.behavior)
+		? range.behavior.filter((value) => typeof value === 'string')
+		: [];
+	if (behavior.length > 0) chapter.behavior = behavior;
+	const summary = resolveLanguageMap(range.summary, context.languages);
+	if (summary !== null) chapter.summary = summary;
+	const requiredStatement = extractRequiredStatement(range.requiredStatement, context);
+	if (requiredStatement) chapter.requiredStatement = requiredStatement;
+	for (const key of ['rendering', 'seeAlso', 'homepage', 'supplementary'] as const) {
+		const links = extractLinks(range[key], context);
+		if (links) chapter[key] = links;
+	}
+	return chapter;
 }
 
 /**
@@ -277,56 +796,18 @@ function buildCanvasDurationMap(canvases?: IIIFCanvas[]): Map<string, number> {
 	return map;
 }
 
-/**
- * Extracts the base canvas ID from a URI with fragment.
- *
- * @param canvasIdWithFragment - Canvas ID possibly containing fragment (e.g., "canvas#t=10")
- * @returns Base canvas ID without fragment
- */
-function extractCanvasId(canvasIdWithFragment: string): string {
-	const hashIndex = canvasIdWithFragment.indexOf('#');
-	return hashIndex === -1 ? canvasIdWithFragment : canvasIdWithFragment.slice(0, hashIndex);
-}
-
-/**
- * Gets first non-empty string from an array of strings.
- *
- * @param labels - Array of label strings
- * @returns First non-empty label or null
- */
-function getFirstLabel(labels: string[]): string | null {
-	return labels.length > 0 && labels[0] ? labels[0] : null;
-}
-
 /**
  * Extracts a label from an IIIF language map.
  *
- * Prefers English ('en') labels, falling back to the first available language.
- * Returns a fallback string if no label is present.
+ * Picks the preferred language with BCP 47 fallback (see
+ * {@link resolveLanguageMap}). Returns the untitled label if no label is present.
  *
  * @param labelMap - IIIF language map (optional)
+ * @param context - Manifest-wide lookups with the preferred languages
  * @returns Label string
  */
-function extractLabel(labelMap?: Record<string, string[]>): string {
-	if (!labelMap) {
-		return 'Untitled Chapter';
-	}
-
-	// Prefer English labels
-	const enLabel = labelMap['en'] && getFirstLabel(labelMap['en']);
-	if (enLabel) {
-		return enLabel;
-	}
-
-	// Fall back to first available language
-	for (const labels of Object.values(labelMap)) {
-		const label = getFirstLabel(labels);
-		if (label) {
-			return label;
-		}
-	}
-
-	return 'Untitled Chapter';
+function extractLabel(labelMap: LanguageMap | undefined, context: RangeContext): string {
+	return resolveLanguageMap(labelMap, context.languages) ?? context.untitledLabel;
 }
 
 /**
@@ -350,13 +831,12 @@ function extractThumbnail(thumbnails?: Array<{ id: string; type: string }>): str
  * into a simple Record<string, string> for easier consumption.
  *
  * @param metadata - Array of IIIF metadata objects (optional)
+ * @param context - Manifest-wide lookups with the preferred languages
  * @returns Metadata as key-value pairs or undefined
  */
 function extractMetadata(
-	metadata?: Array<{
-		label: Record<string, string[]>;
-		value: Record<string, string[]>;
-	}>
+	metadata: MetadataEntry[] | undefined,
+	context: RangeContext
 ): Record<string, string> | undefined {
 	if (!metadata || metadata.length === 0) {
 		return undefined;
@@ -365,10 +845,64 @@ function extractMetadata(
 	const result: Record<string, string> = {};
 
 	for (const item of metadata) {
-		const key = extractLabel(item.label);
-		const value = extractLabel(item.value);
+		const key = extractLabel(item.label, context);
+		const value = extractLabel(item.value, context);
 		result[key] = value;
 	}
 
 	return result;
 }
+
+/**
+ * Resolves a `requiredStatement` label/value pair into the preferred language.
+ *
+ * @param statement - IIIF requiredStatement (optional)
+ * @param context - Manifest-wide lookups with the preferred languages
+ * @returns Statement, or undefined without a value
+ */
+function extractRequiredStatement(
+	statement: MetadataEntry | undefined,
+	context: RangeContext
+): RequiredStatement | undefined {
+	if (!statement || typeof statement !== 'object') {
+		return undefined;
+	}
+	const value = resolveLanguageMap(statement.value, context.languages);
+	if (value === null) {
+		return undefined;
+	}
+	return { label: resolveLanguageMap(statement.label, context.languages) ?? '', value };
+}
+
+/**
+ * Extracts the resources of a linking property (`rendering`, `seeAlso`,
+ * `homepage` or `supplementary`), resolving their labels.
+ *
+ * @param links - Linked resource or array of them (optional)
+ * @param context - Manifest-wide lookups with the preferred languages
+ * @returns Resources with an id, or undefined if there are none
+ */
+function extractLinks(
+	links: IIIFLinkedResource | IIIFLinkedResource[] | undefined,
+	context: RangeContext
+): LinkedResource[] | undefined {
+	const result: LinkedResource[] = [];
+	for (const link of Array.isArray(links) ? links : links ? [links] : []) {
+		if (!link || typeof link.id !== 'string') {
+			continue;
+		}
+		// Build result conditionally (exactOptionalPropertyTypes)
+		const resource: LinkedResource = { id: link.id };
+		if (typeof link.type === 'string') resource.type = link.type;
+		const label = resolveLanguageMap(link.label, context.languages);
+		if (label !== null) resource.label = label;
+		if (typeof link.format === 'string') resource.format = link.format;
+		if (typeof link.profile === 'string') resource.profile = link.profile;
+		const language = (Array.isArray(link.language) ? link.language : [link.language]).filter(
+			(tag): tag is string => typeof tag === 'string'
+		);
+		if (language.length > 0) resource.language = language;
+		result.push(resource);
+	}
+	return result.length > 0 ? result : undefined;
+}
@@ -307,6 +307,51 @@ NOTE Another comment
 			expect(segments[0]?.speaker).toBe('Narrator');
 			expect(segments[1]?.speaker).toBe('Speaker');
 		});
+
+		it('should read cues that are not separated by blank lines', () => {
+			const vttContent =
+				'WEBVTT\n\n00:00:00.000 --> 00:00:05.000\n<v A>hi\n00:00:05.000 --> 00:00:10.000\n<v B>there';
+
+			expect(parseSpeakers(vttContent)).toEqual([
+				{ speaker: 'A', startTime: 0, endTime: 5 },
+				{ speaker: 'B', startTime: 5, endTime: 10 }
+			]);
+		});
+
+		it('should read a cue right after the header', () => {
+			expect(parseSpeakers('WEBVTT\n00:00:00.000 --> 00:00:05.000\n<v A>hi')).toEqual([
+				{ speaker: 'A', startTime: 0, endTime: 5 }
+			]);
+		});
+
+		it('should skip NOTE lines inside cue text', () => {
+			expect(parseSpeakers('WEBVTT\n\n00:00:00.000 --> 00:00:05.000\nNOTE x\n<v A>hi')).toEqual([
+				{ speaker: 'A', startTime: 0, endTime: 5 }
+			]);
+		});
+
+		it('should read cues like parseWebVTTChapters', () => {
+			const vttContent = [
+				'\uFEFFWEBVTT',
+				'',
+				'STYLE',
+				'::cue(v[voice="Narrator"]) { color: red }',
+				'',
+				'intro',
+				'00:00:00.000 --> 00:00:05.000 align:start',
+				'<v Narrator>Welcome',
+				'',
+				'00:00:05.000 --> 00:61:00.000',
+				'<v Narrator>Out-of-range minutes',
+				'',
+				'00:00:10.000 --> 00:00:08.000',
+				'<v Narrator>Ends before it starts'
+			].join('\r\n');
+
+			expect(parseSpeakers(vttContent)).toEqual([
+				{ speaker: 'Narrator', startTime: 0, endTime: 5 }
+			]);
+		});
 	});
 
 	describe('sorting and ordering', () => {
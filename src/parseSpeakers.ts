@@ -8,6 +8,7 @@
  */
 
 import type { SpeakerSegment } from './types.js';
+import { readCues } from './webvtt.js';
 
 /**
  * Internal representation of a parsed cue with timing and speaker
@@ -40,9 +41,12 @@ interface ParsedCue {
  * - Voice tags don't appear at the start of cue text
  *
  * Cues are silently skipped when:
- * - Timing line is malformed (not `HH:MM:SS.mmm --> HH:MM:SS.mmm`)
+ * - Timing line is malformed (not `[HH:]MM:SS.mmm --> [HH:]MM:SS.mmm`)
+ * - End time is before start time
  * - No voice tag present in cue text
  *
+ * `NOTE`, `STYLE` and `REGION` blocks are ignored.
+ *
  * @example
  * ```typescript
  * const vtt = `WEBVTT
@@ -87,170 +91,18 @@ export function parseSpeakers(vttContent: string): SpeakerSegment[] {
  * @returns Array of parsed cues
  */
 function parseVTTCues(vttContent: string): ParsedCue[] {
-	const cues: ParsedCue[] = [];
-	const lines = vttContent.split('\n');
-	let i = 0;
-
-	while (i < lines.length) {
-		const line = lines[i]!.trim();
-
-		// Check for cue timing line
-		if (line.includes('-->')) {
-			const cue = parseCue(lines, i);
-			if (cue) {
-				cues.push(cue);
-			}
-			i = skipCueLines(lines, i);
-			continue;
-		}
-
-		i++;
-	}
-
-	return cues;
-}
-
-/**
- * Parses a single VTT cue starting at the given line index.
- *
- * Extracts timing information and speaker from voice tag.
- *
- * @param lines - Array of VTT file lines
- * @param startIndex - Index of the timing line
- * @returns Parsed cue or null if malformed
- */
-function parseCue(lines: string[], startIndex: number): ParsedCue | null {
-	const timingLine = lines[startIndex];
-	if (!timingLine) {
-		return null;
-	}
-
-	const timing = parseCueTiming(timingLine);
-	if (!timing) {
-		return null;
-	}
-
-	const textLines = collectCueText(lines, startIndex + 1);
-	const fullText = textLines.join(' ');
-
-	// Extract speaker from voice tag
-	const speaker = extractSpeakerFromVoiceTag(fullText);
-
-	return {
-		startTime: timing.startTime,
-		endTime: timing.endTime,
-		speaker,
-		text: fullText
-	};
-}
-
-/**
- * Parses timing from a VTT cue timing line.
- *
- * @param timingLine - VTT timing line (e.g., "00:00:10.000 --> 00:00:20.000")
- * @returns Start and end times or null if malformed
- */
-function parseCueTiming(timingLine: string): { startTime: number; endTime: number } | null {
-	const timingMatch = timingLine.match(
-		/(\d{2}:\d{2}:\d{2}\.\d{3}|\d{2}:\d{2}\.\d{3})\s+-->\s+(\d{2}:\d{2}:\d{2}\.\d{3}|\d{2}:\d{2}\.\d{3})/
-	);
-
-	if (!timingMatch) {
-		return null;
-	}
-
-	const startTime = parseVTTTimestamp(timingMatch[1]!);
-	const endTime = parseVTTTimestamp(timingMatch[2]!);
-
-	if (startTime === null || endTime === null) {
-		return null;
-	}
-
-	return { startTime, endTime };
-}
-
-/**
- * Parses a WebVTT timestamp into seconds.
- *
- * Supports formats:
- * - `HH:MM:SS.mmm` (with hours)
- * - `MM:SS.mmm` (without hours)
- *
- * @param timestamp - VTT timestamp string
- * @returns Time in seconds or null if malformed
- */
-function parseVTTTimestamp(timestamp: string): number | null {
-	const parts = timestamp.split(':');
-
-	let hours = 0;
-	let minutes = 0;
-	let seconds = 0;
-
-	if (parts.length === 3) {
-		// HH:MM:SS.mmm
-		hours = parseInt(parts[0]!, 10);
-		minutes = parseInt(parts[1]!, 10);
-		seconds = parseFloat(parts[2]!);
-	} else if (parts.length === 2) {
-		// MM:SS.mmm
-		minutes = parseInt(parts[0]!, 10);
-		seconds = parseFloat(parts[1]!);
-	} else {
-		return null;
-	}
-
-	if (isNaN(hours) || isNaN(minutes) || isNaN(seconds)) {
-		return null;
-	}
-
-	return hours * 3600 + minutes * 60 + seconds;
-}
-
-/**
- * Collects cue text lines starting from index.
- *
- * @param lines - Array of VTT file lines
- * @param startIndex - Index after timing line
- * @returns Array of text lines
- */
-function collectCueText(lines: string[], startIndex: number): string[] {
-	const textLines: string[] = [];
-	let i = startIndex;
-
-	while (i < lines.length) {
-		const line = lines[i]!.trim();
-		// Stop at blank line or next timing line
-		if (line === '' || line.includes('-->')) {
-			break;
-		}
-		// Skip NOTE lines
-		if (!line.match(/^NOTE\s+/i)) {
-			textLines.push(line);
-		}
-		i++;
-	}
-
-	return textLines;
-}
-
-/**
- * Skips past cue lines to find the next cue.
- *
- * @param lines - Array of VTT file lines
- * @param startIndex - Index of current cue timing line
- * @returns Index of next non-cue line
- */
-function skipCueLines(lines: string[], startIndex: number): number {
-	let i = startIndex + 1;
-	while (i < lines.length) {
-		const line = lines[i]!.trim();
-		// Stop at empty line or next timing line
-		if (line === '' || line.includes('-->')) {
-			return i;
-		}
-		i++;
-	}
-	return i;
+	return readCues(vttContent).map((cue) => {
+		const text = cue.lines
+			.map((line) => line.trim())
+			.filter((line) => line !== '')
+			.join(' ');
+		return {
+			startTime: cue.startTime,
+			endTime: cue.endTime,
+			speaker: extractSpeakerFromVoiceTag(text),
+			text
+		};
+	});
 }
 
 /**
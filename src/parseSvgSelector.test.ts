@@ -0,0 +1,193 @@
+/**
+ * Tests for SvgSelector geometry parsing
+ *
+ * @see https://www.w3.org/TR/annotation-model/#svg-selector
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseSvgSelector } from './parseSvgSelector.js';
+
+const svg = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg">${body}</svg>`;
+
+describe('parseSvgSelector', () => {
+	describe('basic shapes', () => {
+		it('should parse a polygon (Mirador/Annotorious style)', () => {
+			const result = parseSvgSelector(svg('<polygon points="10,10 90,10 50,80"></polygon>'));
+
+			expect(result).toEqual({
+				shapes: [
+					{
+						type: 'polygon',
+						points: [
+							{ x: 10, y: 10 },
+							{ x: 90, y: 10 },
+							{ x: 50, y: 80 }
+						]
+					}
+				],
+				bounds: { x: 10, y: 10, width: 80, height: 70 }
+			});
+		});
+
+		it('should parse polygon points separated by whitespace only', () => {
+			const result = parseSvgSelector(svg('<polygon points="0 0 100 0 100 50 0 50"/>'));
+
+			expect(result?.bounds).toEqual({ x: 0, y: 0, width: 100, height: 50 });
+		});
+
+		it('should parse a rect, defaulting x and y to 0', () => {
+			const result = parseSvgSelector(svg('<rect width="30" height="40"/>'));
+
+			expect(result?.shapes).toEqual([{ type: 'rect', x: 0, y: 0, width: 30, height: 40 }]);
+			expect(result?.bounds).toEqual({ x: 0, y: 0, width: 30, height: 40 });
+		});
+
+		it('should parse a circle', () => {
+			const result = parseSvgSelector(svg("<circle cx='100' cy='50' r='25'/>"));
+
+			expect(result?.shapes).toEqual([{ type: 'circle', cx: 100, cy: 50, r: 25 }]);
+			expect(result?.bounds).toEqual({ x: 75, y: 25, width: 50, height: 50 });
+		});
+
+		it('should parse an ellipse', () => {
+			const result = parseSvgSelector(svg('<ellipse cx="100" cy="50" rx="40" ry="20"/>'));
+
+			expect(result?.shapes).toEqual([{ type: 'ellipse', cx: 100, cy: 50, rx: 40, ry: 20 }]);
+			expect(result?.bounds).toEqual({ x: 60, y: 30, width: 80, height: 40 });
+		});
+
+		it('should combine bounds of several shapes', () => {
+			const result = parseSvgSelector(
+				svg('<rect x="0" y="0" width="10" height="10"/><circle cx="100" cy="100" r="5"/>')
+			);
+
+			expect(result?.shapes).toHaveLength(2);
+			expect(result?.bounds).toEqual({ x: 0, y: 0, width: 105, height: 105 });
+		});
+	});
+
+	describe('paths', () => {
+		it('should parse straight-line paths with absolute commands', () => {
+			const result = parseSvgSelector(svg('<path d="M10 10 L90 10 L90 60 Z"/>'));
+
+			expect(result?.shapes).toEqual([
+				{
+					type: 'path',
+					d: 'M10 10 L90 10 L90 60 Z',
+					subpaths: [
+						[
+							{ x: 10, y: 10 },
+							{ x: 90, y: 10 },
+							{ x: 90, y: 60 }
+						]
+					]
+				}
+			]);
+			expect(result?.bounds).toEqual({ x: 10, y: 10, width: 80, height: 50 });
+		});
+
+		it('should handle relative commands, H/V and implicit lineto', () => {
+			const result = parseSvgSelector(svg('<path d="m10,10 20,0 v30 h-20 z"/>'));
+
+			expect(result?.bounds).toEqual({ x: 10, y: 10, width: 20, height: 30 });
+		});
+
+		it('should include curve extents in the bounds', () => {
+			// Cubic from (0,0) to (100,0) bulging up to y=75 at its midpoint
+			const result = parseSvgSelector(svg('<path d="M0,0 C0,100 100,100 100,0"/>'));
+
+			expect(result?.bounds.x).toBe(0);
+			expect(result?.bounds.width).toBe(100);
+			expect(result?.bounds.height).toBeCloseTo(75, 5);
+		});
+
+		it('should follow smooth curve shorthands (S, Q, T)', () => {
+			const result = parseSvgSelector(svg('<path d="M0 0 Q50 100 100 0 T200 0"/>'));
+
+			expect(result?.bounds.width).toBe(200);
+			expect(result?.bounds.y).toBeCloseTo(-50, 5);
+			expect(result?.bounds.height).toBeCloseTo(100, 5);
+		});
+
+		it('should flatten arcs, including compact flags', () => {
+			// Half circle of radius 50 from (0,50) to (100,50) through (50,0)
+			const result = parseSvgSelector(svg('<path d="M0,50 A50,50 0 0,1 100,50 Z"/>'));
+			const compact = parseSvgSelector(svg('<path d="M0,50a50,50 0 01100,0z"/>'));
+
+			expect(result?.bounds.x).toBeCloseTo(0, 5);
+			expect(result?.bounds.y).toBeCloseTo(0, 5);
+			expect(result?.bounds.width).toBeCloseTo(100, 5);
+			expect(result?.bounds.height).toBeCloseTo(50, 5);
+			expect(compact?.bounds).toEqual(result?.bounds);
+		});
+
+		it('should split subpaths and restart at the subpath start after Z', () => {
+			const result = parseSvgSelector(svg('<path d="M0 0 L10 0 L10 10 Z L0 20 M50 50 L60 60"/>'));
+			const shape = result?.shapes[0];
+
+			expect(shape?.type).toBe('path');
+			if (shape?.type === 'path') {
+				expect(shape.subpaths).toHaveLength(3);
+				expect(shape.subpaths[1]).toEqual([
+					{ x: 0, y: 0 },
+					{ x: 0, y: 20 }
+				]);
+			}
+		});
+
+		it('should keep what was parsed before a malformed command', () => {
+			const result = parseSvgSelector(svg('<path d="M0 0 L10 10 L20"/>'));
+
+			expect(result?.bounds).toEqual({ x: 0, y: 0, width: 10, height: 10 });
+		});
+
+		it('should compute bounds of paths with many points', () => {
+			const d = 'M0,0' + ' L1,1 L2,0'.repeat(100_000);
+
+			expect(parseSvgSelector(svg(`<path d="${d}"/>`))?.bounds).toEqual({
+				x: 0,
+				y: 0,
+				width: 2,
+				height: 1
+			});
+		});
+
+		it('should reject paths that do not start with a moveto', () => {
+			expect(parseSvgSelector(svg('<path d="L10 10 L20 20"/>'))).toBeUndefined();
+		});
+	});
+
+	describe('invalid input', () => {
+		it('should return undefined for empty input', () => {
+			expect(parseSvgSelector('')).toBeUndefined();
+		});
+
+		it('should return undefined when no supported shape is present', () => {
+			expect(parseSvgSelector(svg('<line x1="0" y1="0" x2="10" y2="10"/>'))).toBeUndefined();
+		});
+
+		it('should skip shapes with missing or negative sizes', () => {
+			const result = parseSvgSelector(
+				svg('<rect width="10"/><circle r="-5"/><ellipse rx="5"/><polygon points="1,2"/>')
+			);
+
+			expect(result).toBeUndefined();
+		});
+
+		it('should skip invalid shapes but keep valid ones', () => {
+			const result = parseSvgSelector(svg('<circle r="abc"/><circle cx="5" cy="5" r="5"/>'));
+
+			expect(result?.shapes).toEqual([{ type: 'circle', cx: 5, cy: 5, r: 5 }]);
+		});
+
+		it('should skip shapes with percentage lengths', () => {
+			const result = parseSvgSelector(
+				svg(
+					'<rect x="10%" y="0" width="50" height="50"/><circle r="5%"/><rect width="5" height="5"/>'
+				)
+			);
+
+			expect(result?.shapes).toEqual([{ type: 'rect', x: 0, y: 0, width: 5, height: 5 }]);
+		});
+	});
+});
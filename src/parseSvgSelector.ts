@@ -0,0 +1,551 @@
+/**
+ * SVG Selector Parser
+ *
+ * Parses inline SVG from Web Annotation `SvgSelector` values into shape
+ * geometry with a bounding box. Handles the shapes drawn by annotation tools
+ * such as Mirador and Annotorious: polygon, rect, circle, ellipse and path.
+ *
+ * @see https://www.w3.org/TR/annotation-model/#svg-selector
+ * @see https://www.w3.org/TR/SVG2/shapes.html
+ * @see https://www.w3.org/TR/SVG2/paths.html
+ */
+
+import type { Point, BoundingBox, SvgShape, SvgGeometry } from './types.js';
+
+/**
+ * Number of line segments used to approximate each curve or arc in a path.
+ */
+const CURVE_SEGMENTS = 16;
+
+/**
+ * Matches SVG shape elements we understand, capturing element name and attributes.
+ */
+const SHAPE_ELEMENT_PATTERN = /<(polygon|rect|circle|ellipse|path)\b([^>]*)>/gi;
+
+/**
+ * Length attributes of each basic shape, which may be given as percentages.
+ */
+const SHAPE_LENGTHS: Record<string, string[]> = {
+	rect: ['x', 'y', 'width', 'height'],
+	circle: ['cx', 'cy', 'r'],
+	ellipse: ['cx', 'cy', 'rx', 'ry']
+};
+
+/**
+ * Matches `name="value"` / `name='value'` attribute pairs.
+ */
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Matches SVG numbers, including exponents and numbers run together (`1.5.5`).
+ */
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g;
+
+/**
+ * Extracts attributes from an element's attribute string.
+ */
+function parseAttributes(attributeString: string): Map<string, string> {
+	const attributes = new Map<string, string>();
+	for (const match of attributeString.matchAll(ATTRIBUTE_PATTERN)) {
+		attributes.set(match[1]!.toLowerCase(), match[2] ?? match[3] ?? '');
+	}
+	return attributes;
+}
+
+/**
+ * Reads a numeric attribute (user units), returning undefined when absent or invalid.
+ */
+function numberAttribute(attributes: Map<string, string>, name: string): number | undefined {
+	const raw = attributes.get(name);
+	if (raw === undefined) {
+		return undefined;
+	}
+	const value = parseFloat(raw);
+	return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Parses a polygon `points` attribute into a point list.
+ * An odd trailing coordinate is ignored, as SVG renderers do.
+ */
+function parsePointList(points: string): Point[] {
+	const numbers = (points.match(NUMBER_PATTERN) ?? []).map(Number);
+	const result: Point[] = [];
+	for (let i = 0; i + 1 < numbers.length; i += 2) {
+		result.push({ x: numbers[i]!, y: numbers[i + 1]! });
+	}
+	return result;
+}
+
+/**
+ * Cursor over path data for reading numbers and arc flags.
+ */
+interface PathScanner {
+	d: string;
+	index: number;
+}
+
+/**
+ * Skips whitespace and comma separators.
+ */
+function skipSeparators(scanner: PathScanner): void {
+	while (scanner.index < scanner.d.length && /[\s,]/.test(scanner.d[scanner.index]!)) {
+		scanner.index++;
+	}
+}
+
+/**
+ * Reads the next number, or undefined if the next token is not a number.
+ */
+function readNumber(scanner: PathScanner): number | undefined {
+	skipSeparators(scanner);
+	const match = scanner.d.slice(scanner.index).match(/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/);
+	if (!match) {
+		return undefined;
+	}
+	scanner.index += match[0].length;
+	return parseFloat(match[0]);
+}
+
+/**
+ * Reads an arc flag, which may be written without separators (`a1,1 0 00 1,1`).
+ */
+function readFlag(scanner: PathScanner): number | undefined {
+	skipSeparators(scanner);
+	const char = scanner.d[scanner.index];
+	if (char !== '0' && char !== '1') {
+		return undefined;
+	}
+	scanner.index++;
+	return Number(char);
+}
+
+/**
+ * Reads `count` numbers, returning undefined if any is missing.
+ */
+function readNumbers(scanner: PathScanner, count: number): number[] | undefined {
+	const values: number[] = [];
+	for (let i = 0; i < count; i++) {
+		const value = readNumber(scanner);
+		if (value === undefined) {
+			return undefined;
+		}
+		values.push(value);
+	}
+	return values;
+}
+
+/**
+ * Samples a cubic Bézier curve (excluding its start point).
+ */
+function sampleCubic(p0: Point, p1: Point, p2: Point, p3: Point): Point[] {
+	const points: Point[] = [];
+	for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+		const t = i / CURVE_SEGMENTS;
+		const mt = 1 - t;
+		const a = mt * mt * mt;
+		const b = 3 * mt * mt * t;
+		const c = 3 * mt * t * t;
+		const e = t * t * t;
+		points.push({
+			x: a * p0.x + b * p1.x + c * p2.x + e * p3.x,
+			y: a * p0.y + b * p1.y + c * p2.y + e * p3.y
+		});
+	}
+	return points;
+}
+
+/**
+ * Samples a quadratic Bézier curve (excluding its start point).
+ */
+function sampleQuadratic(p0: Point, p1: Point, p2: Point): Point[] {
+	const points: Point[] = [];
+	for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+		const t = i / CURVE_SEGMENTS;
+		const mt = 1 - t;
+		points.push({
+			x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+			y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y
+		});
+	}
+	return points;
+}
+
+/**
+ * Samples an elliptical arc (excluding its start point).
+ *
+ * Converts SVG endpoint parameterization to center parameterization,
+ * scaling up radii that are too small to reach the end point.
+ *
+ * @see https://www.w3.org/TR/SVG2/implnote.html#ArcConversionEndpointToCenter
+ */
+function sampleArc(
+	from: Point,
+	rxIn: number,
+	ryIn: number,
+	rotationDeg: number,
+	largeArc: number,
+	sweep: number,
+	to: Point
+): Point[] {
+	let rx = Math.abs(rxIn);
+	let ry = Math.abs(ryIn);
+	if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+		return [to];
+	}
+
+	const phi = (rotationDeg * Math.PI) / 180;
+	const cosPhi = Math.cos(phi);
+	const sinPhi = Math.sin(phi);
+	const dx = (from.x - to.x) / 2;
+	const dy = (from.y - to.y) / 2;
+	const x1 = cosPhi * dx + sinPhi * dy;
+	const y1 = -sinPhi * dx + cosPhi * dy;
+
+	const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+	if (lambda > 1) {
+		rx *= Math.sqrt(lambda);
+		ry *= Math.sqrt(lambda);
+	}
+
+	const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+	const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+	const sign = largeArc === sweep ? -1 : 1;
+	const coefficient = sign * Math.sqrt(Math.max(0, numerator / denominator));
+	const cx1 = (coefficient * rx * y1) / ry;
+	const cy1 = (-coefficient * ry * x1) / rx;
+	const cx = cosPhi * cx1 - sinPhi * cy1 + (from.x + to.x) / 2;
+	const cy = sinPhi * cx1 + cosPhi * cy1 + (from.y + to.y) / 2;
+
+	const startAngle = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+	let sweepAngle = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - startAngle;
+	if (sweep === 0 && sweepAngle > 0) {
+		sweepAngle -= 2 * Math.PI;
+	} else if (sweep === 1 && sweepAngle < 0) {
+		sweepAngle += 2 * Math.PI;
+	}
+
+	const points: Point[] = [];
+	for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+		const angle = startAngle + (sweepAngle * i) / CURVE_SEGMENTS;
+		const ex = rx * Math.cos(angle);
+		const ey = ry * Math.sin(angle);
+		points.push({ x: cosPhi * ex - sinPhi * ey + cx, y: sinPhi * ex + cosPhi * ey + cy });
+	}
+	// Land exactly on the end point
+	points[points.length - 1] = to;
+	return points;
+}
+
+/**
+ * Flattens SVG path data into polygons, one per subpath.
+ *
+ * Supports all path commands (M, L, H, V, C, S, Q, T, A, Z) in absolute and
+ * relative form, including implicit command repetition. Curves and arcs are
+ * approximated with {@link CURVE_SEGMENTS} line segments each. Parsing stops
+ * at the first malformed command, keeping what was read so far (as SVG
+ * renderers do).
+ *
+ * @param d - Path data (`d` attribute)
+ * @returns Flattened subpaths (may be empty)
+ */
+function flattenPath(d: string): Point[][] {
+	const scanner: PathScanner = { d, index: 0 };
+	const subpaths: Point[][] = [];
+	let current: Point[] = [];
+	let position: Point = { x: 0, y: 0 };
+	let subpathStart: Point = { x: 0, y: 0 };
+	// Reflected control points for S/T shorthand
+	let lastCubicControl: Point | undefined;
+	let lastQuadraticControl: Point | undefined;
+	let command: string | undefined;
+
+	const startSubpath = (point: Point): void => {
+		if (current.length > 0) {
+			subpaths.push(current);
+		}
+		current = [point];
+		subpathStart = point;
+	};
+
+	while (true) {
+		skipSeparators(scanner);
+		if (scanner.index >= d.length) {
+			break;
+		}
+
+		const char = d[scanner.index]!;
+		if (/[MmLlHhVvCcSsQqTtAaZz]/.test(char)) {
+			command = char;
+			scanner.index++;
+		} else if (command === undefined || command === 'Z' || command === 'z') {
+			// Numbers without a command (or after Z) are an error
+			break;
+		} else if (command === 'M') {
+			// Coordinates after a moveto are implicit linetos
+			command = 'L';
+		} else if (command === 'm') {
+			command = 'l';
+		}
+
+		// Path data must begin with a moveto
+		if (subpaths.length === 0 && current.length === 0 && command !== 'M' && command !== 'm') {
+			break;
+		}
+
+		const relative = command === command.toLowerCase();
+		const base = relative ? position : { x: 0, y: 0 };
+		const upper = command.toUpperCase();
+
+		// Drawing after a closepath starts a new subpath at the current point
+		if (current.length === 0 && upper !== 'M' && upper !== 'Z') {
+			current = [position];
+		}
+		let next: Point;
+		let cubicControl: Point | undefined;
+		let quadraticControl: Point | undefined;
+
+		if (upper === 'Z') {
+			if (current.length > 0) {
+				subpaths.push(current);
+				current = [];
+			}
+			position = subpathStart;
+			lastCubicControl = undefined;
+			lastQuadraticControl = undefined;
+			continue;
+		} else if (upper === 'M' || upper === 'L' || upper === 'T') {
+			const values = readNumbers(scanner, 2);
+			if (!values) break;
+			next = { x: base.x + values[0]!, y: base.y + values[1]! };
+			if (upper === 'M') {
+				startSubpath(next);
+				position = next;
+				lastCubicControl = undefined;
+				lastQuadraticControl = undefined;
+				continue;
+			}
+			if (upper === 'T') {
+				quadraticControl = lastQuadraticControl
+					? {
+							x: 2 * position.x - lastQuadraticControl.x,
+							y: 2 * position.y - lastQuadraticControl.y
+						}
+					: position;
+				current.push(...sampleQuadratic(position, quadraticControl, next));
+			} else {
+				current.push(next);
+			}
+		} else if (upper === 'H') {
+			const value = readNumber(scanner);
+			if (value === undefined) break;
+			next = { x: base.x + value, y: position.y };
+			current.push(next);
+		} else if (upper === 'V') {
+			const value = readNumber(scanner);
+			if (value === undefined) break;
+			next = { x: position.x, y: base.y + value };
+			current.push(next);
+		} else if (upper === 'C' || upper === 'S') {
+			const values = readNumbers(scanner, upper === 'C' ? 6 : 4);
+			if (!values) break;
+			const offset = upper === 'C' ? 2 : 0;
+			const firstControl =
+				upper === 'C'
+					? { x: base.x + values[0]!, y: base.y + values[1]! }
+					: lastCubicControl
+						? { x: 2 * position.x - lastCubicControl.x, y: 2 * position.y - lastCubicControl.y }
+						: position;
+			cubicControl = { x: base.x + values[offset]!, y: base.y + values[offset + 1]! };
+			next = { x: base.x + values[offset + 2]!, y: base.y + values[offset + 3]! };
+			current.push(...sampleCubic(position, firstControl, cubicControl, next));
+		} else if (upper === 'Q') {
+			const values = readNumbers(scanner, 4);
+			if (!values) break;
+			quadraticControl = { x: base.x + values[0]!, y: base.y + values[1]! };
+			next = { x: base.x + values[2]!, y: base.y + values[3]! };
+			current.push(...sampleQuadratic(position, quadraticControl, next));
+		} else {
+			// Arc: rx ry rotation large-arc-flag sweep-flag x y
+			const radii = readNumbers(scanner, 3);
+			const largeArc = radii && readFlag(scanner);
+			const sweep = largeArc !== undefined ? readFlag(scanner) : undefined;
+			const end = sweep !== undefined ? readNumbers(scanner, 2) : undefined;
+			if (!radii || largeArc === undefined || sweep === undefined || !end) break;
+			next = { x: base.x + end[0]!, y: base.y + end[1]! };
+			current.push(...sampleArc(position, radii[0]!, radii[1]!, radii[2]!, largeArc, sweep, next));
+		}
+
+		position = next;
+		lastCubicControl = cubicControl;
+		lastQuadraticControl = quadraticControl;
+	}
+
+	if (current.length > 0) {
+		subpaths.push(current);
+	}
+	return subpaths;
+}
+
+/**
+ * Checks whether any of a shape's lengths is a percentage. Percentages are
+ * relative to an SVG viewport that selectors do not define, so they cannot be
+ * read as canvas pixels.
+ */
+function hasPercentLength(element: string, attributes: Map<string, string>): boolean {
+	return (SHAPE_LENGTHS[element] ?? []).some((name) => attributes.get(name)?.trim().endsWith('%'));
+}
+
+/**
+ * Builds a shape from an SVG element, or undefined if required attributes
+ * are missing or invalid (negative sizes, percentage lengths, fewer than two
+ * points, ...).
+ */
+function parseShape(element: string, attributes: Map<string, string>): SvgShape | undefined {
+	if (hasPercentLength(element, attributes)) {
+		return undefined;
+	}
+	switch (element) {
+		case 'polygon': {
+			const points = parsePointList(attributes.get('points') ?? '');
+			return points.length >= 2 ? { type: 'polygon', points } : undefined;
+		}
+		case 'rect': {
+			const x = numberAttribute(attributes, 'x') ?? 0;
+			const y = numberAttribute(attributes, 'y') ?? 0;
+			const width = numberAttribute(attributes, 'width');
+			const height = numberAttribute(attributes, 'height');
+			if (width === undefined || height === undefined || width < 0 || height < 0) {
+				return undefined;
+			}
+			return { type: 'rect', x, y, width, height };
+		}
+		case 'circle': {
+			const cx = numberAttribute(attributes, 'cx') ?? 0;
+			const cy = numberAttribute(attributes, 'cy') ?? 0;
+			const r = numberAttribute(attributes, 'r');
+			return r !== undefined && r >= 0 ? { type: 'circle', cx, cy, r } : undefined;
+		}
+		case 'ellipse': {
+			const cx = numberAttribute(attributes, 'cx') ?? 0;
+			const cy = numberAttribute(attributes, 'cy') ?? 0;
+			const rx = numberAttribute(attributes, 'rx');
+			const ry = numberAttribute(attributes, 'ry');
+			if (rx === undefined || ry === undefined || rx < 0 || ry < 0) {
+				return undefined;
+			}
+			return { type: 'ellipse', cx, cy, rx, ry };
+		}
+		default: {
+			const d = attributes.get('d') ?? '';
+			const subpaths = flattenPath(d);
+			return subpaths.length > 0 ? { type: 'path', d, subpaths } : undefined;
+		}
+	}
+}
+
+/**
+ * Computes the axis-aligned bounding box of a shape.
+ */
+function shapeBounds(shape: SvgShape): BoundingBox {
+	switch (shape.type) {
+		case 'rect':
+			return { x: shape.x, y: shape.y, width: shape.width, height: shape.height };
+		case 'circle':
+			return {
+				x: shape.cx - shape.r,
+				y: shape.cy - shape.r,
+				width: 2 * shape.r,
+				height: 2 * shape.r
+			};
+		case 'ellipse':
+			return {
+				x: shape.cx - shape.rx,
+				y: shape.cy - shape.ry,
+				width: 2 * shape.rx,
+				height: 2 * shape.ry
+			};
+		case 'polygon':
+			return pointsBounds(shape.points);
+		case 'path':
+			return pointsBounds(shape.subpaths.flat());
+	}
+}
+
+/**
+ * Computes the bounding box of a point list.
+ *
+ * Uses a loop rather than spreading into `Math.min`, which exceeds the
+ * argument limit on paths with many flattened points.
+ */
+function pointsBounds(points: Point[]): BoundingBox {
+	return unionBounds(points.map((p) => ({ x: p.x, y: p.y, width: 0, height: 0 })));
+}
+
+/**
+ * Computes the union of bounding boxes.
+ */
+function unionBounds(boxes: BoundingBox[]): BoundingBox {
+	let minX = Infinity;
+	let minY = Infinity;
+	let maxX = -Infinity;
+	let maxY = -Infinity;
+	for (const box of boxes) {
+		minX = Math.min(minX, box.x);
+		minY = Math.min(minY, box.y);
+		maxX = Math.max(maxX, box.x + box.width);
+		maxY = Math.max(maxY, box.y + box.height);
+	}
+	return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Parses an inline SVG document from an `SvgSelector` value into geometry.
+ *
+ * Extracts every `polygon`, `rect`, `circle`, `ellipse` and `path` element,
+ * in document order, and computes the bounding box of all of them. SVG user
+ * units are taken to be canvas pixels, as in IIIF.
+ *
+ * @param svg - SVG markup (the selector's `value`)
+ * @returns Parsed geometry, or undefined if no supported shape was found
+ *
+ * @remarks
+ * Shapes are skipped when required attributes are missing or invalid
+ * (rect without width/height, negative radius, polygon with fewer than two points,
+ * path not starting with a moveto), or when a rect, circle or ellipse length is
+ * a percentage, since there is no viewport to resolve it against.
+ *
+ * `transform` attributes and other elements (`polyline`, `line`, `g` styling)
+ * are ignored. Path curves and arcs are flattened to line segments, so the
+ * bounding box of a curved path is a close approximation.
+ *
+ * @example
+ * ```typescript
+ * parseSvgSelector('<svg xmlns="http://www.w3.org/2000/svg"><polygon points="10,10 90,10 50,80"/></svg>')
+ * // => {
+ * //   shapes: [{ type: 'polygon', points: [{ x: 10, y: 10 }, { x: 90, y: 10 }, { x: 50, y: 80 }] }],
+ * //   bounds: { x: 10, y: 10, width: 80, height: 70 }
+ * // }
+ * ```
+ *
+ * @see https://www.w3.org/TR/annotation-model/#svg-selector
+ */
+export function parseSvgSelector(svg: string): SvgGeometry | undefined {
+	if (!svg) {
+		return undefined;
+	}
+
+	const shapes: SvgShape[] = [];
+	for (const match of svg.matchAll(SHAPE_ELEMENT_PATTERN)) {
+		const shape = parseShape(match[1]!.toLowerCase(), parseAttributes(match[2]!));
+		if (shape) {
+			shapes.push(shape);
+		}
+	}
+
+	if (shapes.length === 0) {
+		return undefined;
+	}
+
+	return { shapes, bounds: unionBounds(shapes.map(shapeBounds)) };
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for the WebVTT Chapters Parser
+ *
+ * @see https://www.w3.org/TR/webvtt1/#file-using-chapter-title-text
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseWebVTTChapters } from './parseWebVTTChapters.js';
+import { chaptersToWebVTT } from './chaptersToWebVTT.js';
+
+describe('parseWebVTTChapters', () => {
+	it('should parse cues into chapters', () => {
+		const vtt = `WEBVTT
+
+intro
+00:00:00.000 --> 00:00:30.000
+Introduction
+
+main
+00:00:30.000 --> 01:02:05.500
+Main Content`;
+
+		expect(parseWebVTTChapters(vtt)).toEqual([
+			{ id: 'intro', label: 'Introduction', startTime: 0, endTime: 30 },
+			{ id: 'main', label: 'Main Content', startTime: 30, endTime: 3725.5 }
+		]);
+	});
+
+	it('should return an empty array for empty input', () => {
+		expect(parseWebVTTChapters('')).toEqual([]);
+		expect(parseWebVTTChapters('   \n')).toEqual([]);
+		expect(parseWebVTTChapters('WEBVTT\n')).toEqual([]);
+	});
+
+	it('should set the canvas and id prefix', () => {
+		const [chapter] = parseWebVTTChapters('WEBVTT\n\n1\n00:10.000 --> 00:20.000\nIntro\n', {
+			canvasId: 'https://example.org/canvas',
+			idPrefix: 'https://example.org/range/'
+		});
+
+		expect(chapter).toEqual({
+			id: 'https://example.org/range/1',
+			label: 'Intro',
+			startTime: 10,
+			endTime: 20,
+			canvasId: 'https://example.org/canvas',
+			segments: [{ canvasId: 'https://example.org/canvas', startTime: 10, endTime: 20 }]
+		});
+	});
+
+	it('should number cues without an identifier', () => {
+		const vtt =
+			'WEBVTT\n\n00:00.000 --> 00:10.000\nA\n\nb\n00:10.000 --> 00:20.000\nB\n\n00:20.000 --> 00:30.000\nC';
+
+		expect(parseWebVTTChapters(vtt).map((chapter) => chapter.id)).toEqual(['1', 'b', '3']);
+	});
+
+	it('should read cues that are not separated by blank lines', () => {
+		const vtt = 'WEBVTT\n00:00.000 --> 00:10.000\nA\nb\n00:10.000 --> 00:20.000\nB';
+
+		expect(parseWebVTTChapters(vtt).map(({ id, label }) => [id, label])).toEqual([
+			['1', 'A b'],
+			['2', 'B']
+		]);
+	});
+
+	it('should read cue text as plain text', () => {
+		const vtt = `WEBVTT
+
+00:00:00.000 --> 00:00:10.000
+<v Narrator><i>Q&amp;A</i> &lt;live&gt;
+Part&nbsp;2 &#x2013; end
+
+00:00:10.000 --> 00:00:20.000
+`;
+
+		expect(parseWebVTTChapters(vtt).map((chapter) => chapter.label)).toEqual([
+			'Q&A <live> Part\u00A02 \u2013 end',
+			'Untitled Chapter'
+		]);
+	});
+
+	it('should skip header metadata, comments, styles, settings and malformed cues', () => {
+		const vtt = `\uFEFFWEBVTT - Chapters
+Kind: chapters
+
+NOTE Generated by hand
+with two lines
+
+STYLE
+::cue { color: red }
+
+ok\r
+00:00:01.000 --> 00:00:02.000 align:start line:0\r
+Kept\r
+\r
+bad
+00:00:01 --> 00:00:02.000
+Malformed
+
+reversed
+00:00:05.000 --> 00:00:04.000
+Reversed
+
+minutes
+00:61.000 --> 01:00.000
+Out of range`;
+
+		expect(parseWebVTTChapters(vtt)).toEqual([
+			{ id: 'ok', label: 'Kept', startTime: 1, endTime: 2 }
+		]);
+	});
+
+	it('should sort by start time, enclosing chapters first', () => {
+		const vtt = `WEBVTT
+
+scene-2
+00:01:00.000 --> 00:02:00.000
+Scene 2
+
+scene-1
+00:00:00.000 --> 00:01:00.000
+Scene 1
+
+act-1
+00:00:00.000 --> 00:02:00.000
+Act I`;
+
+		expect(parseWebVTTChapters(vtt).map((chapter) => chapter.id)).toEqual([
+			'act-1',
+			'scene-1',
+			'scene-2'
+		]);
+	});
+
+	it('should read back what chaptersToWebVTT writes', () => {
+		const chapters = [
+			{ id: 'a', label: 'Q&A <live>', startTime: 0, endTime: 12.345 },
+			{ id: 'b', label: 'Part 2', startTime: 12.345, endTime: 400000 }
+		];
+
+		expect(parseWebVTTChapters(chaptersToWebVTT(chapters))).toEqual(chapters);
+	});
+});
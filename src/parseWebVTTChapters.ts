@@ -0,0 +1,77 @@
+/**
+ * WebVTT Chapters Parser
+ *
+ * Reads a WebVTT chapters track (`<track kind="chapters">`) into Chapter
+ * objects, the reverse of `chaptersToWebVTT`.
+ *
+ * @see https://www.w3.org/TR/webvtt1/#file-using-chapter-title-text
+ */
+
+import type { Chapter, ParseWebVTTChaptersOptions } from './types.js';
+import { readCues, unescapeCueText } from './webvtt.js';
+
+/**
+ * Parses a WebVTT chapters track into chapters.
+ *
+ * Each cue becomes a chapter: its identifier is the chapter id, its text
+ * (with tags removed and character references decoded, lines joined by a
+ * space) the label. Nested cues become separate, overlapping chapters.
+ *
+ * @param vttContent - Raw WebVTT file content
+ * @param options - Canvas, id prefix and untitled label
+ * @returns Chapters sorted by startTime, enclosing chapters first (may be empty)
+ *
+ * @remarks
+ * Cues are silently skipped when:
+ * - Timing line is malformed (not `[HH:]MM:SS.mmm --> [HH:]MM:SS.mmm`)
+ * - End time is before start time
+ *
+ * `NOTE`, `STYLE` and `REGION` blocks are ignored.
+ *
+ * @example
+ * ```typescript
+ * const vtt = `WEBVTT
+ *
+ * intro
+ * 00:00:00.000 --> 00:00:30.000
+ * Introduction`;
+ *
+ * parseWebVTTChapters(vtt, { canvasId: 'https://example.org/canvas' });
+ * // => [{
+ * //   id: 'intro', label: 'Introduction', startTime: 0, endTime: 30,
+ * //   canvasId: 'https://example.org/canvas',
+ * //   segments: [{ canvasId: 'https://example.org/canvas', startTime: 0, endTime: 30 }]
+ * // }]
+ * ```
+ */
+export function parseWebVTTChapters(
+	vttContent: string,
+	options: ParseWebVTTChaptersOptions = {}
+): Chapter[] {
+	if (!vttContent || vttContent.trim() === '') {
+		return [];
+	}
+
+	const { canvasId, idPrefix = '', untitledLabel = 'Untitled Chapter' } = options;
+	const chapters = readCues(vttContent).map((cue, index): Chapter => {
+		const label = cue.lines
+			.map(unescapeCueText)
+			.join(' ')
+			.replace(/[ \t\f]+/g, ' ')
+			.trim();
+		const chapter: Chapter = {
+			id: `${idPrefix}${cue.id || index + 1}`,
+			label: label || untitledLabel,
+			startTime: cue.startTime,
+			endTime: cue.endTime
+		};
+		if (canvasId !== undefined) {
+			chapter.canvasId = canvasId;
+			chapter.segments = [{ canvasId, startTime: cue.startTime, endTime: cue.endTime }];
+		}
+		return chapter;
+	});
+
+	// Enclosing chapters before the chapters nested in them
+	return chapters.sort((a, b) => a.startTime - b.startTime || b.endTime - a.endTime);
+}
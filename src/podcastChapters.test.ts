@@ -0,0 +1,179 @@
+/**
+ * Tests for Podcasting 2.0 JSON Chapters
+ *
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/examples/chapters/jsonChapters.md
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chaptersToPodcastChapters, parsePodcastChapters } from './podcastChapters.js';
+import { chaptersToRanges } from './chaptersToRanges.js';
+import { parseRanges } from './parseRanges.js';
+import type { Chapter } from './types.js';
+
+describe('chaptersToPodcastChapters', () => {
+	it('should write chapters sorted by start time', () => {
+		const file = chaptersToPodcastChapters([
+			{ id: 'b', label: 'Main Content', startTime: 30, endTime: 120 },
+			{ id: 'a', label: 'Introduction', startTime: 0, endTime: 30 }
+		]);
+
+		expect(file).toEqual({
+			version: '1.2.0',
+			chapters: [
+				{ startTime: 0, endTime: 30, title: 'Introduction' },
+				{ startTime: 30, endTime: 120, title: 'Main Content' }
+			]
+		});
+	});
+
+	it('should write images, links and hidden chapters', () => {
+		const chapter: Chapter = {
+			id: 'a',
+			label: 'Credits',
+			startTime: 0,
+			endTime: 10,
+			thumbnail: 'https://example.org/credits.jpg',
+			homepage: [{ id: 'https://example.org/credits' }],
+			behavior: ['no-nav']
+		};
+
+		expect(chaptersToPodcastChapters([chapter]).chapters).toEqual([
+			{
+				startTime: 0,
+				endTime: 10,
+				title: 'Credits',
+				img: 'https://example.org/credits.jpg',
+				url: 'https://example.org/credits',
+				toc: false
+			}
+		]);
+		expect(
+			chaptersToPodcastChapters([
+				{ ...chapter, rendering: [{ id: 'https://example.org/transcript.pdf' }] }
+			]).chapters[0]?.url
+		).toBe('https://example.org/transcript.pdf');
+	});
+
+	it('should write file properties and filter by canvas', () => {
+		const file = chaptersToPodcastChapters(
+			[
+				{ id: 'a', label: 'A', startTime: 0, endTime: 10, canvasId: 'canvas/1' },
+				{ id: 'b', label: 'B', startTime: 0, endTime: Infinity, canvasId: 'canvas/2' },
+				{ id: 'c', label: 'C', startTime: -5, endTime: 10, canvasId: 'canvas/2' }
+			],
+			{ canvasId: 'canvas/2', title: 'Episode 1', podcastName: 'Oral Histories' }
+		);
+
+		expect(file).toEqual({
+			version: '1.2.0',
+			title: 'Episode 1',
+			podcastName: 'Oral Histories',
+			chapters: [{ startTime: 0, title: 'B' }]
+		});
+	});
+});
+
+describe('parsePodcastChapters', () => {
+	const json = JSON.stringify({
+		version: '1.2.0',
+		chapters: [
+			{ startTime: 0, title: 'Intro', img: 'https://example.org/intro.jpg' },
+			{ startTime: 30, endTime: 90, title: 'Interview', url: 'https://example.org/guest' },
+			{ startTime: 95, title: 'Sponsor', toc: false }
+		]
+	});
+
+	it('should parse a JSON chapters file', () => {
+		expect(parsePodcastChapters(json)).toEqual([
+			{
+				id: '1',
+				label: 'Intro',
+				startTime: 0,
+				endTime: 30,
+				thumbnail: 'https://example.org/intro.jpg'
+			},
+			{
+				id: '2',
+				label: 'Interview',
+				startTime: 30,
+				endTime: 90,
+				homepage: [{ id: 'https://example.org/guest', type: 'Text' }]
+			},
+			{ id: '3', label: 'Sponsor', startTime: 95, endTime: Infinity, behavior: ['no-nav'] }
+		]);
+	});
+
+	it('should accept a parsed object and set the canvas and id prefix', () => {
+		const [chapter] = parsePodcastChapters(
+			{ version: '1.2.0', chapters: [{ startTime: 5, endTime: 10 }] },
+			{ canvasId: 'canvas', idPrefix: 'https://example.org/range/', untitledLabel: 'Chapter' }
+		);
+
+		expect(chapter).toEqual({
+			id: 'https://example.org/range/1',
+			label: 'Chapter',
+			startTime: 5,
+			endTime: 10,
+			canvasId: 'canvas',
+			segments: [{ canvasId: 'canvas', startTime: 5, endTime: 10 }]
+		});
+	});
+
+	it('should return an empty array for invalid files', () => {
+		expect(parsePodcastChapters('not json')).toEqual([]);
+		expect(parsePodcastChapters('{"version":"1.2.0"}')).toEqual([]);
+		expect(parsePodcastChapters('null')).toEqual([]);
+	});
+
+	it('should skip entries without a valid startTime', () => {
+		const chapters = parsePodcastChapters({
+			version: '1.2.0',
+			chapters: [
+				{ title: 'No start' } as never,
+				{ startTime: -1, title: 'Negative' },
+				{ startTime: 20, endTime: 10, title: 'Reversed end' },
+				{ startTime: 10, title: 'Kept' }
+			]
+		});
+
+		expect(chapters.map((chapter) => [chapter.id, chapter.startTime, chapter.endTime])).toEqual([
+			['4', 10, 20],
+			['3', 20, Infinity]
+		]);
+	});
+
+	it('should round-trip through chaptersToPodcastChapters', () => {
+		const chapters = parsePodcastChapters(json);
+
+		expect(chaptersToPodcastChapters(chapters)).toEqual({
+			version: '1.2.0',
+			chapters: [
+				{ startTime: 0, endTime: 30, title: 'Intro', img: 'https://example.org/intro.jpg' },
+				{ startTime: 30, endTime: 90, title: 'Interview', url: 'https://example.org/guest' },
+				{ startTime: 95, title: 'Sponsor', toc: false }
+			]
+		});
+	});
+
+	it('should generate Ranges that parseRanges reads back', () => {
+		const canvas = 'https://example.org/canvas';
+		const structures = chaptersToRanges(parsePodcastChapters(json, { canvasId: canvas }), {
+			language: 'en'
+		});
+
+		expect(structures[2]?.items).toEqual([{ id: `${canvas}#t=95`, type: 'Canvas' }]);
+
+		const chapters = parseRanges({
+			id: 'https://example.org/manifest',
+			type: 'Manifest',
+			items: [{ id: canvas, type: 'Canvas', duration: 120 }],
+			structures
+		});
+		expect(chapters.map((chapter) => [chapter.label, chapter.startTime, chapter.endTime])).toEqual([
+			['Intro', 0, 30],
+			['Interview', 30, 90],
+			['Sponsor', 95, 120]
+		]);
+		expect(chapters[2]?.behavior).toEqual(['no-nav']);
+	});
+});
@@ -0,0 +1,192 @@
+/**
+ * Podcasting 2.0 JSON Chapters
+ *
+ * Converts chapters to and from the Podcasting 2.0 JSON chapters format
+ * (`application/json+chapters`), as read by podcast apps:
+ * - `title` from the label, `img` from the thumbnail
+ * - `url` from the first `rendering` or `homepage` link
+ * - `toc: false` for `no-nav` chapters
+ *
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/examples/chapters/jsonChapters.md
+ */
+
+import type {
+	Chapter,
+	ParsePodcastChaptersOptions,
+	PodcastChapter,
+	PodcastChapters,
+	PodcastChaptersOptions
+} from './types.js';
+
+/**
+ * Version of the JSON chapters format that is written.
+ */
+const FORMAT_VERSION = '1.2.0';
+
+/**
+ * Optional file properties copied from the options.
+ */
+const FILE_PROPERTIES = ['author', 'title', 'podcastName', 'description', 'fileName'] as const;
+
+/**
+ * Writes chapters as a Podcasting 2.0 JSON chapters file.
+ *
+ * Chapters are sorted by start time. Each gets `startTime`, `endTime` (when
+ * finite), `title`, `img` from `thumbnail`, `url` from the first `rendering`
+ * or else `homepage` link, and `toc: false` when its behavior is `no-nav`.
+ *
+ * @param chapters - Chapters with times on the podcast's media file
+ * @param options - Canvas filter and file properties
+ * @returns JSON chapters object; serialize with `JSON.stringify`
+ *
+ * @remarks
+ * Chapters are left out when their start time is not finite or negative, or
+ * when `options.canvasId` is set and they are on another canvas.
+ *
+ * @example
+ * ```typescript
+ * chaptersToPodcastChapters(parseRanges(manifest), { title: 'Episode 1' });
+ * // => {
+ * //   version: '1.2.0',
+ * //   title: 'Episode 1',
+ * //   chapters: [{ startTime: 0, endTime: 30, title: 'Introduction' }, ...]
+ * // }
+ * ```
+ */
+export function chaptersToPodcastChapters(
+	chapters: Chapter[],
+	options: PodcastChaptersOptions = {}
+): PodcastChapters {
+	const result: PodcastChapters = { version: FORMAT_VERSION, chapters: [] };
+	for (const key of FILE_PROPERTIES) {
+		const value = options[key];
+		if (value !== undefined) result[key] = value;
+	}
+
+	result.chapters = chapters
+		.filter(
+			(chapter) =>
+				chapter &&
+				Number.isFinite(chapter.startTime) &&
+				chapter.startTime >= 0 &&
+				(options.canvasId === undefined || chapter.canvasId === options.canvasId)
+		)
+		.sort((a, b) => a.startTime - b.startTime)
+		.map(toPodcastChapter);
+	return result;
+}
+
+/**
+ * Converts one chapter into a JSON chapters entry.
+ */
+function toPodcastChapter(chapter: Chapter): PodcastChapter {
+	const entry: PodcastChapter = { startTime: chapter.startTime };
+	if (Number.isFinite(chapter.endTime) && chapter.endTime >= chapter.startTime) {
+		entry.endTime = chapter.endTime;
+	}
+	entry.title = chapter.label;
+	if (chapter.thumbnail) entry.img = chapter.thumbnail;
+	const url = chapter.rendering?.[0]?.id ?? chapter.homepage?.[0]?.id;
+	if (url) entry.url = url;
+	if (chapter.behavior?.includes('no-nav')) entry.toc = false;
+	return entry;
+}
+
+/**
+ * Parses a Podcasting 2.0 JSON chapters file into chapters.
+ *
+ * The reverse of {@link chaptersToPodcastChapters}: `title` becomes the label,
+ * `img` the thumbnail, `url` a `homepage` link and `toc: false` the `no-nav`
+ * behavior. Chapter ids are the 1-based positions in the file. Chapters
+ * without an `endTime` end where the next one starts; the last one is
+ * open-ended (`endTime: Infinity`), which {@link chaptersToRanges} writes as
+ * `canvas#t=start` so that `parseRanges` ends it at the canvas duration.
+ *
+ * @param json - JSON chapters file content, or the parsed object
+ * @param options - Canvas, id prefix and untitled label
+ * @returns Chapters sorted by startTime (empty for invalid input)
+ *
+ * @remarks
+ * Entries are silently skipped when `startTime` is missing, not a finite
+ * number or negative. `endTime` values before `startTime` are ignored.
+ *
+ * @example
+ * ```typescript
+ * const chapters = parsePodcastChapters(await response.text(), {
+ *   canvasId: 'https://example.org/canvas'
+ * });
+ * manifest.structures = chaptersToRanges(chapters, { language: 'en' });
+ * ```
+ */
+export function parsePodcastChapters(
+	json: string | PodcastChapters,
+	options: ParsePodcastChaptersOptions = {}
+): Chapter[] {
+	const file = readFile(json);
+	if (!file) {
+		return [];
+	}
+
+	const { canvasId, idPrefix = '', untitledLabel = 'Untitled Chapter' } = options;
+	const entries = file.chapters
+		.map((entry, index) => ({ entry, id: `${idPrefix}${index + 1}` }))
+		.filter(
+			({ entry }) =>
+				typeof entry === 'object' &&
+				entry !== null &&
+				typeof entry.startTime === 'number' &&
+				Number.isFinite(entry.startTime) &&
+				entry.startTime >= 0
+		)
+		.sort((a, b) => a.entry.startTime - b.entry.startTime);
+
+	return entries.map(({ entry, id }, index): Chapter => {
+		const next = entries.slice(index + 1).find((other) => other.entry.startTime > entry.startTime);
+		const endTime =
+			typeof entry.endTime === 'number' &&
+			Number.isFinite(entry.endTime) &&
+			entry.endTime >= entry.startTime
+				? entry.endTime
+				: (next?.entry.startTime ?? Infinity);
+
+		// Build result conditionally (exactOptionalPropertyTypes)
+		const chapter: Chapter = {
+			id,
+			label: typeof entry.title === 'string' && entry.title.trim() ? entry.title : untitledLabel,
+			startTime: entry.startTime,
+			endTime
+		};
+		if (canvasId !== undefined) {
+			chapter.canvasId = canvasId;
+			chapter.segments = [{ canvasId, startTime: entry.startTime, endTime }];
+		}
+		if (typeof entry.img === 'string') chapter.thumbnail = entry.img;
+		if (typeof entry.url === 'string') chapter.homepage = [{ id: entry.url, type: 'Text' }];
+		if (entry.toc === false) chapter.behavior = ['no-nav'];
+		return chapter;
+	});
+}
+
+/**
+ * Reads a JSON chapters file, parsing it first when given as a string.
+ *
+ * @returns The file, or null if it is not valid JSON or has no `chapters` array
+ */
+function readFile(json: string | PodcastChapters): PodcastChapters | null {
+	let file: unknown = json;
+	if (typeof json === 'string') {
+		try {
+			file = JSON.parse(json);
+		} catch {
+			return null;
+		}
+	}
+	if (
+		typeof file !== 'object' ||
+		file === null ||
+		!Array.isArray((file as PodcastChapters).chapters)
+	) {
+		return null;
+	}
+	return file as PodcastChapters;
+}
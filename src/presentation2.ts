@@ -0,0 +1,625 @@
+/**
+ * IIIF Presentation 2 Compatibility
+ *
+ * Normalizes Presentation 2 (Open Annotation) annotations, targets and
+ * bodies into their Presentation 3 / Web Annotation equivalents so the
+ * regular parsers can handle both:
+ * - `@id`/`@type` keys and `oa:`, `sc:`, `dctypes:`, `cnt:` prefixed terms
+ * - `on` instead of `target`, `resource` instead of `body`, `full` instead of `source`
+ * - `oa:Choice` with `default` and `item` instead of `items`
+ * - `cnt:ContentAsText` bodies with `chars` instead of `TextualBody` with `value`
+ * - `sequences[].canvases` instead of `items`, and ranges listing `canvases`,
+ *   `ranges` or `members` instead of `items`
+ * - `@value`/`@language` property values instead of language maps
+ * - `viewingHint`, `description`, `attribution` and `related` instead of
+ *   `behavior`, `summary`, `requiredStatement` and `homepage`
+ *
+ * @see https://iiif.io/api/presentation/2.1/#annotation-list
+ * @see https://iiif.io/api/presentation/2.1/#range
+ * @see https://iiif.io/api/presentation/3.0/change-log/
+ */
+
+import type {
+	AnnotationSelector,
+	AnnotationTargetInput,
+	IIIFAgent,
+	IIIFAnnotation,
+	IIIFAnnotationBody,
+	IIIFAnnotationPage,
+	LanguageMap,
+	MetadataEntry,
+	SpecificResource
+} from './types.js';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Presentation 3 form of a Presentation 2 range; child ranges become id-only references
+ */
+interface ConvertedRange {
+	id: string;
+	type: 'Range';
+	label?: LanguageMap;
+	items: ConvertedRangeItem[];
+	thumbnail?: Array<{ id: string; type: string }>;
+	metadata?: MetadataEntry[];
+	behavior?: string[];
+	summary?: LanguageMap;
+	requiredStatement?: MetadataEntry;
+	rendering?: ConvertedLink[];
+	seeAlso?: ConvertedLink[];
+	homepage?: ConvertedLink[];
+}
+
+/**
+ * Presentation 3 form of a resource referenced by a linking property
+ */
+interface ConvertedLink {
+	id: string;
+	label?: LanguageMap;
+	format?: string;
+	profile?: string;
+}
+
+/**
+ * Canvas (optionally with a `#t=` fragment) or range reference in a converted range
+ */
+interface ConvertedRangeItem {
+	id: string;
+	type: 'Canvas' | 'Range';
+}
+
+/**
+ * Presentation 3 form of a Presentation 2 manifest, as far as ranges need it.
+ * `structures` keeps the position of every range; entries that are not objects become null.
+ */
+interface ConvertedManifest {
+	id: string;
+	type: 'Manifest';
+	label?: LanguageMap;
+	items: Array<{ id: string; type: 'Canvas'; duration?: number }>;
+	structures: Array<ConvertedRange | null>;
+}
+
+/**
+ * Range item together with the JSON Pointer tokens of its location in the range
+ */
+interface RangeItemSource {
+	item: ConvertedRangeItem;
+	tokens: Array<string | number>;
+	/** Key holding the item's URI when the item is an object (`@id` or `id`) */
+	idToken?: string;
+}
+
+/**
+ * Namespace prefixes used by Presentation 2 JSON-LD terms.
+ */
+const PREFIX_PATTERN = /^(?:oa|sc|dctypes|cnt|iiif|as):/;
+
+/**
+ * Presentation 3 names for Presentation 2 terms that differ beyond their prefix.
+ */
+const TERM_ALIASES: Record<string, string> = {
+	ContentAsText: 'TextualBody',
+	AnnotationList: 'AnnotationPage'
+};
+
+/**
+ * Context URI prefix of Presentation 2 documents.
+ */
+const CONTEXT_PATTERN = /^https?:\/\/iiif\.io\/api\/presentation\/2\//;
+
+/**
+ * Multiplicity constructs that group targets or selectors.
+ */
+const COLLECTION_TYPES = new Set(['Choice', 'Composite', 'List', 'Independents']);
+
+/**
+ * Checks whether a value is a non-null, non-array object.
+ */
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Normalizes an optional single value or array into an array.
+ */
+function toArray(value: unknown): unknown[] {
+	if (value === undefined || value === null) {
+		return [];
+	}
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Strips a namespace prefix and maps the term to its Presentation 3 name.
+ */
+function normalizeTerm(term: string): string {
+	const local = term.replace(PREFIX_PATTERN, '');
+	return TERM_ALIASES[local] ?? local;
+}
+
+/**
+ * Reads `type` or `@type` as a Presentation 3 term.
+ * Presentation 2 may list several types; `TextualBody` wins, then the first.
+ */
+function readType(obj: JsonObject): string | undefined {
+	const types = toArray(obj['type'] ?? obj['@type'])
+		.filter((type): type is string => typeof type === 'string')
+		.map(normalizeTerm);
+	return types.includes('TextualBody') ? 'TextualBody' : types[0];
+}
+
+/**
+ * Reads `id` or `@id`.
+ */
+function readId(obj: JsonObject): string | undefined {
+	const id = obj['id'] ?? obj['@id'];
+	return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Reads a resource reference given as an IRI or as an object with an id.
+ */
+function readReference(value: unknown): string | undefined {
+	if (typeof value === 'string') {
+		return value;
+	}
+	return isObject(value) ? readId(value) : undefined;
+}
+
+/**
+ * Collects the members of a multiplicity construct.
+ * `oa:Choice` lists its preferred member in `default`, the rest in `item`.
+ */
+function collectionItems(obj: JsonObject): unknown[] {
+	return [...toArray(obj['default']), ...toArray(obj['item']), ...toArray(obj['items'])];
+}
+
+/**
+ * Checks whether an object uses Presentation 2 / Open Annotation vocabulary.
+ */
+export function isPresentation2(value: unknown): boolean {
+	if (!isObject(value)) {
+		return false;
+	}
+	const type = value['type'];
+	return (
+		'@type' in value || '@id' in value || (typeof type === 'string' && PREFIX_PATTERN.test(type))
+	);
+}
+
+/**
+ * Converts a Presentation 2 selector into a Web Annotation selector.
+ */
+function fromPresentation2Selector(selector: unknown): AnnotationSelector | undefined {
+	if (!isObject(selector)) {
+		return undefined;
+	}
+	const type = readType(selector);
+	if (!type) {
+		return undefined;
+	}
+
+	const result: AnnotationSelector = { type };
+
+	if (COLLECTION_TYPES.has(type)) {
+		result.items = collectionItems(selector)
+			.map(fromPresentation2Selector)
+			.filter((item): item is AnnotationSelector => item !== undefined);
+		return result;
+	}
+
+	const value = selector['value'] ?? selector['chars'] ?? selector['rdf:value'];
+	if (typeof value === 'string') result.value = value;
+	if (typeof selector['conformsTo'] === 'string') result.conformsTo = selector['conformsTo'];
+	for (const key of ['t', 'x', 'y'] as const) {
+		const coordinate = selector[key];
+		if (typeof coordinate === 'number') result[key] = coordinate;
+	}
+
+	const refinedBy = toArray(selector['refinedBy'])
+		.map(fromPresentation2Selector)
+		.filter((item): item is AnnotationSelector => item !== undefined);
+	if (refinedBy.length === 1) result.refinedBy = refinedBy[0]!;
+	if (refinedBy.length > 1) result.refinedBy = refinedBy;
+
+	return result;
+}
+
+/**
+ * Converts a Presentation 2 annotation target into a Presentation 3 target.
+ *
+ * Handles `oa:SpecificResource` (with `full` or `source`) and multiplicity
+ * constructs such as `oa:Choice`. Members are converted recursively; strings
+ * and Presentation 3 objects pass through unchanged.
+ *
+ * @param target - Target using Presentation 2 vocabulary (see {@link isPresentation2})
+ * @returns Equivalent target, or undefined if it cannot be represented
+ */
+export function fromPresentation2Target(target: unknown): AnnotationTargetInput | undefined {
+	if (!isObject(target)) {
+		return undefined;
+	}
+	const type = readType(target);
+
+	if (type === 'SpecificResource') {
+		const source = readReference(target['source'] ?? target['full']);
+		if (!source) {
+			return undefined;
+		}
+
+		const selectors = toArray(target['selector'])
+			.map(fromPresentation2Selector)
+			.filter((selector): selector is AnnotationSelector => selector !== undefined);
+
+		const result: SpecificResource = { type: 'SpecificResource', source };
+		if (selectors.length === 1) result.selector = selectors[0]!;
+		if (selectors.length > 1) result.selector = selectors;
+		return result;
+	}
+
+	if (type === 'Choice' || type === 'Composite' || type === 'List' || type === 'Independents') {
+		const items = collectionItems(target).map((item) =>
+			isPresentation2(item) ? fromPresentation2Target(item) : (item as AnnotationTargetInput)
+		);
+		return {
+			type,
+			items: items.filter((item): item is AnnotationTargetInput => item !== undefined)
+		};
+	}
+
+	return undefined;
+}
+
+/**
+ * Converts a Presentation 2 body (`resource`) into a Web Annotation body.
+ *
+ * `chars` becomes `value` (making the body a `TextualBody`), `full` becomes
+ * `source`, and `oa:Choice` members move to `items`.
+ */
+function fromPresentation2Body(body: unknown): IIIFAnnotationBody | undefined {
+	if (typeof body === 'string') {
+		return body;
+	}
+	if (!isObject(body)) {
+		return undefined;
+	}
+
+	const type = readType(body);
+	const result: Exclude<IIIFAnnotationBody, string> = {};
+
+	if (type === 'Choice') {
+		result.type = type;
+		result.items = collectionItems(body)
+			.map(fromPresentation2Body)
+			.filter((item): item is IIIFAnnotationBody => item !== undefined);
+		return result;
+	}
+
+	const value = body['value'] ?? body['chars'];
+	if (typeof value === 'string') {
+		result.type = 'TextualBody';
+		result.value = value;
+	} else if (type) {
+		result.type = type;
+	}
+
+	const id = readId(body);
+	if (id) result.id = id;
+	const source = readReference(body['source'] ?? body['full']);
+	if (source) result.source = source;
+	const language = body['language'] ?? body['@language'];
+	if (typeof language === 'string') result.language = language;
+	if (typeof body['format'] === 'string') result.format = body['format'];
+	const purpose = toArray(body['purpose'])
+		.filter((item): item is string => typeof item === 'string')
+		.map(normalizeTerm);
+	if (purpose.length > 0) result.purpose = purpose;
+
+	return result;
+}
+
+/**
+ * Converts a Presentation 2 annotation into a Presentation 3 annotation.
+ *
+ * `on` becomes `target` (left in Presentation 2 form for
+ * {@link fromPresentation2Target}), `resource` becomes `body`, and prefixed
+ * motivations such as `sc:painting` or `oa:commenting` lose their prefix.
+ *
+ * @param annotation - Annotation using Presentation 2 vocabulary
+ * @returns Equivalent annotation, or undefined if it is not an annotation
+ */
+export function fromPresentation2Annotation(annotation: unknown): IIIFAnnotation | undefined {
+	if (!isObject(annotation) || readType(annotation) !== 'Annotation') {
+		return undefined;
+	}
+
+	const result: IIIFAnnotation = {
+		id: readId(annotation) ?? '',
+		type: 'Annotation',
+		target: (annotation['target'] ?? annotation['on']) as AnnotationTargetInput
+	};
+
+	const motivation = toArray(annotation['motivation'])
+		.filter((item): item is string => typeof item === 'string')
+		.map(normalizeTerm);
+	if (motivation.length > 0) result.motivation = motivation;
+
+	const body = toArray(annotation['body'] ?? annotation['resource'])
+		.map(fromPresentation2Body)
+		.filter((item): item is IIIFAnnotationBody => item !== undefined);
+	if (body.length > 0) result.body = body;
+
+	for (const key of ['created', 'modified', 'bodyValue'] as const) {
+		const value = annotation[key];
+		if (typeof value === 'string') result[key] = value;
+	}
+	const creator = annotation['creator'];
+	if (typeof creator === 'string' || isObject(creator) || Array.isArray(creator)) {
+		result.creator = creator as IIIFAgent | IIIFAgent[];
+	}
+
+	return result;
+}
+
+/**
+ * Converts a Presentation 2 AnnotationList (`resources`) into an AnnotationPage (`items`).
+ *
+ * @param list - AnnotationList using Presentation 2 vocabulary
+ * @returns Equivalent page, or undefined if it is not an annotation list or page
+ */
+export function fromPresentation2Page(list: unknown): IIIFAnnotationPage | undefined {
+	if (!isObject(list) || readType(list) !== 'AnnotationPage') {
+		return undefined;
+	}
+
+	const result: IIIFAnnotationPage = {
+		type: 'AnnotationPage',
+		items: toArray(list['items'] ?? list['resources']) as IIIFAnnotation[]
+	};
+	const id = readId(list);
+	if (id) result.id = id;
+	return result;
+}
+
+/**
+ * Checks whether a manifest uses the Presentation 2 context or the `sc:Manifest` type.
+ */
+export function isPresentation2Manifest(manifest: unknown): boolean {
+	if (!isObject(manifest)) {
+		return false;
+	}
+	return (
+		manifest['@type'] === 'sc:Manifest' ||
+		toArray(manifest['@context']).some(
+			(context) => typeof context === 'string' && CONTEXT_PATTERN.test(context)
+		)
+	);
+}
+
+/**
+ * Converts a Presentation 2 property value (strings and `@value`/`@language`
+ * objects) into a language map. Values without a language go under `none`.
+ */
+function fromPresentation2Value(value: unknown): LanguageMap | undefined {
+	const map: LanguageMap = {};
+	for (const entry of toArray(value)) {
+		const text = isObject(entry) ? entry['@value'] : entry;
+		if (typeof text !== 'string') {
+			continue;
+		}
+		const language = isObject(entry) ? entry['@language'] : undefined;
+		(map[typeof language === 'string' ? language : 'none'] ??= []).push(text);
+	}
+	return Object.keys(map).length > 0 ? map : undefined;
+}
+
+/**
+ * Lists the canvases and child ranges of a Presentation 2 range in order.
+ * `members` holds both; otherwise `canvases` come before `ranges`.
+ */
+function rangeItemSources(range: JsonObject): RangeItemSource[] {
+	if (Array.isArray(range['members'])) {
+		return range['members'].flatMap((member: unknown, index): RangeItemSource[] => {
+			const id = readReference(member);
+			const type = isObject(member) ? readType(member) : undefined;
+			if (!id || (type !== 'Canvas' && type !== 'Range')) {
+				return [];
+			}
+			const idToken = isObject(member) && '@id' in member ? '@id' : 'id';
+			return [{ item: { id, type }, tokens: ['members', index], idToken }];
+		});
+	}
+
+	const sources: RangeItemSource[] = [];
+	for (const [key, type] of [
+		['canvases', 'Canvas'],
+		['ranges', 'Range']
+	] as const) {
+		toArray(range[key]).forEach((value, index) => {
+			const id = readReference(value);
+			if (!id) {
+				return;
+			}
+			const source: RangeItemSource = { item: { id, type }, tokens: [key, index] };
+			if (isObject(value)) source.idToken = '@id' in value ? '@id' : 'id';
+			sources.push(source);
+		});
+	}
+	return sources;
+}
+
+/**
+ * Converts a Presentation 2 range into a Presentation 3 range.
+ */
+function fromPresentation2Range(range: unknown): ConvertedRange | null {
+	if (!isObject(range)) {
+		return null;
+	}
+
+	const result: ConvertedRange = {
+		id: readId(range) ?? '',
+		type: 'Range',
+		items: rangeItemSources(range).map((source) => source.item)
+	};
+
+	const label = fromPresentation2Value(range['label']);
+	if (label) result.label = label;
+
+	const thumbnails = toArray(range['thumbnail'])
+		.map(readReference)
+		.filter((id): id is string => id !== undefined);
+	if (thumbnails.length > 0) result.thumbnail = thumbnails.map((id) => ({ id, type: 'Image' }));
+
+	const metadata = toArray(range['metadata']).flatMap((entry): MetadataEntry[] => {
+		if (!isObject(entry)) {
+			return [];
+		}
+		const value = fromPresentation2Value(entry['value']);
+		return value ? [{ label: fromPresentation2Value(entry['label']) ?? {}, value }] : [];
+	});
+	if (metadata.length > 0) result.metadata = metadata;
+
+	// `top` has no Presentation 3 behavior: top-level ranges are those in `structures`
+	const behavior = toArray(range['viewingHint']).filter(
+		(hint): hint is string => typeof hint === 'string' && hint !== 'top'
+	);
+	if (behavior.length > 0) result.behavior = behavior;
+	const summary = fromPresentation2Value(range['description']);
+	if (summary) result.summary = summary;
+	const attribution = fromPresentation2Value(range['attribution']);
+	if (attribution)
+		result.requiredStatement = { label: { none: ['Attribution'] }, value: attribution };
+
+	for (const [key, property] of [
+		['rendering', 'rendering'],
+		['seeAlso', 'seeAlso'],
+		['homepage', 'related']
+	] as const) {
+		const links = toArray(range[property]).flatMap(fromPresentation2Link);
+		if (links.length > 0) result[key] = links;
+	}
+
+	return result;
+}
+
+/**
+ * Converts a resource of a Presentation 2 linking property (a URI or an object with `@id`).
+ */
+function fromPresentation2Link(link: unknown): ConvertedLink[] {
+	const id = readReference(link);
+	if (!id) {
+		return [];
+	}
+	const result: ConvertedLink = { id };
+	if (isObject(link)) {
+		const label = fromPresentation2Value(link['label']);
+		if (label) result.label = label;
+		if (typeof link['format'] === 'string') result.format = link['format'];
+		if (typeof link['profile'] === 'string') result.profile = link['profile'];
+	}
+	return [result];
+}
+
+/**
+ * Converts a Presentation 2 manifest into the Presentation 3 shape read by the range parser.
+ *
+ * Canvases of all `sequences` (first occurrence of each id) become `items`,
+ * keeping their `duration`. Every range stays at its position in `structures`,
+ * with its canvases and child range references in `items`; use
+ * {@link presentation2TopRanges} to find the top-level ones.
+ *
+ * @param manifest - Manifest using Presentation 2 vocabulary (see {@link isPresentation2Manifest})
+ * @returns Equivalent manifest, or undefined if it is not an object
+ */
+export function fromPresentation2Manifest(manifest: unknown): ConvertedManifest | undefined {
+	if (!isObject(manifest)) {
+		return undefined;
+	}
+
+	const canvases = new Map<string, ConvertedManifest['items'][number]>();
+	for (const sequence of toArray(manifest['sequences'])) {
+		for (const canvas of isObject(sequence) ? toArray(sequence['canvases']) : []) {
+			const id = isObject(canvas) ? readId(canvas) : undefined;
+			if (!id || canvases.has(id)) {
+				continue;
+			}
+			const duration = (canvas as JsonObject)['duration'];
+			canvases.set(
+				id,
+				typeof duration === 'number' ? { id, type: 'Canvas', duration } : { id, type: 'Canvas' }
+			);
+		}
+	}
+
+	const result: ConvertedManifest = {
+		id: readId(manifest) ?? '',
+		type: 'Manifest',
+		items: [...canvases.values()],
+		structures: toArray(manifest['structures']).map(fromPresentation2Range)
+	};
+	const label = fromPresentation2Value(manifest['label']);
+	if (label) result.label = label;
+	return result;
+}
+
+/**
+ * Lists the ids of a Presentation 2 manifest's top-level ranges.
+ *
+ * Presentation 2 lists every range in `structures` and nests them through
+ * references. Ranges with `viewingHint: top` form the top level if there are
+ * any; otherwise it is every range that no other range refers to.
+ *
+ * @param manifest - Manifest using Presentation 2 vocabulary
+ * @returns Ids of the top-level ranges
+ */
+export function presentation2TopRanges(manifest: unknown): Set<string> {
+	const ranges = isObject(manifest) ? toArray(manifest['structures']).filter(isObject) : [];
+
+	const top = ranges.filter((range) => toArray(range['viewingHint']).includes('top'));
+	if (top.length > 0) {
+		return new Set(top.map(readId).filter((id): id is string => id !== undefined));
+	}
+
+	const referenced = new Set(
+		ranges.flatMap((range) =>
+			rangeItemSources(range)
+				.filter((source) => source.item.type === 'Range')
+				.map((source) => source.item.id)
+		)
+	);
+	return new Set(
+		ranges.map(readId).filter((id): id is string => id !== undefined && !referenced.has(id))
+	);
+}
+
+/**
+ * Maps a JSON Pointer into a converted manifest (see {@link fromPresentation2Manifest})
+ * back to the Presentation 2 manifest it came from.
+ *
+ * Ranges keep their position, so only pointers into a range's `items` change:
+ * `/structures/0/items/2/id` becomes e.g. `/structures/0/canvases/2` or
+ * `/structures/0/members/2/@id`.
+ *
+ * @param manifest - Manifest using Presentation 2 vocabulary
+ * @param pointer - Pointer into the converted manifest
+ * @returns Pointer into `manifest`
+ */
+export function toPresentation2Pointer(manifest: unknown, pointer: string): string {
+	const [, structures, rangeIndex, items, itemIndex, ...rest] = pointer.split('/');
+	if (structures !== 'structures' || items !== 'items' || !isObject(manifest)) {
+		return pointer;
+	}
+
+	const range = toArray(manifest['structures'])[Number(rangeIndex)];
+	const source = isObject(range) ? rangeItemSources(range)[Number(itemIndex)] : undefined;
+	if (!source) {
+		return pointer;
+	}
+
+	// The converted item's `id` is the string itself or the object's `@id`
+	const [first, ...tail] = rest;
+	const suffix = first === 'id' ? [...(source.idToken ? [source.idToken] : []), ...tail] : rest;
+	return ['', structures, rangeIndex, ...source.tokens, ...suffix].join('/');
+}
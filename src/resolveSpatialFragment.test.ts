@@ -0,0 +1,193 @@
+/**
+ * Tests for spatial fragment resolution against canvas and media dimensions
+ *
+ * @see https://www.w3.org/TR/media-frags/#naming-space
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveSpatialFragment, projectToMedia } from './resolveSpatialFragment.js';
+import { parseMediaFragment } from './parseAnnotationTarget.js';
+
+const canvas = { width: 1920, height: 1080 };
+
+describe('resolveSpatialFragment', () => {
+	it('should convert percent regions to canvas pixels', () => {
+		const region = resolveSpatialFragment(
+			{ x: 25, y: 50, width: 50, height: 50, unit: 'percent' },
+			canvas
+		);
+
+		expect(region).toEqual({
+			pixel: { x: 480, y: 540, width: 960, height: 540 },
+			normalized: { x: 0.25, y: 0.5, width: 0.5, height: 0.5 },
+			outOfBounds: false
+		});
+	});
+
+	it('should normalize pixel regions', () => {
+		const region = resolveSpatialFragment(
+			{ x: 192, y: 108, width: 960, height: 540, unit: 'pixel' },
+			canvas
+		);
+
+		expect(region?.pixel).toEqual({ x: 192, y: 108, width: 960, height: 540 });
+		expect(region?.normalized).toEqual({ x: 0.1, y: 0.1, width: 0.5, height: 0.5 });
+	});
+
+	it('should accept parsed fragments', () => {
+		const { spatial } = parseMediaFragment('https://example.org/canvas#xywh=percent:30,0,70,100');
+		const region = resolveSpatialFragment(spatial!, { width: 333, height: 77 });
+
+		expect(region?.outOfBounds).toBe(false);
+		expect(region!.pixel.x + region!.pixel.width).toBeCloseTo(333, 9);
+	});
+
+	it('should clamp pixel regions extending beyond the canvas', () => {
+		const region = resolveSpatialFragment(
+			{ x: 1800, y: 1000, width: 400, height: 200, unit: 'pixel' },
+			canvas
+		);
+
+		expect(region?.outOfBounds).toBe(true);
+		expect(region?.pixel).toEqual({ x: 1800, y: 1000, width: 120, height: 80 });
+	});
+
+	it('should collapse regions entirely outside the canvas to the nearest edge', () => {
+		const region = resolveSpatialFragment(
+			{ x: 3000, y: 10, width: 100, height: 100, unit: 'pixel' },
+			canvas
+		);
+
+		expect(region?.outOfBounds).toBe(true);
+		expect(region?.pixel).toEqual({ x: 1920, y: 10, width: 0, height: 100 });
+	});
+
+	it('should only flag out-of-canvas regions when clamping is disabled', () => {
+		const region = resolveSpatialFragment(
+			{ x: 1800, y: 0, width: 240, height: 1080, unit: 'pixel' },
+			canvas,
+			{ clamp: false }
+		);
+
+		expect(region?.outOfBounds).toBe(true);
+		expect(region?.pixel).toEqual({ x: 1800, y: 0, width: 240, height: 1080 });
+		expect(region?.normalized.width).toBe(0.125);
+	});
+
+	it('should resolve points on the canvas edge', () => {
+		const region = resolveSpatialFragment(
+			{ x: 1920, y: 1080, width: 0, height: 0, unit: 'pixel', kind: 'point' },
+			canvas
+		);
+
+		expect(region).toEqual({
+			pixel: { x: 1920, y: 1080, width: 0, height: 0 },
+			normalized: { x: 1, y: 1, width: 0, height: 0 },
+			outOfBounds: false
+		});
+	});
+
+	it.each([
+		{ width: 0, height: 1080 },
+		{ width: 1920, height: -1 },
+		{ width: NaN, height: 1080 },
+		{ width: Infinity, height: 1080 }
+	])('should return undefined for canvas size %j', (size) => {
+		const region = resolveSpatialFragment({ x: 0, y: 0, width: 1, height: 1, unit: 'pixel' }, size);
+
+		expect(region).toBeUndefined();
+	});
+});
+
+describe('projectToMedia', () => {
+	it('should scale regions when media fills a differently sized canvas', () => {
+		const region = projectToMedia(
+			{ x: 160, y: 90, width: 320, height: 180, unit: 'pixel' },
+			{ width: 640, height: 360 },
+			{ width: 1920, height: 1080 }
+		);
+
+		expect(region).toEqual({
+			pixel: { x: 480, y: 270, width: 960, height: 540 },
+			normalized: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 },
+			outOfBounds: false
+		});
+	});
+
+	it('should offset and scale into media painted on part of the canvas', () => {
+		const region = projectToMedia(
+			{ x: 1500, y: 250, width: 500, height: 500, unit: 'pixel' },
+			{ width: 2000, height: 1000 },
+			{
+				width: 1920,
+				height: 1080,
+				target: { x: 1000, y: 0, width: 1000, height: 1000, unit: 'pixel' }
+			}
+		);
+
+		expect(region).toEqual({
+			pixel: { x: 960, y: 270, width: 960, height: 540 },
+			normalized: { x: 0.5, y: 0.25, width: 0.5, height: 0.5 },
+			outOfBounds: false
+		});
+	});
+
+	it('should resolve percent regions and percent painting targets against the canvas', () => {
+		const region = projectToMedia(
+			{ x: 50, y: 0, width: 25, height: 50, unit: 'percent' },
+			{ width: 2000, height: 1000 },
+			{
+				width: 1000,
+				height: 500,
+				target: { x: 50, y: 0, width: 50, height: 50, unit: 'percent' }
+			}
+		);
+
+		expect(region?.pixel).toEqual({ x: 0, y: 0, width: 500, height: 500 });
+		expect(region?.outOfBounds).toBe(false);
+	});
+
+	it('should clamp regions that extend beyond the painted media', () => {
+		const region = projectToMedia(
+			{ x: 500, y: 0, width: 1000, height: 500, unit: 'pixel' },
+			{ width: 2000, height: 1000 },
+			{
+				width: 1000,
+				height: 1000,
+				target: { x: 1000, y: 0, width: 1000, height: 1000, unit: 'pixel' }
+			}
+		);
+
+		expect(region?.outOfBounds).toBe(true);
+		expect(region?.pixel).toEqual({ x: 0, y: 0, width: 500, height: 500 });
+	});
+
+	it('should keep projected coordinates outside the media when clamping is disabled', () => {
+		const region = projectToMedia(
+			{ x: 500, y: 0, width: 1000, height: 500, unit: 'pixel' },
+			{ width: 2000, height: 1000 },
+			{
+				width: 1000,
+				height: 1000,
+				target: { x: 1000, y: 0, width: 1000, height: 1000, unit: 'pixel' }
+			},
+			{ clamp: false }
+		);
+
+		expect(region?.pixel).toEqual({ x: -500, y: 0, width: 1000, height: 500 });
+		expect(region?.normalized.x).toBe(-0.5);
+	});
+
+	it('should return undefined for an empty painted area or media size', () => {
+		const spatial = { x: 0, y: 0, width: 10, height: 10, unit: 'pixel' as const };
+
+		expect(
+			projectToMedia(spatial, canvas, {
+				width: 100,
+				height: 100,
+				target: { x: 0, y: 0, width: 0, height: 10, unit: 'pixel' }
+			})
+		).toBeUndefined();
+		expect(projectToMedia(spatial, canvas, { width: 0, height: 100 })).toBeUndefined();
+	});
+});
@@ -0,0 +1,202 @@
+/**
+ * Spatial Fragment Resolution
+ *
+ * Resolves `xywh` regions against canvas dimensions, converting between pixel
+ * and percent units, and projects canvas regions into the pixel space of media
+ * painted onto the canvas (which may be larger, smaller, or placed in only part
+ * of the canvas).
+ *
+ * @see https://www.w3.org/TR/media-frags/#naming-space
+ * @see https://iiif.io/api/presentation/3.0/#57-annotation
+ */
+
+import type {
+	BoundingBox,
+	Size,
+	SpatialFragment,
+	ResolvedRegion,
+	ResolveRegionOptions,
+	PaintedMedia
+} from './types.js';
+
+/**
+ * Tolerance for the out-of-bounds check, as a fraction of the reference size.
+ * Absorbs floating-point noise from percent conversion (`30% + 70%` of 333px).
+ */
+const BOUNDS_TOLERANCE = 1e-9;
+
+/**
+ * Checks that a size has finite, positive dimensions.
+ */
+function isValidSize(size: Size): boolean {
+	return (
+		Number.isFinite(size.width) && Number.isFinite(size.height) && size.width > 0 && size.height > 0
+	);
+}
+
+/**
+ * Converts a spatial fragment to pixels of the given canvas, without clamping.
+ */
+function toCanvasPixels(spatial: SpatialFragment, canvas: Size): BoundingBox {
+	if (spatial.unit === 'pixel') {
+		return { x: spatial.x, y: spatial.y, width: spatial.width, height: spatial.height };
+	}
+	return {
+		x: (spatial.x / 100) * canvas.width,
+		y: (spatial.y / 100) * canvas.height,
+		width: (spatial.width / 100) * canvas.width,
+		height: (spatial.height / 100) * canvas.height
+	};
+}
+
+/**
+ * Clips a rectangle to `[0, width] × [0, height]`.
+ * Regions entirely outside collapse to zero size on the nearest edge.
+ */
+function clampRect(rect: BoundingBox, size: Size): BoundingBox {
+	const clampX = (value: number) => Math.min(Math.max(value, 0), size.width);
+	const clampY = (value: number) => Math.min(Math.max(value, 0), size.height);
+
+	const x = clampX(rect.x);
+	const y = clampY(rect.y);
+	return {
+		x,
+		y,
+		width: clampX(rect.x + rect.width) - x,
+		height: clampY(rect.y + rect.height) - y
+	};
+}
+
+/**
+ * Fits a pixel rectangle into a reference space and adds its normalized form.
+ */
+function fitToSize(rect: BoundingBox, size: Size, options: ResolveRegionOptions): ResolvedRegion {
+	const toleranceX = size.width * BOUNDS_TOLERANCE;
+	const toleranceY = size.height * BOUNDS_TOLERANCE;
+	const outOfBounds =
+		rect.x < -toleranceX ||
+		rect.y < -toleranceY ||
+		rect.x + rect.width > size.width + toleranceX ||
+		rect.y + rect.height > size.height + toleranceY;
+
+	const pixel = options.clamp === false ? rect : clampRect(rect, size);
+
+	return {
+		pixel,
+		normalized: {
+			x: pixel.x / size.width,
+			y: pixel.y / size.height,
+			width: pixel.width / size.width,
+			height: pixel.height / size.height
+		},
+		outOfBounds
+	};
+}
+
+/**
+ * Resolves a spatial fragment against canvas dimensions.
+ *
+ * Percent regions are converted to canvas pixels; both units also get a
+ * normalized (0–1) form for resolution-independent rendering.
+ *
+ * Pixel regions that extend beyond the canvas are flagged with `outOfBounds`
+ * and, unless `options.clamp` is `false`, clipped to the canvas. (Percent
+ * regions are validated by the parser and always fit.)
+ *
+ * @param spatial - Spatial fragment (e.g. from {@link parseMediaFragment})
+ * @param canvas - Canvas width and height
+ * @param options - Resolution options
+ * @returns Resolved region, or undefined if the canvas size is not positive
+ *
+ * @example
+ * ```typescript
+ * resolveSpatialFragment(
+ *   { x: 25, y: 50, width: 50, height: 50, unit: 'percent' },
+ *   { width: 1920, height: 1080 }
+ * )
+ * // => {
+ * //   pixel: { x: 480, y: 540, width: 960, height: 540 },
+ * //   normalized: { x: 0.25, y: 0.5, width: 0.5, height: 0.5 },
+ * //   outOfBounds: false
+ * // }
+ * ```
+ */
+export function resolveSpatialFragment(
+	spatial: SpatialFragment,
+	canvas: Size,
+	options: ResolveRegionOptions = {}
+): ResolvedRegion | undefined {
+	if (!isValidSize(canvas)) {
+		return undefined;
+	}
+
+	return fitToSize(toCanvasPixels(spatial, canvas), canvas, options);
+}
+
+/**
+ * Projects a canvas region into the pixel space of a painted media item.
+ *
+ * IIIF canvases define their own coordinate space, independent of the media
+ * painted onto them: a 1920×1080 video can be painted onto a 640×360 canvas,
+ * or into just the `xywh` region named by the painting annotation's target.
+ * This maps the region from canvas coordinates into the media item's own
+ * pixels, scaling each axis independently.
+ *
+ * Parts of the region outside the painted media are flagged with
+ * `outOfBounds` and, unless `options.clamp` is `false`, clipped to the media.
+ *
+ * @param spatial - Region in canvas space (e.g. an annotation target's `xywh`)
+ * @param canvas - Canvas width and height
+ * @param media - Painted media size, and where on the canvas it is painted
+ * @param options - Resolution options
+ * @returns Region in media pixels, or undefined if a size or the painted area is empty
+ *
+ * @example
+ * ```typescript
+ * // 1920x1080 video painted into the right half of a 2000x1000 canvas
+ * projectToMedia(
+ *   { x: 1500, y: 250, width: 500, height: 500, unit: 'pixel' },
+ *   { width: 2000, height: 1000 },
+ *   {
+ *     width: 1920,
+ *     height: 1080,
+ *     target: { x: 1000, y: 0, width: 1000, height: 1000, unit: 'pixel' }
+ *   }
+ * )
+ * // => {
+ * //   pixel: { x: 960, y: 270, width: 960, height: 540 },
+ * //   normalized: { x: 0.5, y: 0.25, width: 0.5, height: 0.5 },
+ * //   outOfBounds: false
+ * // }
+ * ```
+ */
+export function projectToMedia(
+	spatial: SpatialFragment,
+	canvas: Size,
+	media: PaintedMedia,
+	options: ResolveRegionOptions = {}
+): ResolvedRegion | undefined {
+	if (!isValidSize(canvas) || !isValidSize(media)) {
+		return undefined;
+	}
+
+	const painted = media.target
+		? toCanvasPixels(media.target, canvas)
+		: { x: 0, y: 0, width: canvas.width, height: canvas.height };
+	if (!isValidSize(painted)) {
+		return undefined;
+	}
+
+	const region = toCanvasPixels(spatial, canvas);
+	const scaleX = media.width / painted.width;
+	const scaleY = media.height / painted.height;
+
+	const projected: BoundingBox = {
+		x: (region.x - painted.x) * scaleX,
+		y: (region.y - painted.y) * scaleY,
+		width: region.width * scaleX,
+		height: region.height * scaleY
+	};
+
+	return fitToSize(projected, { width: media.width, height: media.height }, options);
+}
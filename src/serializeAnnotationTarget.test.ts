@@ -0,0 +1,342 @@
+/**
+ * Tests for IIIF Annotation Target Serialization
+ *
+ * Serializers must be exact inverses of the parsers:
+ * @see https://www.w3.org/TR/media-frags/
+ */
+
+import { describe, it, expect } from 'vitest';
+import { serializeMediaFragment, toSpecificResource } from './serializeAnnotationTarget.js';
+import { parseMediaFragment, parseAnnotationTarget } from './parseAnnotationTarget.js';
+import type { ParsedAnnotationTarget } from './types.js';
+
+describe('serializeMediaFragment', () => {
+	describe('temporal fragments', () => {
+		it('should serialize start and end: #t=10,20', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				temporal: { start: 10, end: 20 }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#t=10,20');
+		});
+
+		it('should serialize start only: #t=10', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				temporal: { start: 10, format: 'npt' }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#t=10');
+		});
+
+		it('should use minimal decimals', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				temporal: { start: 0.1 + 0.2, end: 302.05 }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#t=0.3,302.05');
+		});
+
+		it('should never use exponent notation', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				temporal: { start: 1e-7 }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#t=0.0000001');
+		});
+
+		it('should keep the smpte format of the parsed fragment', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				temporal: { start: 90 + 12 / 25, end: 120, format: 'smpte-25' }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#t=smpte-25:00:01:30:12,00:02:00');
+		});
+
+		it('should relabel drop-frame time codes', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				temporal: { start: (1800 * 1001) / 30000, format: 'smpte-30-drop' }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#t=smpte-30-drop:00:01:00:02');
+		});
+
+		it('should serialize clock times as UTC without zero milliseconds', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				temporal: {
+					start: Date.UTC(2011, 9, 1, 23, 0, 45) / 1000,
+					end: Date.UTC(2011, 9, 1, 23, 1, 0, 500) / 1000,
+					format: 'clock'
+				}
+			});
+
+			expect(uri).toBe(
+				'https://example.org/canvas#t=clock:2011-10-01T23:00:45Z,2011-10-01T23:01:00.500Z'
+			);
+		});
+	});
+
+	describe('spatial fragments', () => {
+		it('should omit the pixel unit by default', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				spatial: { x: 100, y: 200, width: 50, height: 75, unit: 'pixel' }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#xywh=100,200,50,75');
+		});
+
+		it('should emit the pixel unit when requested', () => {
+			const uri = serializeMediaFragment(
+				{
+					source: 'https://example.org/canvas',
+					spatial: { x: 100, y: 200, width: 50, height: 75, unit: 'pixel' }
+				},
+				{ pixelUnit: true }
+			);
+
+			expect(uri).toBe('https://example.org/canvas#xywh=pixel:100,200,50,75');
+		});
+
+		it('should always emit the percent unit', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				spatial: { x: 10.5, y: 20, width: 30, height: 40, unit: 'percent' }
+			});
+
+			expect(uri).toBe('https://example.org/canvas#xywh=percent:10.5,20,30,40');
+		});
+	});
+
+	describe('track, id and combined dimensions', () => {
+		it('should percent-encode track and id', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/video',
+				track: 'audio & commentary',
+				id: 'été=1'
+			});
+
+			expect(uri).toBe(
+				'https://example.org/video#track=audio%20%26%20commentary&id=%C3%A9t%C3%A9%3D1'
+			);
+		});
+
+		it('should write dimensions in canonical order', () => {
+			const uri = serializeMediaFragment({
+				id: 'chapter-1',
+				track: 'sign',
+				spatial: { x: 1, y: 2, width: 3, height: 4, unit: 'pixel' },
+				temporal: { start: 10, end: 20 },
+				source: 'https://example.org/video'
+			});
+
+			expect(uri).toBe('https://example.org/video#t=10,20&xywh=1,2,3,4&track=sign&id=chapter-1');
+		});
+
+		it('should return the bare source without dimensions', () => {
+			const uri = serializeMediaFragment({
+				source: 'https://example.org/canvas',
+				invalidDimensions: ['t']
+			});
+
+			expect(uri).toBe('https://example.org/canvas');
+		});
+	});
+});
+
+describe('toSpecificResource', () => {
+	it('should build a FragmentSelector conforming to media fragments', () => {
+		const resource = toSpecificResource({
+			source: 'https://example.org/canvas',
+			temporal: { start: 10, end: 20 }
+		});
+
+		expect(resource).toEqual({
+			type: 'SpecificResource',
+			source: 'https://example.org/canvas',
+			selector: {
+				type: 'FragmentSelector',
+				conformsTo: 'http://www.w3.org/TR/media-frags/',
+				value: 't=10,20'
+			}
+		});
+	});
+
+	it('should omit the selector without dimensions', () => {
+		const resource = toSpecificResource({ source: 'https://example.org/canvas' });
+
+		expect(resource).toEqual({ type: 'SpecificResource', source: 'https://example.org/canvas' });
+	});
+
+	it('should build a PointSelector for instants and points', () => {
+		const resource = toSpecificResource({
+			source: 'https://example.org/canvas',
+			temporal: { start: 27.5, end: 27.5, format: 'npt', kind: 'instant' },
+			spatial: { x: 10, y: 20, width: 0, height: 0, unit: 'pixel', kind: 'point' }
+		});
+
+		expect(resource).toEqual({
+			type: 'SpecificResource',
+			source: 'https://example.org/canvas',
+			selector: { type: 'PointSelector', t: 27.5, x: 10, y: 20 }
+		});
+	});
+
+	it('should fall back to a FragmentSelector when points mix with ranges', () => {
+		const resource = toSpecificResource({
+			source: 'https://example.org/canvas',
+			temporal: { start: 10, end: 20 },
+			spatial: { x: 10, y: 20, width: 0, height: 0, unit: 'pixel', kind: 'point' }
+		});
+
+		expect(resource.selector).toMatchObject({
+			type: 'FragmentSelector',
+			value: 't=10,20&xywh=10,20,0,0'
+		});
+	});
+
+	it('should build an SvgSelector for geometry', () => {
+		const target = parseAnnotationTarget({
+			type: 'SpecificResource',
+			source: 'https://example.org/canvas',
+			selector: {
+				type: 'SvgSelector',
+				value: '<svg><polygon points="0,0 10,0 10,5.5"/><circle cx="50" cy="50" r="5"/></svg>'
+			}
+		});
+
+		expect(toSpecificResource(target!)).toEqual({
+			type: 'SpecificResource',
+			source: 'https://example.org/canvas',
+			selector: {
+				type: 'SvgSelector',
+				value:
+					'<svg xmlns="http://www.w3.org/2000/svg"><polygon points="0,0 10,0 10,5.5"/><circle cx="50" cy="50" r="5"/></svg>'
+			}
+		});
+	});
+
+	it('should refine a FragmentSelector by an SvgSelector for geometry with other dimensions', () => {
+		const target = parseAnnotationTarget({
+			type: 'SpecificResource',
+			source: 'https://example.org/canvas',
+			selector: {
+				type: 'FragmentSelector',
+				value: 't=10,20&track=en',
+				refinedBy: { type: 'SvgSelector', value: '<svg><path d="M0 0 L10 10 Z"/></svg>' }
+			}
+		});
+
+		const resource = toSpecificResource(target!);
+
+		expect(resource.selector).toEqual({
+			type: 'FragmentSelector',
+			conformsTo: 'http://www.w3.org/TR/media-frags/',
+			value: 't=10,20&track=en',
+			refinedBy: {
+				type: 'SvgSelector',
+				value: '<svg xmlns="http://www.w3.org/2000/svg"><path d="M0 0 L10 10 Z"/></svg>'
+			}
+		});
+		expect(parseAnnotationTarget(resource)).toEqual(target);
+	});
+
+	it('should emit an object source when sourceType is given', () => {
+		const resource = toSpecificResource(
+			{ source: 'https://example.org/canvas', temporal: { start: 5 } },
+			{ sourceType: 'Canvas' }
+		);
+
+		expect(resource.source).toEqual({ id: 'https://example.org/canvas', type: 'Canvas' });
+	});
+});
+
+describe('round trips', () => {
+	const canonicalUris = [
+		'https://example.org/canvas',
+		'https://example.org/canvas#t=10,20',
+		'https://example.org/canvas#t=10',
+		'https://example.org/canvas#t=0,302.05',
+		'https://example.org/canvas#t=95,95',
+		'https://example.org/canvas?quality=high#t=10.5,25.75',
+		'https://example.org/canvas#t=smpte:00:00:10:15',
+		'https://example.org/canvas#t=smpte-25:00:01:30:12.50,01:00:00',
+		'https://example.org/canvas#t=smpte-30-drop:00:01:00:02,00:10:00',
+		'https://example.org/canvas#t=clock:2011-10-01T23:00:45Z,2011-10-01T23:01:00.250Z',
+		'https://example.org/canvas#xywh=100,200,50,75',
+		'https://example.org/canvas#xywh=percent:10,20,30,40',
+		'https://example.org/video#t=10,20&xywh=percent:0,0,50,50&track=audio_fr&id=chapter%201'
+	];
+
+	it.each(canonicalUris)('serialize(parse(uri)) === uri for %s', (uri) => {
+		expect(serializeMediaFragment(parseMediaFragment(uri))).toBe(uri);
+	});
+
+	const targets: ParsedAnnotationTarget[] = [
+		{ source: 'https://example.org/canvas' },
+		{ source: 'https://example.org/canvas', temporal: { start: 0, end: 30, format: 'npt' } },
+		{ source: 'https://example.org/canvas', temporal: { start: 3971.24, format: 'npt' } },
+		{
+			source: 'https://example.org/canvas',
+			temporal: { start: 90.48, end: 3600, format: 'smpte-25' }
+		},
+		{
+			source: 'https://example.org/canvas',
+			temporal: { start: (17982 * 1001) / 30000, format: 'smpte-30-drop' }
+		},
+		{
+			source: 'https://example.org/canvas',
+			spatial: { x: 10.5, y: 0, width: 89.5, height: 100, unit: 'percent' }
+		},
+		{
+			source: 'https://example.org/canvas',
+			temporal: { start: 12, end: 12, format: 'npt', kind: 'instant' },
+			spatial: { x: 5, y: 6, width: 0, height: 0, unit: 'pixel', kind: 'point' }
+		},
+		{
+			source: 'https://example.org/video',
+			temporal: { start: 1, end: 2, format: 'npt' },
+			spatial: { x: 1, y: 2, width: 3, height: 4, unit: 'pixel' },
+			track: "Director's Commentary",
+			id: 'été'
+		}
+	];
+
+	// Media fragments drop the point/instant kind; toSpecificResource keeps it
+	const fragmentTargets = targets.filter((t) => !t.temporal?.kind && !t.spatial?.kind);
+
+	it.each(fragmentTargets)('parse(serialize(target)) equals target for %j', (target) => {
+		const reparsed = parseMediaFragment(serializeMediaFragment(target));
+
+		expect(reparsed.source).toBe(target.source);
+		expect(reparsed.spatial).toEqual(target.spatial);
+		expect(reparsed.track).toBe(target.track);
+		expect(reparsed.id).toBe(target.id);
+		if (target.temporal) {
+			expect(reparsed.temporal?.format).toBe(target.temporal.format);
+			expect(reparsed.temporal?.start).toBeCloseTo(target.temporal.start, 9);
+			expect(reparsed.temporal?.end).toBe(target.temporal.end);
+		} else {
+			expect(reparsed.temporal).toBeUndefined();
+		}
+	});
+
+	it.each(targets)(
+		'parseAnnotationTarget(toSpecificResource(target)) equals target for %j',
+		(target) => {
+			const reparsed = parseAnnotationTarget(toSpecificResource(target));
+
+			if (fragmentTargets.includes(target)) {
+				expect(reparsed).toEqual(parseMediaFragment(serializeMediaFragment(target)));
+			} else {
+				expect(reparsed).toEqual(target);
+			}
+		}
+	);
+});
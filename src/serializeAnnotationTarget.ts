@@ -0,0 +1,325 @@
+/**
+ * IIIF Annotation Target Serializer
+ *
+ * Turns parsed annotation targets back into W3C Media Fragment URIs and
+ * SpecificResource objects. Output is canonical and parses back to the
+ * same `ParsedAnnotationTarget` via `parseMediaFragment`/`parseAnnotationTarget`.
+ *
+ * @see https://www.w3.org/TR/media-frags/
+ * @see https://www.w3.org/TR/annotation-model/#specific-resources
+ */
+
+import type {
+	TemporalFragment,
+	TemporalFormat,
+	SpatialFragment,
+	ParsedAnnotationTarget,
+	AnnotationSelector,
+	SpecificResource,
+	SvgShape,
+	SvgGeometry,
+	SerializeOptions
+} from './types.js';
+import { SMPTE_FRAME_RATES } from './parseAnnotationTarget.js';
+
+/**
+ * `conformsTo` value for FragmentSelectors holding W3C Media Fragments.
+ */
+const MEDIA_FRAGMENTS_CONFORMS_TO = 'http://www.w3.org/TR/media-frags/';
+
+/**
+ * Formats a number with minimal decimals.
+ *
+ * Rounds to nanosecond precision to drop floating-point noise (`0.1 + 0.2`)
+ * and never uses exponent notation, which the fragment grammar does not allow.
+ *
+ * @example
+ * formatNumber(10)       // "10"
+ * formatNumber(10.50)    // "10.5"
+ * formatNumber(0.1 + 0.2) // "0.3"
+ */
+function formatNumber(value: number): string {
+	return value.toFixed(9).replace(/\.?0+$/, '');
+}
+
+/**
+ * Pads a time code field to two digits.
+ */
+function pad2(value: number): string {
+	return value.toString().padStart(2, '0');
+}
+
+/**
+ * Formats seconds as an SMPTE time code (`hh:mm:ss[:ff[.ss]]`).
+ *
+ * Frames and subframes are omitted when zero. For `smpte-30-drop`, the frame
+ * count at 29.97 fps is relabelled with the drop-frame numbering.
+ */
+function formatSmpteTime(
+	seconds: number,
+	format: Exclude<TemporalFormat, 'npt' | 'clock'>
+): string {
+	const fps = SMPTE_FRAME_RATES[format];
+	const drop = format === 'smpte-30-drop';
+
+	// Work in hundredths of a frame so subframes survive the round trip
+	const frameRate = drop ? 30000 / 1001 : fps;
+	const hundredths = Math.round(seconds * frameRate * 100);
+	let frameCount = Math.floor(hundredths / 100);
+	const subframes = hundredths % 100;
+
+	if (drop) {
+		// Skip frame labels 00 and 01 each minute, except every tenth minute
+		const tenMinuteBlocks = Math.floor(frameCount / 17982);
+		const remainder = frameCount % 17982;
+		frameCount +=
+			18 * tenMinuteBlocks + (remainder > 1 ? 2 * Math.floor((remainder - 2) / 1798) : 0);
+	}
+
+	const frames = frameCount % fps;
+	const totalSeconds = Math.floor(frameCount / fps);
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+	let result = `${pad2(hours)}:${pad2(minutes)}:${pad2(totalSeconds % 60)}`;
+	if (frames > 0 || subframes > 0) {
+		result += `:${pad2(frames)}`;
+	}
+	if (subframes > 0) {
+		result += `.${pad2(subframes)}`;
+	}
+	return result;
+}
+
+/**
+ * Formats seconds since the Unix epoch as an RFC 3339 UTC date-time,
+ * omitting milliseconds when they are zero.
+ */
+function formatClockTime(seconds: number): string {
+	return new Date(Math.round(seconds * 1000)).toISOString().replace('.000Z', 'Z');
+}
+
+/**
+ * Formats a single time value in the given format.
+ */
+function formatTimeValue(seconds: number, format: TemporalFormat): string {
+	if (format === 'npt') {
+		return formatNumber(seconds);
+	}
+	if (format === 'clock') {
+		return formatClockTime(seconds);
+	}
+	return formatSmpteTime(seconds, format);
+}
+
+/**
+ * Serializes a temporal fragment as a `t=` dimension.
+ *
+ * The `npt:` prefix is omitted (npt is the default); other formats keep
+ * their prefix so the time is expressed the way it was parsed.
+ */
+function serializeTemporal(temporal: TemporalFragment): string {
+	const format = temporal.format ?? 'npt';
+	const prefix = format === 'npt' ? '' : `${format}:`;
+	const start = formatTimeValue(temporal.start, format);
+
+	if (temporal.end === undefined) {
+		return `t=${prefix}${start}`;
+	}
+	return `t=${prefix}${start},${formatTimeValue(temporal.end, format)}`;
+}
+
+/**
+ * Serializes a spatial fragment as an `xywh=` dimension.
+ */
+function serializeSpatial(spatial: SpatialFragment, options: SerializeOptions): string {
+	let unit = '';
+	if (spatial.unit === 'percent') {
+		unit = 'percent:';
+	} else if (options.pixelUnit) {
+		unit = 'pixel:';
+	}
+
+	const values = [spatial.x, spatial.y, spatial.width, spatial.height].map(formatNumber);
+	return `xywh=${unit}${values.join(',')}`;
+}
+
+/**
+ * Serializes the fragment dimensions of a parsed target (without `#`).
+ *
+ * @returns Fragment string, or an empty string when the target has no dimensions
+ */
+function serializeFragment(target: ParsedAnnotationTarget, options: SerializeOptions): string {
+	const params: string[] = [];
+
+	if (target.temporal) params.push(serializeTemporal(target.temporal));
+	if (target.spatial) params.push(serializeSpatial(target.spatial, options));
+	if (target.track) params.push(`track=${encodeURIComponent(target.track)}`);
+	if (target.id) params.push(`id=${encodeURIComponent(target.id)}`);
+
+	return params.join('&');
+}
+
+/**
+ * Escapes a value for use inside a double-quoted XML attribute.
+ */
+function escapeAttribute(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Serializes one shape as an SVG element.
+ * Paths keep their original `d` attribute rather than the flattened outline.
+ */
+function serializeShape(shape: SvgShape): string {
+	switch (shape.type) {
+		case 'polygon': {
+			const points = shape.points
+				.map((point) => `${formatNumber(point.x)},${formatNumber(point.y)}`)
+				.join(' ');
+			return `<polygon points="${points}"/>`;
+		}
+		case 'rect':
+			return `<rect x="${formatNumber(shape.x)}" y="${formatNumber(shape.y)}" width="${formatNumber(shape.width)}" height="${formatNumber(shape.height)}"/>`;
+		case 'circle':
+			return `<circle cx="${formatNumber(shape.cx)}" cy="${formatNumber(shape.cy)}" r="${formatNumber(shape.r)}"/>`;
+		case 'ellipse':
+			return `<ellipse cx="${formatNumber(shape.cx)}" cy="${formatNumber(shape.cy)}" rx="${formatNumber(shape.rx)}" ry="${formatNumber(shape.ry)}"/>`;
+		case 'path':
+			return `<path d="${escapeAttribute(shape.d)}"/>`;
+	}
+}
+
+/**
+ * Serializes parsed geometry as an SvgSelector value.
+ */
+function serializeGeometry(geometry: SvgGeometry): string {
+	return `<svg xmlns="http://www.w3.org/2000/svg">${geometry.shapes.map(serializeShape).join('')}</svg>`;
+}
+
+/**
+ * Checks whether a target holds only PointSelector dimensions
+ * (an instant and/or a point, nothing else).
+ */
+function isPointTarget(target: ParsedAnnotationTarget): boolean {
+	const { temporal, spatial } = target;
+	if (!temporal && !spatial) {
+		return false;
+	}
+	return (
+		(!temporal || temporal.kind === 'instant') &&
+		(!spatial || spatial.kind === 'point') &&
+		!target.track &&
+		!target.id &&
+		!target.geometry
+	);
+}
+
+/**
+ * Serializes a parsed annotation target into a W3C Media Fragment URI.
+ *
+ * Inverse of {@link parseMediaFragment}. Output is canonical:
+ * - Dimensions in the order `t`, `xywh`, `track`, `id`
+ * - Numbers with minimal decimals (`10.5`, not `10.50`)
+ * - `npt:` and `pixel:` omitted (`pixel:` can be forced via `options.pixelUnit`)
+ * - `track` and `id` values percent-encoded
+ *
+ * @param target - Parsed annotation target
+ * @param options - Serialization options
+ * @returns Source URI with media fragment (or the bare source when there are no dimensions)
+ *
+ * @remarks
+ * `invalidDimensions` is not serialized; only valid dimensions are written.
+ * Media fragments cannot mark instants or points, so PointSelector targets
+ * serialize as `t=x,x` / `xywh=x,y,0,0`; use {@link toSpecificResource} to
+ * keep them as points.
+ *
+ * @example
+ * ```typescript
+ * serializeMediaFragment({
+ *   source: 'https://example.org/canvas',
+ *   temporal: { start: 10, end: 20 },
+ *   spatial: { x: 10, y: 20, width: 30, height: 40, unit: 'percent' }
+ * })
+ * // => 'https://example.org/canvas#t=10,20&xywh=percent:10,20,30,40'
+ * ```
+ */
+export function serializeMediaFragment(
+	target: ParsedAnnotationTarget,
+	options: SerializeOptions = {}
+): string {
+	const fragment = serializeFragment(target, options);
+	return fragment ? `${target.source}#${fragment}` : target.source;
+}
+
+/**
+ * Converts a parsed annotation target into a SpecificResource object.
+ *
+ * Inverse of {@link parseAnnotationTarget} for SpecificResource input. The
+ * fragment dimensions go into a `FragmentSelector` conforming to W3C Media
+ * Fragments; targets without dimensions produce a SpecificResource with no selector.
+ * Targets holding only an instant (`kind: 'instant'`) and/or a point
+ * (`kind: 'point'`) produce a `PointSelector`.
+ *
+ * Targets with SVG `geometry` produce an `SvgSelector` (the bounding box in
+ * `spatial` is not written separately). When the target has other dimensions,
+ * the `SvgSelector` refines a `FragmentSelector` holding them.
+ *
+ * @param target - Parsed annotation target
+ * @param options - Serialization options
+ * @returns SpecificResource object
+ *
+ * @example
+ * ```typescript
+ * toSpecificResource({ source: 'https://example.org/canvas', temporal: { start: 10, end: 20 } })
+ * // => {
+ * //   type: 'SpecificResource',
+ * //   source: 'https://example.org/canvas',
+ * //   selector: {
+ * //     type: 'FragmentSelector',
+ * //     conformsTo: 'http://www.w3.org/TR/media-frags/',
+ * //     value: 't=10,20'
+ * //   }
+ * // }
+ * ```
+ */
+export function toSpecificResource(
+	target: ParsedAnnotationTarget,
+	options: SerializeOptions = {}
+): SpecificResource {
+	const resource: SpecificResource = {
+		type: 'SpecificResource',
+		source: options.sourceType ? { id: target.source, type: options.sourceType } : target.source
+	};
+
+	if (isPointTarget(target)) {
+		resource.selector = { type: 'PointSelector' };
+		if (target.temporal) resource.selector.t = target.temporal.start;
+		if (target.spatial) {
+			resource.selector.x = target.spatial.x;
+			resource.selector.y = target.spatial.y;
+		}
+		return resource;
+	}
+
+	const svgSelector: AnnotationSelector | undefined = target.geometry
+		? { type: 'SvgSelector', value: serializeGeometry(target.geometry) }
+		: undefined;
+
+	// The SvgSelector carries the region; the bounding box would be redundant
+	const { spatial: _bounds, ...withoutRegion } = target;
+	const fragment = serializeFragment(svgSelector ? withoutRegion : target, options);
+
+	if (fragment) {
+		resource.selector = {
+			type: 'FragmentSelector',
+			conformsTo: MEDIA_FRAGMENTS_CONFORMS_TO,
+			value: fragment
+		};
+		if (svgSelector) resource.selector.refinedBy = svgSelector;
+	} else if (svgSelector) {
+		resource.selector = svgSelector;
+	}
+
+	return resource;
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { createTemporalIndex } from './temporalIndex.js';
+import type { Chapter, SpeakerSegment, TemporalFragment } from './types.js';
+
+const chapters: Chapter[] = [
+	{ id: 'intro', label: 'Introduction', startTime: 0, endTime: 60 },
+	{ id: 'early', label: 'Early Life', startTime: 60, endTime: 300 },
+	{ id: 'career', label: 'Career', startTime: 300, endTime: 900 }
+];
+
+describe('createTemporalIndex', () => {
+	describe('at', () => {
+		it('should find the chapter active at a time', () => {
+			const index = createTemporalIndex(chapters);
+
+			expect(index.at(30).map((chapter) => chapter.id)).toEqual(['intro']);
+			expect(index.at(450).map((chapter) => chapter.id)).toEqual(['career']);
+		});
+
+		it('should treat ends as exclusive so adjacent chapters do not both match', () => {
+			const index = createTemporalIndex(chapters);
+
+			expect(index.at(60).map((chapter) => chapter.id)).toEqual(['early']);
+			expect(index.at(900)).toEqual([]);
+		});
+
+		it('should return overlapping items in input order', () => {
+			const fragments: TemporalFragment[] = [
+				{ start: 10, end: 50 },
+				{ start: 0, end: 100 },
+				{ start: 20, end: 30 }
+			];
+			const index = createTemporalIndex(fragments);
+
+			expect(index.at(25)).toEqual([fragments[0], fragments[1], fragments[2]]);
+		});
+
+		it('should index speaker segments', () => {
+			const segments: SpeakerSegment[] = [
+				{ speaker: 'Interviewer', startTime: 0, endTime: 5 },
+				{ speaker: 'Subject', startTime: 5, endTime: 40 }
+			];
+			const index = createTemporalIndex(segments);
+
+			expect(index.at(12)).toEqual([segments[1]]);
+		});
+
+		it('should keep open-ended fragments active forever', () => {
+			const index = createTemporalIndex<TemporalFragment>([{ start: 10 }, { start: 0, end: 5 }]);
+
+			expect(index.at(1e9)).toEqual([{ start: 10 }]);
+			expect(index.at(9)).toEqual([]);
+		});
+
+		it('should match point annotations only at their instant', () => {
+			const point: TemporalFragment = { start: 95, end: 95, kind: 'instant' };
+			const index = createTemporalIndex([point]);
+
+			expect(index.at(95)).toEqual([point]);
+			expect(index.at(94.9)).toEqual([]);
+			expect(index.at(95.1)).toEqual([]);
+		});
+
+		it('should return an empty array for NaN', () => {
+			expect(createTemporalIndex(chapters).at(NaN)).toEqual([]);
+		});
+	});
+
+	describe('overlapping', () => {
+		it('should find items overlapping a half-open window', () => {
+			const index = createTemporalIndex(chapters);
+
+			expect(index.overlapping(50, 70).map((chapter) => chapter.id)).toEqual(['intro', 'early']);
+			expect(index.overlapping(60, 300).map((chapter) => chapter.id)).toEqual(['early']);
+		});
+
+		it('should include points inside the window but not at its end', () => {
+			const points: TemporalFragment[] = [
+				{ start: 10, end: 10 },
+				{ start: 20, end: 20 }
+			];
+			const index = createTemporalIndex(points);
+
+			expect(index.overlapping(10, 20)).toEqual([points[0]]);
+		});
+
+		it('should catch points passed between playback updates', () => {
+			const point: TemporalFragment = { start: 95, end: 95, kind: 'instant' };
+			const index = createTemporalIndex([point]);
+			const updates = [94.8, 95.05, 95.3];
+
+			expect(updates.flatMap((time) => index.at(time))).toEqual([]);
+			expect(updates.slice(1).flatMap((time, i) => index.overlapping(updates[i]!, time))).toEqual([
+				point
+			]);
+		});
+
+		it('should return an empty array for empty or reversed windows', () => {
+			const index = createTemporalIndex(chapters);
+
+			expect(index.overlapping(100, 100)).toEqual([]);
+			expect(index.overlapping(200, 100)).toEqual([]);
+		});
+	});
+
+	describe('boundaries', () => {
+		it('should find the next and previous start or end', () => {
+			const index = createTemporalIndex<TemporalFragment>([{ start: 10, end: 20 }, { start: 15 }]);
+
+			expect(index.nextBoundary(0)).toBe(10);
+			expect(index.nextBoundary(10)).toBe(15);
+			expect(index.nextBoundary(15)).toBe(20);
+			expect(index.nextBoundary(20)).toBeNull();
+			expect(index.previousBoundary(20)).toBe(15);
+			expect(index.previousBoundary(10)).toBeNull();
+		});
+
+		it('should return null for an empty index or NaN', () => {
+			expect(createTemporalIndex([]).nextBoundary(0)).toBeNull();
+			expect(createTemporalIndex(chapters).previousBoundary(NaN)).toBeNull();
+		});
+	});
+
+	describe('accessor', () => {
+		it('should index arbitrary items through an accessor', () => {
+			const annotations = [
+				{ id: 'a', temporal: { start: 0, end: 10 } },
+				{ id: 'b', temporal: undefined },
+				{ id: 'c', temporal: { start: 5, end: 15 } }
+			];
+			const index = createTemporalIndex(annotations, (annotation) => annotation.temporal);
+
+			expect(index.size).toBe(2);
+			expect(index.at(7).map((annotation) => annotation.id)).toEqual(['a', 'c']);
+		});
+	});
+
+	describe('validation', () => {
+		it('should skip items with a reversed or non-finite span', () => {
+			const index = createTemporalIndex<TemporalFragment>([
+				{ start: 20, end: 10 },
+				{ start: NaN, end: 5 },
+				{ start: 0, end: 5 }
+			]);
+
+			expect(index.size).toBe(1);
+		});
+
+		it('should not be affected by later changes to the input', () => {
+			const input = [...chapters];
+			const index = createTemporalIndex(input);
+			input.pop();
+
+			expect(index.size).toBe(3);
+			expect(Object.isFrozen(index)).toBe(true);
+		});
+	});
+
+	describe('large inputs', () => {
+		it('should agree with a linear scan', () => {
+			const fragments: TemporalFragment[] = Array.from({ length: 2000 }, (_, i) => {
+				const start = (i * 7919) % 5000;
+				return i % 10 === 0 ? { start, end: start } : { start, end: start + ((i * 31) % 200) + 1 };
+			});
+			const index = createTemporalIndex(fragments);
+
+			for (const time of [0, 1, 999.5, 2500, 4999, 5100]) {
+				const expected = fragments.filter((fragment) =>
+					fragment.start === fragment.end
+						? fragment.start === time
+						: fragment.start <= time && time < fragment.end!
+				);
+				expect(index.at(time)).toEqual(expected);
+			}
+		});
+	});
+});
@@ -0,0 +1,204 @@
+/**
+ * Temporal Interval Index
+ *
+ * Indexes chapters, speaker segments, temporal fragments (or anything with a
+ * time span) so players can look up what is active at the current time without
+ * scanning every item on each `timeupdate`.
+ *
+ * The index is a static augmented interval tree: intervals sorted by start,
+ * laid out as an implicit balanced binary tree where each node records the
+ * largest end in its subtree. Queries skip subtrees that end before the window
+ * and nodes that start after it, but may still walk O(log n) nodes per result,
+ * so they take O(k log n) for k results in the worst case (O(log n) when
+ * nothing matches). Boundary lookups take O(log n).
+ */
+
+import type { TemporalFragment, TemporalIndex, TemporalItem } from './types.js';
+
+/**
+ * Indexed item with its resolved time span.
+ */
+interface IndexEntry<T> {
+	item: T;
+	start: number;
+	/** `Infinity` for open-ended temporal fragments */
+	end: number;
+	/** Position in the input, used to return results in input order */
+	order: number;
+}
+
+/**
+ * Reads the time span of a chapter, speaker segment or temporal fragment.
+ */
+function toInterval(item: TemporalItem): TemporalFragment {
+	if ('startTime' in item) {
+		return { start: item.startTime, end: item.endTime };
+	}
+	return item;
+}
+
+/**
+ * Resolves an interval to `[start, end]`, or null if it is not a valid span.
+ * A missing end means the interval never ends.
+ */
+function resolveSpan(interval: TemporalFragment | null | undefined): [number, number] | null {
+	if (!interval || !Number.isFinite(interval.start)) {
+		return null;
+	}
+	const end = interval.end ?? Infinity;
+	if (Number.isNaN(end) || end < interval.start) {
+		return null;
+	}
+	return [interval.start, end];
+}
+
+/**
+ * Checks whether an entry overlaps the window `[from, to)`.
+ * Points match when they fall inside the window; a zero-width window
+ * (`from === to`) is the instant `from`.
+ */
+function overlaps<T>(entry: IndexEntry<T>, from: number, to: number): boolean {
+	const startsInWindow = entry.start < to || entry.start === from;
+	if (entry.start === entry.end) {
+		return entry.start >= from && startsInWindow;
+	}
+	return entry.end > from && startsInWindow;
+}
+
+/**
+ * Finds the index of the first value greater than `time` in a sorted array.
+ */
+function upperBound(values: number[], time: number): number {
+	let lo = 0;
+	let hi = values.length;
+	while (lo < hi) {
+		const mid = (lo + hi) >>> 1;
+		if (values[mid]! <= time) {
+			lo = mid + 1;
+		} else {
+			hi = mid;
+		}
+	}
+	return lo;
+}
+
+/**
+ * Finds the index of the first value not less than `time` in a sorted array.
+ */
+function lowerBound(values: number[], time: number): number {
+	let lo = 0;
+	let hi = values.length;
+	while (lo < hi) {
+		const mid = (lo + hi) >>> 1;
+		if (values[mid]! < time) {
+			lo = mid + 1;
+		} else {
+			hi = mid;
+		}
+	}
+	return lo;
+}
+
+/**
+ * Creates an immutable interval index over chapters, speaker segments or
+ * temporal fragments.
+ *
+ * Other items (such as parsed annotations) can be indexed by passing an
+ * accessor that returns their time span. Items without a valid span (no
+ * accessor result, non-finite start, or `end < start`) are skipped.
+ *
+ * @param items - Items to index; later changes to the array do not affect the index
+ * @param getInterval - Returns the time span of an item
+ * @returns Index answering `at`, `overlapping`, `nextBoundary` and `previousBoundary`
+ *
+ * @remarks
+ * `at(time)` matches point items (`start === end`) only when `time` equals
+ * their start exactly, which playback times rarely do. To catch points passed
+ * during playback, query the window since the previous update with
+ * `overlapping(previousTime, currentTime)` instead.
+ *
+ * @example
+ * ```typescript
+ * const index = createTemporalIndex(parseRanges(manifest));
+ * video.addEventListener('timeupdate', () => {
+ *   const [chapter] = index.at(video.currentTime);
+ * });
+ *
+ * const annotations = createTemporalIndex(parsed, (annotation) => annotation.targets[0]?.temporal);
+ * annotations.overlapping(30, 60);
+ * ```
+ */
+export function createTemporalIndex<T extends TemporalItem>(items: readonly T[]): TemporalIndex<T>;
+export function createTemporalIndex<T>(
+	items: readonly T[],
+	getInterval: (item: T) => TemporalFragment | null | undefined
+): TemporalIndex<T>;
+export function createTemporalIndex<T>(
+	items: readonly T[],
+	getInterval: (item: T) => TemporalFragment | null | undefined = (item) =>
+		toInterval(item as TemporalItem)
+): TemporalIndex<T> {
+	const entries: IndexEntry<T>[] = [];
+	items.forEach((item, order) => {
+		const span = resolveSpan(getInterval(item));
+		if (span) {
+			entries.push({ item, start: span[0], end: span[1], order });
+		}
+	});
+	entries.sort((a, b) => a.start - b.start || a.order - b.order);
+
+	// maxEnd[i] is the largest end in the implicit subtree rooted at entries[i]
+	const maxEnd = new Array<number>(entries.length);
+	const buildMaxEnd = (lo: number, hi: number): number => {
+		if (lo > hi) {
+			return -Infinity;
+		}
+		const mid = (lo + hi) >>> 1;
+		maxEnd[mid] = Math.max(entries[mid]!.end, buildMaxEnd(lo, mid - 1), buildMaxEnd(mid + 1, hi));
+		return maxEnd[mid];
+	};
+	buildMaxEnd(0, entries.length - 1);
+
+	const boundaries = [
+		...new Set(entries.flatMap((entry) => [entry.start, entry.end]).filter(Number.isFinite))
+	].sort((a, b) => a - b);
+
+	/**
+	 * Collects entries overlapping `[from, to)`, pruning subtrees that end
+	 * before `from` and nodes that start after `to`.
+	 */
+	const collect = (from: number, to: number): T[] => {
+		const found: IndexEntry<T>[] = [];
+		const visit = (lo: number, hi: number): void => {
+			if (lo > hi) {
+				return;
+			}
+			const mid = (lo + hi) >>> 1;
+			if (maxEnd[mid]! < from) {
+				return;
+			}
+			visit(lo, mid - 1);
+			const entry = entries[mid]!;
+			if (entry.start > to) {
+				return;
+			}
+			if (overlaps(entry, from, to)) {
+				found.push(entry);
+			}
+			visit(mid + 1, hi);
+		};
+		visit(0, entries.length - 1);
+		return found.sort((a, b) => a.order - b.order).map((entry) => entry.item);
+	};
+
+	return Object.freeze({
+		size: entries.length,
+		at: (time: number): T[] => (Number.isNaN(time) ? [] : collect(time, time)),
+		overlapping: (start: number, end: number): T[] =>
+			Number.isNaN(start) || Number.isNaN(end) || end <= start ? [] : collect(start, end),
+		nextBoundary: (time: number): number | null =>
+			Number.isNaN(time) ? null : (boundaries[upperBound(boundaries, time)] ?? null),
+		previousBoundary: (time: number): number | null =>
+			Number.isNaN(time) ? null : (boundaries[lowerBound(boundaries, time) - 1] ?? null)
+	});
+}
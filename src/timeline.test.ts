@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { createManifestTimeline } from './timeline.js';
+
+const manifest = {
+	items: [
+		{ id: 'https://example.org/canvas/1', type: 'Canvas', duration: 3971.24 },
+		{ id: 'https://example.org/canvas/image', type: 'Canvas' },
+		{ id: 'https://example.org/canvas/2', type: 'Canvas', duration: 3307.22 }
+	]
+};
+
+describe('createManifestTimeline', () => {
+	it('should lay canvases end to end in items order', () => {
+		const timeline = createManifestTimeline(manifest);
+
+		expect(timeline.canvases).toEqual([
+			{ id: 'https://example.org/canvas/1', offset: 0, duration: 3971.24 },
+			{ id: 'https://example.org/canvas/image', offset: 3971.24, duration: 0 },
+			{ id: 'https://example.org/canvas/2', offset: 3971.24, duration: 3307.22 }
+		]);
+		expect(timeline.duration).toBeCloseTo(7278.46, 6);
+	});
+
+	describe('toGlobal', () => {
+		it('should add the canvas offset', () => {
+			const timeline = createManifestTimeline(manifest);
+
+			expect(timeline.toGlobal('https://example.org/canvas/1', 60)).toBe(60);
+			expect(timeline.toGlobal('https://example.org/canvas/2', 60)).toBeCloseTo(4031.24, 6);
+		});
+
+		it('should return null for unknown canvases or non-finite times', () => {
+			const timeline = createManifestTimeline(manifest);
+
+			expect(timeline.toGlobal('https://example.org/canvas/3', 0)).toBeNull();
+			expect(timeline.toGlobal('https://example.org/canvas/1', NaN)).toBeNull();
+		});
+	});
+
+	describe('toLocal', () => {
+		it('should map global time back to a canvas and local time', () => {
+			const timeline = createManifestTimeline(manifest);
+
+			expect(timeline.toLocal(60)).toEqual({ canvasId: 'https://example.org/canvas/1', time: 60 });
+			const position = timeline.toLocal(4031.24);
+			expect(position?.canvasId).toBe('https://example.org/canvas/2');
+			expect(position?.time).toBeCloseTo(60, 6);
+		});
+
+		it('should place canvas boundaries on the next canvas, skipping untimed canvases', () => {
+			const timeline = createManifestTimeline(manifest);
+
+			expect(timeline.toLocal(3971.24)).toEqual({
+				canvasId: 'https://example.org/canvas/2',
+				time: 0
+			});
+		});
+
+		it('should keep the end of the timeline on the last canvas', () => {
+			const timeline = createManifestTimeline(manifest);
+
+			expect(timeline.toLocal(timeline.duration)?.canvasId).toBe('https://example.org/canvas/2');
+		});
+
+		it('should return null outside the timeline', () => {
+			const timeline = createManifestTimeline(manifest);
+
+			expect(timeline.toLocal(-1)).toBeNull();
+			expect(timeline.toLocal(8000)).toBeNull();
+			expect(timeline.toLocal(NaN)).toBeNull();
+			expect(createManifestTimeline({}).toLocal(0)).toBeNull();
+		});
+	});
+
+	it('should ignore invalid durations', () => {
+		const timeline = createManifestTimeline({
+			items: [
+				{ id: 'a', duration: -5 },
+				{ id: 'b', duration: Infinity },
+				{ id: 'c', duration: 10 }
+			]
+		});
+
+		expect(timeline.canvases.map((canvas) => canvas.offset)).toEqual([0, 0, 0]);
+		expect(timeline.duration).toBe(10);
+	});
+});
@@ -0,0 +1,91 @@
+/**
+ * Manifest Timeline
+ *
+ * Lays the canvases of a manifest end to end, so that time-based media split
+ * across several canvases (such as an opera with one canvas per act) can be
+ * presented as one continuous timeline. Canvas durations are concatenated in
+ * `manifest.items` order; canvases without a duration take no time.
+ *
+ * @see https://iiif.io/api/cookbook/recipe/0065-opera-multiple-canvases/
+ */
+
+import type { ManifestTimeline, TimelineCanvas, TimelinePosition } from './types.js';
+
+/**
+ * Manifest with canvases, as far as the timeline needs it
+ */
+interface TimelineManifest {
+	items?: Array<{ id: string; type?: string; duration?: number; [key: string]: unknown }>;
+	[key: string]: unknown;
+}
+
+/**
+ * Creates the global timeline of a manifest's canvases.
+ *
+ * Each canvas starts where the previous one ends. Global times convert back
+ * to a canvas and a time on it for seeking; a global time exactly at the end
+ * of one canvas belongs to the next, except at the end of the timeline.
+ *
+ * @param manifest - IIIF Presentation API v3 Manifest
+ * @returns Timeline with canvas offsets and conversions in both directions
+ *
+ * @example
+ * ```typescript
+ * const timeline = createManifestTimeline(manifest);
+ * // canvas 1: 3971.24s, canvas 2: 3307.22s
+ * timeline.duration; // => 7278.46
+ * timeline.toGlobal('https://example.org/canvas/2', 60); // => 4031.24
+ * timeline.toLocal(4031.24); // => { canvasId: 'https://example.org/canvas/2', time: 60 }
+ * ```
+ */
+export function createManifestTimeline(manifest: TimelineManifest): ManifestTimeline {
+	const canvases: TimelineCanvas[] = [];
+	let offset = 0;
+	for (const canvas of manifest.items ?? []) {
+		if (!canvas || typeof canvas.id !== 'string') {
+			continue;
+		}
+		const duration =
+			typeof canvas.duration === 'number' && canvas.duration > 0 && Number.isFinite(canvas.duration)
+				? canvas.duration
+				: 0;
+		canvases.push({ id: canvas.id, offset, duration });
+		offset += duration;
+	}
+	const duration = offset;
+
+	const byId = new Map<string, TimelineCanvas>();
+	for (const canvas of canvases) {
+		if (!byId.has(canvas.id)) {
+			byId.set(canvas.id, canvas);
+		}
+	}
+	const timed = canvases.filter((canvas) => canvas.duration > 0);
+
+	return Object.freeze({
+		canvases,
+		duration,
+		toGlobal: (canvasId: string, time: number): number | null => {
+			const canvas = byId.get(canvasId);
+			return canvas && Number.isFinite(time) ? canvas.offset + time : null;
+		},
+		toLocal: (time: number): TimelinePosition | null => {
+			if (!(time >= 0 && time <= duration) || timed.length === 0) {
+				return null;
+			}
+			// Binary search for the last canvas starting at or before `time`
+			let lo = 0;
+			let hi = timed.length - 1;
+			while (lo < hi) {
+				const mid = (lo + hi + 1) >>> 1;
+				if (timed[mid]!.offset <= time) {
+					lo = mid;
+				} else {
+					hi = mid - 1;
+				}
+			}
+			const canvas = timed[lo]!;
+			return { canvasId: canvas.id, time: time - canvas.offset };
+		}
+	});
+}
@@ -6,6 +6,94 @@
  * @see https://www.w3.org/TR/webvtt1/
  */
 
+/**
+ * IIIF language map: BCP 47 language tag (or `none`) to values
+ *
+ * @see https://iiif.io/api/presentation/3.0/#44-language-of-property-values
+ */
+export type LanguageMap = Record<string, string[]>;
+
+/**
+ * IIIF metadata entry with language maps for its label and value
+ *
+ * @see https://iiif.io/api/presentation/3.0/#metadata
+ */
+export interface MetadataEntry {
+	label: LanguageMap;
+	value: LanguageMap;
+}
+
+/**
+ * IIIF Manifest, as far as ranges and canvases are concerned
+ *
+ * @see https://iiif.io/api/presentation/3.0/#52-manifest
+ */
+export interface IIIFManifest {
+	'@context'?: string | string[];
+	id: string;
+	type: 'Manifest';
+	label?: LanguageMap;
+	structures?: IIIFRange[];
+	items?: IIIFCanvas[];
+	[key: string]: unknown;
+}
+
+/**
+ * IIIF Canvas with duration for time-based media
+ *
+ * @see https://iiif.io/api/presentation/3.0/#53-canvas
+ */
+export interface IIIFCanvas {
+	id: string;
+	type: 'Canvas';
+	duration?: number;
+	[key: string]: unknown;
+}
+
+/**
+ * IIIF Range structure
+ *
+ * @see https://iiif.io/api/presentation/3.0/#54-range
+ */
+export interface IIIFRange {
+	id: string;
+	type: 'Range';
+	label?: LanguageMap;
+	items?: (IIIFRangeItem | SpecificResource | IIIFRange)[];
+	thumbnail?: Array<{ id: string; type: string }>;
+	metadata?: MetadataEntry[];
+	behavior?: string[];
+	summary?: LanguageMap;
+	requiredStatement?: MetadataEntry;
+	rendering?: IIIFLinkedResource[];
+	seeAlso?: IIIFLinkedResource[];
+	homepage?: IIIFLinkedResource[];
+	/** A single AnnotationCollection, or several */
+	supplementary?: IIIFLinkedResource | IIIFLinkedResource[];
+}
+
+/**
+ * IIIF Range item: a Canvas reference, optionally with a temporal fragment (`canvas#t=10,20`)
+ */
+export interface IIIFRangeItem {
+	id: string;
+	type: 'Canvas';
+}
+
+/**
+ * External resource referenced by a linking property of a Range
+ *
+ * @see https://iiif.io/api/presentation/3.0/#33-linking-properties
+ */
+export interface IIIFLinkedResource {
+	id: string;
+	type?: string;
+	label?: LanguageMap;
+	format?: string;
+	profile?: string;
+	language?: string | string[];
+}
+
 /**
  * Chapter data structure parsed from IIIF Range structures
  *
@@ -21,17 +109,202 @@ export interface Chapter {
 	/** Human-readable chapter label */
 	label: string;
 
-	/** Start time of the chapter in seconds */
+	/** Start time of the chapter in seconds (on its canvas, or on the manifest timeline) */
 	startTime: number;
 
-	/** End time of the chapter in seconds */
+	/** End time of the chapter in seconds (on its canvas, or on the manifest timeline) */
 	endTime: number;
 
+	/**
+	 * Canvas the chapter starts on (without fragment): the first segment's canvas,
+	 * which canvas-relative `startTime` and `endTime` refer to, or on the manifest
+	 * timeline the canvas of the earliest segment. Set by the parsers.
+	 */
+	canvasId?: string;
+
+	/**
+	 * Every temporal piece of the range, in document order.
+	 * Set by the parsers; discontiguous ranges and ranges spanning canvases have several.
+	 */
+	segments?: ChapterSegment[];
+
 	/** Optional thumbnail URL for visual representation */
 	thumbnail?: string;
 
 	/** Optional metadata key-value pairs from IIIF Range */
 	metadata?: Record<string, string>;
+
+	/** Full language map of the Range label, for switching languages without reparsing */
+	labelMap?: LanguageMap;
+
+	/** Full metadata entries of the Range, with every language of their labels and values */
+	metadataEntries?: MetadataEntry[];
+
+	/** Range `behavior` values, e.g. `no-nav`, `thumbnail-nav`, `sequence`, `auto-advance` */
+	behavior?: string[];
+
+	/** Range `summary` in the preferred language */
+	summary?: string;
+
+	/** Range `requiredStatement` (such as an attribution) in the preferred language */
+	requiredStatement?: RequiredStatement;
+
+	/** Alternative renderings of the range, such as a PDF transcript (`rendering`) */
+	rendering?: LinkedResource[];
+
+	/** Machine-readable descriptions of the range (`seeAlso`) */
+	seeAlso?: LinkedResource[];
+
+	/** Web pages about the range (`homepage`) */
+	homepage?: LinkedResource[];
+
+	/** Annotation collections for the range, such as its transcript (`supplementary`) */
+	supplementary?: LinkedResource[];
+}
+
+/**
+ * External resource linked from a range, with its label in the preferred language
+ *
+ * @see https://iiif.io/api/presentation/3.0/#33-linking-properties
+ */
+export interface LinkedResource {
+	/** Resource URI */
+	id: string;
+
+	/** Resource type, e.g. `Text`, `Dataset` or `AnnotationCollection` */
+	type?: string;
+
+	label?: string;
+
+	/** Media type, e.g. `application/pdf` */
+	format?: string;
+
+	/** Schema or profile the resource conforms to */
+	profile?: string;
+
+	/** Languages of the resource's content */
+	language?: string[];
+}
+
+/**
+ * Label/value statement that must be displayed with a resource, in the preferred language
+ *
+ * @see https://iiif.io/api/presentation/3.0/#requiredstatement
+ */
+export interface RequiredStatement {
+	label: string;
+	value: string;
+}
+
+/**
+ * One contiguous temporal piece of a chapter
+ */
+export interface ChapterSegment {
+	/** Canvas the times refer to (without fragment) */
+	canvasId: string;
+
+	/** Start time in seconds (on the canvas, or on the manifest timeline) */
+	startTime: number;
+
+	/** End time in seconds (on the canvas, or on the manifest timeline) */
+	endTime: number;
+}
+
+/**
+ * Range in a hierarchical table of contents, as returned by `parseRangeTree`
+ */
+export interface ChapterNode {
+	/** Range id */
+	id: string;
+
+	/** Human-readable range label */
+	label: string;
+
+	/**
+	 * Chapter data when the range's timing is known: from its own temporal
+	 * items, or spanning its descendants for ranges that only group others
+	 */
+	chapter?: Chapter;
+
+	/** Nested ranges in document order */
+	children: ChapterNode[];
+
+	/** Nesting depth, 0 for top-level ranges */
+	depth: number;
+
+	/** Id of the enclosing range; absent for top-level ranges */
+	parentId?: string;
+}
+
+/**
+ * Options for `parseRanges` and `parseRangeTree`
+ */
+export interface ParseRangesOptions {
+	/**
+	 * Time base of chapter times:
+	 * - `canvas` (default) - seconds into the chapter's own canvas
+	 * - `manifest` - seconds into the manifest timeline, with canvases laid
+	 *   end to end in `manifest.items` order (see `createManifestTimeline`)
+	 */
+	timeline?: 'canvas' | 'manifest';
+
+	/**
+	 * Preferred label languages as BCP 47 tags, most preferred first (default: `['en']`).
+	 * Each falls back to more general tags (`es-MX` → `es`); then values without a
+	 * language (`none`, `@none`) and finally any language are used.
+	 */
+	languages?: string[];
+
+	/** Label for ranges without one (default: `'Untitled Chapter'`) */
+	untitledLabel?: string;
+
+	/**
+	 * Leave out ranges with the `no-nav` behavior (default: `false`). In trees,
+	 * their children take their place.
+	 */
+	hideNoNav?: boolean;
+}
+
+/**
+ * Canvas placed on a manifest timeline
+ */
+export interface TimelineCanvas {
+	/** Canvas id */
+	id: string;
+
+	/** Global time in seconds at which the canvas starts */
+	offset: number;
+
+	/** Canvas duration in seconds (0 for canvases without one) */
+	duration: number;
+}
+
+/**
+ * Position on a single canvas
+ */
+export interface TimelinePosition {
+	/** Canvas id */
+	canvasId: string;
+
+	/** Time in seconds into the canvas */
+	time: number;
+}
+
+/**
+ * Canvases of a manifest laid end to end on one global timeline
+ */
+export interface ManifestTimeline {
+	/** Canvases in `manifest.items` order */
+	readonly canvases: TimelineCanvas[];
+
+	/** Total duration in seconds */
+	readonly duration: number;
+
+	/** Converts a time on a canvas to global time; null for unknown canvases */
+	toGlobal(canvasId: string, time: number): number | null;
+
+	/** Converts global time to a canvas and a time on it; null outside the timeline */
+	toLocal(time: number): TimelinePosition | null;
 }
 
 /**
@@ -52,6 +325,17 @@ export interface SpeakerSegment {
 	endTime: number;
 }
 
+/**
+ * Time format of a W3C Media Fragment temporal dimension.
+ *
+ * - `npt` - Normal Play Time (default when no prefix is given)
+ * - `smpte`, `smpte-25`, `smpte-30`, `smpte-30-drop` - SMPTE time codes
+ * - `clock` - wall-clock time (ISO 8601 / RFC 3339 date-time)
+ *
+ * @see https://www.w3.org/TR/media-frags/#naming-time
+ */
+export type TemporalFormat = 'npt' | 'smpte' | 'smpte-25' | 'smpte-30' | 'smpte-30-drop' | 'clock';
+
 /**
  * Temporal fragment parsed from W3C Media Fragment URI
  *
@@ -60,15 +344,30 @@ export interface SpeakerSegment {
  * - `#t=10,20` (start and end)
  * - `#t=10` (start only, end optional)
  * - `#t=,20` (from beginning to end time)
+ * - `#t=npt:0:01:30,0:02:00` (npt clock values)
+ * - `#t=smpte-25:00:01:30:12` (SMPTE time codes)
+ * - `#t=clock:2011-10-01T23:00:45Z` (wall-clock time)
  *
  * @see https://www.w3.org/TR/media-frags/#naming-time
  */
 export interface TemporalFragment {
-	/** Start time in seconds */
+	/**
+	 * Start time in seconds
+	 * (seconds since the Unix epoch when `format` is `clock`)
+	 */
 	start: number;
 
 	/** End time in seconds (optional per W3C spec) */
 	end?: number;
+
+	/** Format the time was expressed in; always set by the parsers, `npt` when absent */
+	format?: TemporalFormat;
+
+	/**
+	 * `instant` for a point in time from a PointSelector (`start === end`);
+	 * absent for time ranges
+	 */
+	kind?: 'instant';
 }
 
 /**
@@ -96,14 +395,74 @@ export interface SpatialFragment {
 
 	/** Coordinate unit: 'pixel' (default) or 'percent' */
 	unit: 'pixel' | 'percent';
+
+	/**
+	 * `point` for a position from a PointSelector (zero width and height);
+	 * absent for regions
+	 */
+	kind?: 'point';
+}
+
+/**
+ * Point in canvas coordinates
+ */
+export interface Point {
+	x: number;
+	y: number;
 }
 
 /**
- * Parsed annotation target with optional temporal and spatial fragments
+ * Axis-aligned rectangle in canvas coordinates
+ */
+export interface BoundingBox {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Shape parsed from an SvgSelector, in SVG user units (canvas pixels)
+ *
+ * Paths keep their original `d` data plus `subpaths` flattened to polygons.
  *
- * Result of parsing IIIF annotation targets, supporting both:
+ * @see https://www.w3.org/TR/SVG2/shapes.html
+ */
+export type SvgShape =
+	| { type: 'polygon'; points: Point[] }
+	| { type: 'rect'; x: number; y: number; width: number; height: number }
+	| { type: 'circle'; cx: number; cy: number; r: number }
+	| { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+	| { type: 'path'; d: string; subpaths: Point[][] };
+
+/**
+ * Geometry parsed from an SvgSelector value
+ *
+ * @see https://www.w3.org/TR/annotation-model/#svg-selector
+ */
+export interface SvgGeometry {
+	/** Supported shapes in document order */
+	shapes: SvgShape[];
+
+	/** Bounding box of all shapes */
+	bounds: BoundingBox;
+}
+
+/**
+ * Dimension names defined by W3C Media Fragments URI 1.0
+ *
+ * @see https://www.w3.org/TR/media-frags/#media-fragment-syntax
+ */
+export type MediaFragmentDimension = 't' | 'xywh' | 'track' | 'id';
+
+/**
+ * Parsed annotation target with optional temporal, spatial, track and id fragments
+ *
+ * Result of parsing IIIF annotation targets, supporting:
  * - Simple string URIs: `"https://example.org/canvas#t=10,20"`
  * - SpecificResource with FragmentSelector
+ * - SpecificResource with SvgSelector
+ * - SpecificResource with PointSelector
  *
  * @see https://iiif.io/api/presentation/3.0/#annotation
  */
@@ -114,8 +473,23 @@ export interface ParsedAnnotationTarget {
 	/** Temporal fragment if present (#t=...) */
 	temporal?: TemporalFragment;
 
-	/** Spatial fragment if present (#xywh=...) */
+	/**
+	 * Spatial fragment if present (#xywh=...).
+	 * For SvgSelector targets, the geometry's bounding box in pixels.
+	 */
 	spatial?: SpatialFragment;
+
+	/** Shape geometry from an SvgSelector, if present */
+	geometry?: SvgGeometry;
+
+	/** Track name if present (#track=...), percent-decoded */
+	track?: string;
+
+	/** Named fragment if present (#id=...), percent-decoded */
+	id?: string;
+
+	/** Dimensions present in the fragment but without a valid value (e.g. `#t=20,10`) */
+	invalidDimensions?: MediaFragmentDimension[];
 }
 
 /**
@@ -125,18 +499,662 @@ export interface ParsedAnnotationTarget {
  */
 export type IIIFResourceType = 'Canvas' | 'Image' | 'Sound' | 'Video' | 'Text' | 'Dataset';
 
+/**
+ * Selector on a SpecificResource annotation target.
+ *
+ * @see https://www.w3.org/TR/annotation-model/#selectors
+ */
+export interface AnnotationSelector {
+	type: 'FragmentSelector' | 'SvgSelector' | 'PointSelector' | string;
+	value?: string;
+	conformsTo?: string;
+
+	/** PointSelector: instant in seconds */
+	t?: number;
+
+	/** PointSelector: horizontal position in canvas pixels */
+	x?: number;
+
+	/** PointSelector: vertical position in canvas pixels */
+	y?: number;
+
+	/** Selector(s) applied to the segment this selector selects, relative to it */
+	refinedBy?: AnnotationSelector | AnnotationSelector[];
+
+	/** Choice: alternative selectors for the same segment */
+	items?: AnnotationSelector[];
+}
+
+/**
+ * SpecificResource annotation target: a source resource narrowed by a selector.
+ *
+ * @see https://www.w3.org/TR/annotation-model/#specific-resources
+ */
+export interface SpecificResource {
+	type: 'SpecificResource';
+	source: string | { id: string; type?: IIIFResourceType };
+	/** A single selector, or alternative selectors for the same segment */
+	selector?: AnnotationSelector | AnnotationSelector[];
+}
+
+/**
+ * Multiple targets grouped by a Web Annotation multiplicity construct.
+ *
+ * - `Choice`: one of the items should be used (the first is preferred)
+ * - `Composite`, `List`, `Independents`: every item is a target
+ *
+ * @see https://www.w3.org/TR/annotation-vocab/#multiplicity-constructs
+ */
+export interface TargetCollection {
+	type: 'Choice' | 'Composite' | 'List' | 'Independents';
+	items: AnnotationTargetInput[];
+}
+
 /**
  * Input type for annotation targets.
- * Can be a simple string URI or a SpecificResource object.
+ * Can be a simple string URI, a SpecificResource object, a multiplicity
+ * construct, or an array of any of these.
  */
 export type AnnotationTargetInput =
+	| string
+	| SpecificResource
+	| TargetCollection
+	| Presentation2SpecificResource
+	| AnnotationTargetInput[];
+
+/**
+ * Presentation 2 (Open Annotation) selector, e.g. `oa:FragmentSelector`
+ *
+ * `oa:Choice` selectors list their alternatives in `default` and `item`.
+ *
+ * @see https://iiif.io/api/presentation/2.1/#segments
+ */
+export interface Presentation2Selector {
+	'@type': string;
+	value?: string;
+	/** Text content, used by some tools instead of `value` */
+	chars?: string;
+	default?: Presentation2Selector;
+	item?: Presentation2Selector | Presentation2Selector[];
+	t?: number;
+	x?: number;
+	y?: number;
+	[key: string]: unknown;
+}
+
+/**
+ * Presentation 2 SpecificResource target: `full` names the canvas
+ *
+ * @see https://iiif.io/api/presentation/2.1/#segments
+ */
+export interface Presentation2SpecificResource {
+	'@id'?: string;
+	'@type': 'oa:SpecificResource' | 'SpecificResource';
+	full: string | { '@id': string; '@type'?: string };
+	selector?: Presentation2Selector | Presentation2Selector[];
+	[key: string]: unknown;
+}
+
+/**
+ * Agent (person or software) that created an annotation, as written in the input
+ *
+ * @see https://www.w3.org/TR/annotation-model/#agents
+ */
+export type IIIFAgent =
+	| string
+	| { id?: string; type?: string; name?: string; nickname?: string; [key: string]: unknown };
+
+/**
+ * Annotation body as written in the input
+ *
+ * @see https://www.w3.org/TR/annotation-model/#bodies-and-targets
+ */
+export type IIIFAnnotationBody =
 	| string
 	| {
-			type: 'SpecificResource';
-			source: string | { id: string; type?: IIIFResourceType };
-			selector?: {
-				type: 'FragmentSelector' | string;
-				value?: string;
-				conformsTo?: string;
-			};
+			id?: string;
+			type?: string;
+			value?: string;
+			language?: string;
+			format?: string;
+			purpose?: string | string[];
+			source?: string | { id: string; type?: string };
+			items?: IIIFAnnotationBody[];
+			[key: string]: unknown;
 	  };
+
+/**
+ * Web Annotation as it appears in an IIIF AnnotationPage
+ *
+ * @see https://iiif.io/api/presentation/3.0/#56-annotation
+ * @see https://www.w3.org/TR/annotation-model/#annotations
+ */
+export interface IIIFAnnotation {
+	id: string;
+	type: 'Annotation';
+	motivation?: string | string[];
+	body?: IIIFAnnotationBody | IIIFAnnotationBody[];
+	/** Plain-text body shorthand from the Web Annotation model */
+	bodyValue?: string;
+	target: AnnotationTargetInput;
+	creator?: IIIFAgent | IIIFAgent[];
+	created?: string;
+	modified?: string;
+	[key: string]: unknown;
+}
+
+/**
+ * Presentation 2 (Open Annotation) annotation: `on` holds the target, `resource` the body
+ *
+ * @see https://iiif.io/api/presentation/2.1/#annotation-list
+ */
+export interface Presentation2Annotation {
+	'@id'?: string;
+	'@type': 'oa:Annotation' | string | string[];
+	motivation?: string | string[];
+	resource?: IIIFAnnotationBody | IIIFAnnotationBody[];
+	on: AnnotationTargetInput;
+	[key: string]: unknown;
+}
+
+/**
+ * Presentation 2 AnnotationList holding annotations in `resources`
+ *
+ * @see https://iiif.io/api/presentation/2.1/#annotation-list
+ */
+export interface Presentation2AnnotationList {
+	'@id'?: string;
+	'@type': 'sc:AnnotationList';
+	resources?: Presentation2Annotation[];
+	[key: string]: unknown;
+}
+
+/**
+ * Presentation 2 property value: a string, a `@value` in a `@language`, or a list of them
+ *
+ * @see https://iiif.io/api/presentation/2.1/#language-of-property-values
+ */
+export type Presentation2Value =
+	| string
+	| { '@value': string; '@language'?: string }
+	| Array<string | { '@value': string; '@language'?: string }>;
+
+/**
+ * Resource referenced by a Presentation 2 linking property, by URI or as an object
+ *
+ * @see https://iiif.io/api/presentation/2.1/#linking-properties
+ */
+export type Presentation2Link =
+	| string
+	| { '@id': string; label?: Presentation2Value; format?: string; profile?: string };
+
+/**
+ * Presentation 2 Range: canvases and child ranges are listed by URI in
+ * `canvases` and `ranges`, or together and in order in `members`
+ *
+ * @see https://iiif.io/api/presentation/2.1/#range
+ */
+export interface Presentation2Range {
+	'@id': string;
+	'@type': 'sc:Range';
+	label?: Presentation2Value;
+	/** Canvas URIs, optionally with a temporal fragment (`canvas#t=10,20`) */
+	canvases?: string[];
+	/** URIs of child ranges, defined elsewhere in `structures` */
+	ranges?: string[];
+	/** Canvases and child ranges in order, instead of `canvases` and `ranges` */
+	members?: Array<{ '@id': string; '@type': 'sc:Canvas' | 'sc:Range'; [key: string]: unknown }>;
+	/** `top` marks the top-level ranges; other hints become `behavior` */
+	viewingHint?: string;
+	/** Becomes `summary` */
+	description?: Presentation2Value;
+	/** Becomes a `requiredStatement` labelled "Attribution" */
+	attribution?: Presentation2Value;
+	/** Web pages about the range; become `homepage` */
+	related?: Presentation2Link | Presentation2Link[];
+	rendering?: Presentation2Link | Presentation2Link[];
+	seeAlso?: Presentation2Link | Presentation2Link[];
+	thumbnail?: string | { '@id': string; [key: string]: unknown };
+	metadata?: Array<{ label: Presentation2Value; value: Presentation2Value }>;
+	[key: string]: unknown;
+}
+
+/**
+ * Presentation 2 Manifest: canvases are listed in `sequences`, and every
+ * range (at any depth) in `structures`
+ *
+ * @see https://iiif.io/api/presentation/2.1/#manifest
+ */
+export interface Presentation2Manifest {
+	'@context'?: string | string[];
+	'@id': string;
+	'@type': 'sc:Manifest';
+	label?: Presentation2Value;
+	sequences?: Array<{
+		canvases?: Array<{
+			'@id': string;
+			'@type'?: string;
+			duration?: number;
+			[key: string]: unknown;
+		}>;
+		[key: string]: unknown;
+	}>;
+	structures?: Presentation2Range[];
+	[key: string]: unknown;
+}
+
+/**
+ * IIIF AnnotationPage holding a list of annotations
+ *
+ * @see https://iiif.io/api/presentation/3.0/#55-annotation-page
+ */
+export interface IIIFAnnotationPage {
+	id?: string;
+	type: 'AnnotationPage';
+	items?: IIIFAnnotation[];
+	[key: string]: unknown;
+}
+
+/**
+ * Normalized annotation body
+ *
+ * Textual bodies carry `value`; external resources (images, audio, linked
+ * documents) carry `id`.
+ */
+export interface AnnotationBody {
+	/** Body type (e.g. `TextualBody`, `Image`, `Sound`); absent for bare IRIs */
+	type?: string;
+
+	/** IRI of an external body */
+	id?: string;
+
+	/** Text content of a TextualBody */
+	value?: string;
+
+	/** BCP 47 language tag */
+	language?: string;
+
+	/** Media type (e.g. `text/plain`, `text/html`) */
+	format?: string;
+
+	/** Role of the body (e.g. `tagging`, `commenting`) */
+	purpose?: string[];
+}
+
+/**
+ * Normalized creator of an annotation
+ */
+export interface AnnotationAgent {
+	id?: string;
+	type?: string;
+	name?: string;
+}
+
+/**
+ * Annotation record parsed from a Web Annotation
+ *
+ * @see https://iiif.io/api/presentation/3.0/#56-annotation
+ */
+export interface ParsedAnnotation {
+	/** Annotation id */
+	id: string;
+
+	/** Motivations such as `painting`, `supplementing` or `commenting` (may be empty) */
+	motivations: string[];
+
+	/** Normalized bodies in document order; Choice bodies are flattened into their items */
+	bodies: AnnotationBody[];
+
+	/** Parsed targets (an annotation may select several) */
+	targets: ParsedAnnotationTarget[];
+
+	/** Creators of the annotation, if given */
+	creators?: AnnotationAgent[];
+
+	/** Creation time (xsd:dateTime string), if given */
+	created?: string;
+
+	/** Last modification time (xsd:dateTime string), if given */
+	modified?: string;
+}
+
+/**
+ * Options for serializing parsed targets back into media fragments.
+ */
+export interface SerializeOptions {
+	/** Emit an explicit `pixel:` unit for pixel regions (default: false) */
+	pixelUnit?: boolean;
+
+	/** Emit `source` as `{ id, type }` with this type instead of a plain string */
+	sourceType?: IIIFResourceType;
+}
+
+/**
+ * Options for writing chapters as a WebVTT chapters track
+ */
+export interface WebVTTChaptersOptions {
+	/** Only write chapters on this canvas, since a track belongs to one media file */
+	canvasId?: string;
+
+	/**
+	 * How trees from `parseRangeTree` are written:
+	 * - `nested` (default) - a cue for every timed range, parents spanning their children
+	 * - `prefixed` - a cue for every timed range without timed children, its label
+	 *   prefixed with its ancestors' labels (`Act I / Scene 2`)
+	 */
+	hierarchy?: 'nested' | 'prefixed';
+
+	/** Separator between ancestor labels with `hierarchy: 'prefixed'` (default: `' / '`) */
+	separator?: string;
+}
+
+/**
+ * Options for reading a WebVTT chapters track
+ */
+export interface ParseWebVTTChaptersOptions {
+	/** Canvas the track belongs to; sets `canvasId` and `segments` on the chapters */
+	canvasId?: string;
+
+	/**
+	 * Prefix for chapter ids, such as a base URI (default: `''`). Ids are the cue
+	 * identifiers, or the 1-based position of cues without one.
+	 */
+	idPrefix?: string;
+
+	/** Label for cues without text (default: `'Untitled Chapter'`) */
+	untitledLabel?: string;
+}
+
+/**
+ * Options for generating IIIF Ranges from chapters
+ */
+export interface ChaptersToRangesOptions {
+	/** Canvas for chapters without `canvasId` or `segments` */
+	canvasId?: string;
+
+	/** Language of labels without a `labelMap` (default: `'none'`) */
+	language?: string;
+}
+
+/**
+ * Chapter in a Podcasting 2.0 JSON chapters file
+ *
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/examples/chapters/jsonChapters.md
+ */
+export interface PodcastChapter {
+	/** Start time in seconds */
+	startTime: number;
+
+	/** End time in seconds */
+	endTime?: number;
+
+	title?: string;
+
+	/** Image URL */
+	img?: string;
+
+	/** Web page or document about the chapter */
+	url?: string;
+
+	/** `false` hides the chapter from the table of contents */
+	toc?: boolean;
+
+	[key: string]: unknown;
+}
+
+/**
+ * Podcasting 2.0 JSON chapters file (`application/json+chapters`)
+ *
+ * @see https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/examples/chapters/jsonChapters.md
+ */
+export interface PodcastChapters {
+	version: string;
+	chapters: PodcastChapter[];
+	author?: string;
+	title?: string;
+	podcastName?: string;
+	description?: string;
+	fileName?: string;
+	[key: string]: unknown;
+}
+
+/**
+ * Options for writing chapters as a Podcasting 2.0 JSON chapters file
+ */
+export interface PodcastChaptersOptions {
+	/** Only write chapters on this canvas, since the file belongs to one media file */
+	canvasId?: string;
+
+	/** Optional file properties: `author`, `title`, `podcastName`, `description`, `fileName` */
+	author?: string;
+	title?: string;
+	podcastName?: string;
+	description?: string;
+	fileName?: string;
+}
+
+/**
+ * Options for reading a Podcasting 2.0 JSON chapters file
+ */
+export interface ParsePodcastChaptersOptions {
+	/** Canvas the file belongs to; sets `canvasId` and `segments` on the chapters */
+	canvasId?: string;
+
+	/** Prefix for chapter ids, which are the 1-based chapter positions (default: `''`) */
+	idPrefix?: string;
+
+	/** Label for chapters without a title (default: `'Untitled Chapter'`) */
+	untitledLabel?: string;
+}
+
+/**
+ * Options for writing chapters as an FFmpeg metadata file
+ */
+export interface FFMetadataOptions {
+	/** Only write chapters on this canvas, since the file belongs to one media file */
+	canvasId?: string;
+
+	/** Chapter time base in ticks per second, written as `TIMEBASE=1/n` (default: `1000`) */
+	timebase?: number;
+
+	/** Global tags written before the chapters, such as `title` or `artist` */
+	metadata?: Record<string, string>;
+}
+
+/**
+ * Options for reading an FFmpeg metadata file
+ */
+export interface ParseFFMetadataOptions {
+	/** Canvas the file belongs to; sets `canvasId` and `segments` on the chapters */
+	canvasId?: string;
+
+	/** Prefix for chapter ids, which are the 1-based `[CHAPTER]` positions (default: `''`) */
+	idPrefix?: string;
+
+	/** Label for chapters without a title (default: `'Untitled Chapter'`) */
+	untitledLabel?: string;
+}
+
+/**
+ * Width and height of a canvas or media item, in pixels
+ *
+ * @see https://iiif.io/api/presentation/3.0/#height
+ */
+export interface Size {
+	width: number;
+	height: number;
+}
+
+/**
+ * Spatial region resolved against the dimensions of a canvas or media item
+ */
+export interface ResolvedRegion {
+	/** Region in pixels of the reference space */
+	pixel: BoundingBox;
+
+	/** Region as fractions (0–1) of the reference width and height */
+	normalized: BoundingBox;
+
+	/** Whether the region extended beyond the reference space (before any clamping) */
+	outOfBounds: boolean;
+}
+
+/**
+ * Options for resolving spatial regions
+ */
+export interface ResolveRegionOptions {
+	/** Clip regions to the reference space; otherwise only flag them via `outOfBounds` (default: true) */
+	clamp?: boolean;
+}
+
+/**
+ * Media item painted onto a canvas, as described by a painting annotation
+ *
+ * @see https://iiif.io/api/presentation/3.0/#57-annotation
+ */
+export interface PaintedMedia {
+	/** Intrinsic width and height of the media item in its own pixels */
+	width: number;
+	height: number;
+
+	/** Region of the canvas the media is painted into (the painting annotation's `xywh`); whole canvas when omitted */
+	target?: SpatialFragment;
+}
+
+/**
+ * Stable machine-readable reason a value was rejected during parsing
+ *
+ * - `fragment-malformed`: value does not match the media fragment grammar
+ * - `fragment-undecodable`: name or value has an invalid percent-encoding
+ * - `temporal-negative`: a time is negative
+ * - `temporal-field-out-of-range`: a clock, frame or calendar field is out of range
+ * - `temporal-reversed`: end time is before start time
+ * - `spatial-negative`: a region coordinate or size is negative
+ * - `spatial-out-of-bounds`: a percent region exceeds 0-100 or the canvas
+ * - `range-no-temporal-items`: a range has items but none with a temporal fragment
+ * - `range-missing-duration`: an open-ended fragment has no canvas duration to end at
+ * - `range-unknown-canvas`: a range's canvas is not in `manifest.items`, so it has no
+ *   place on the manifest timeline
+ * - `range-cycle`: a range contains itself through nested ranges or id references
+ * - `target-missing-source`: a SpecificResource has no usable `source` id
+ */
+export type ParseWarningCode =
+	| 'fragment-malformed'
+	| 'fragment-undecodable'
+	| 'temporal-negative'
+	| 'temporal-field-out-of-range'
+	| 'temporal-reversed'
+	| 'spatial-negative'
+	| 'spatial-out-of-bounds'
+	| 'range-no-temporal-items'
+	| 'range-missing-duration'
+	| 'range-unknown-canvas'
+	| 'range-cycle'
+	| 'target-missing-source';
+
+/**
+ * Explanation of input that a parser dropped
+ */
+export interface ParseWarning {
+	/** Stable reason code, safe to match on */
+	code: ParseWarningCode;
+
+	/** Human-readable description (wording may change between releases) */
+	message: string;
+
+	/** Offending raw value (e.g. `t=20,10`, or a range id) */
+	value: string;
+
+	/**
+	 * JSON Pointer (RFC 6901) to the offending value in the input.
+	 * Empty string for string input such as a media fragment URI.
+	 */
+	pointer: string;
+}
+
+/**
+ * Parser result together with the warnings collected while producing it
+ */
+export interface DiagnosticResult<T> {
+	/** Same value the non-diagnostic parser returns */
+	result: T;
+
+	/** Warnings in the order they were encountered */
+	warnings: ParseWarning[];
+}
+
+/**
+ * Item with a time span that {@link TemporalIndex} can index without an accessor
+ */
+export type TemporalItem = TemporalFragment | Chapter | SpeakerSegment;
+
+/**
+ * Immutable index answering "what is active at time t" queries
+ *
+ * Items span `[start, end)`, so adjacent chapters never both match at their
+ * shared boundary. Points (`start === end`) span `[start, start]`, and
+ * temporal fragments without an `end` never end. Query results keep the
+ * order of the indexed items.
+ */
+export interface TemporalIndex<T> {
+	/** Number of indexed items (items without a valid time span are skipped) */
+	readonly size: number;
+
+	/**
+	 * Items active at `time`. Points match only at exactly their start; use
+	 * `overlapping(previousTime, time)` to catch points passed since the last
+	 * `timeupdate`.
+	 */
+	at(time: number): T[];
+
+	/** Items overlapping the window `[start, end)`; empty if `end <= start` */
+	overlapping(start: number, end: number): T[];
+
+	/** Earliest start or end strictly after `time`, or null if there is none */
+	nextBoundary(time: number): number | null;
+
+	/** Latest start or end strictly before `time`, or null if there is none */
+	previousBoundary(time: number): number | null;
+}
+
+/**
+ * Options for {@link hitTest}
+ */
+export interface HitTestOptions {
+	/** Playback time in seconds; targets must be active at this time. Ignored when absent */
+	time?: number;
+
+	/** Canvas width and height, needed for percent regions and whole-canvas targets */
+	canvas?: Size;
+
+	/** Only consider targets on this source (canvas) URI */
+	source?: string;
+
+	/** Distance in canvas pixels within which a point target is hit (default: 0) */
+	tolerance?: number;
+
+	/**
+	 * Seconds from an instant (PointSelector `t`) within which it is active
+	 * (default: 0). Playback times rarely hit an instant exactly; half the
+	 * `timeupdate` interval (about 0.125) is a good value for players.
+	 */
+	timeTolerance?: number;
+}
+
+/**
+ * Item containing a hit-tested point, with the target that contained it
+ */
+export interface HitTestResult<T> {
+	/** Item from the input */
+	item: T;
+
+	/** Target that contained the point (the smallest, if the item has several) */
+	target: ParsedAnnotationTarget;
+
+	/**
+	 * Area of the target in canvas pixels: of its SVG shapes, its `xywh`
+	 * region, or the whole canvas (`Infinity` if the canvas size is unknown);
+	 * 0 for point targets
+	 */
+	area: number;
+}
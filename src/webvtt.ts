@@ -0,0 +1,186 @@
+/**
+ * WebVTT Syntax
+ *
+ * Internal helpers shared by the WebVTT chapter reader and writer and the
+ * speaker parser: timestamps, cue identifiers, cue text escaping and cue blocks.
+ *
+ * @see https://www.w3.org/TR/webvtt1/
+ */
+
+/**
+ * Cue block as written in a WebVTT file
+ */
+export interface WebVTTCue {
+	/** Cue identifier, if the cue has one */
+	id?: string;
+
+	/** Start time in seconds */
+	startTime: number;
+
+	/** End time in seconds */
+	endTime: number;
+
+	/** Cue payload lines, still escaped */
+	lines: string[];
+}
+
+/**
+ * WebVTT timestamp: optional hours (two or more digits), minutes, seconds, milliseconds.
+ */
+const TIMESTAMP_PATTERN = /^(?:(\d{2,}):)?([0-5]\d):([0-5]\d)\.(\d{3})$/;
+
+/**
+ * Character references allowed in cue text, besides numeric ones.
+ */
+const NAMED_REFERENCES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	lrm: '\u200E',
+	rlm: '\u200F',
+	nbsp: '\u00A0'
+};
+
+/**
+ * Formats milliseconds as a WebVTT timestamp (`HH:MM:SS.mmm`, hours as wide as needed).
+ *
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-timestamp
+ */
+export function formatTimestamp(milliseconds: number): string {
+	const hours = Math.floor(milliseconds / 3_600_000);
+	const minutes = Math.floor(milliseconds / 60_000) % 60;
+	const seconds = Math.floor(milliseconds / 1000) % 60;
+	const pad = (value: number, length: number): string => String(value).padStart(length, '0');
+	return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(milliseconds % 1000, 3)}`;
+}
+
+/**
+ * Parses a WebVTT timestamp (`HH:MM:SS.mmm` or `MM:SS.mmm`) into seconds.
+ *
+ * @returns Seconds, or null if the timestamp is malformed
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-timestamp
+ */
+export function parseTimestamp(timestamp: string): number | null {
+	const match = timestamp.match(TIMESTAMP_PATTERN);
+	if (!match) {
+		return null;
+	}
+	const [, hours = '0', minutes, seconds, milliseconds] = match;
+	return (
+		((Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000 +
+			Number(milliseconds)) /
+		1000
+	);
+}
+
+/**
+ * Makes a string a valid cue identifier: one line, without `-->`.
+ *
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-cue-identifier
+ */
+export function formatCueId(id: string): string {
+	return String(id ?? '')
+		.replace(/\s*[\r\n]+\s*/g, ' ')
+		.replace(/-->/g, '--')
+		.trim();
+}
+
+/**
+ * Escapes plain text as WebVTT cue text on a single line.
+ *
+ * `&`, `<` and `>` become character references, so text cannot open tags
+ * or contain `-->`; line breaks become spaces, so text cannot end the cue.
+ *
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-cue-text
+ */
+export function escapeCueText(text: string): string {
+	return String(text ?? '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/\s*[\r\n]+\s*/g, ' ')
+		.trim();
+}
+
+/**
+ * Reads cue text as plain text: tags (`<v Speaker>`, `<i>`, timestamps, ...)
+ * are dropped and character references decoded.
+ *
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-cue-text
+ */
+export function unescapeCueText(text: string): string {
+	return text
+		.replace(/<[^>]*>/g, '')
+		.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (reference, name: string) => {
+			if (name.startsWith('#')) {
+				const code =
+					name[1] === 'x' || name[1] === 'X'
+						? parseInt(name.slice(2), 16)
+						: parseInt(name.slice(1), 10);
+				return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : reference;
+			}
+			return NAMED_REFERENCES[name] ?? reference;
+		});
+}
+
+/**
+ * Reads the cue blocks of a WebVTT file.
+ *
+ * Blocks are separated by blank lines. The `WEBVTT` header and `NOTE`,
+ * `STYLE` and `REGION` blocks are skipped, and so are cues whose timing line
+ * is malformed or ends before it starts. Cue settings after the end time are ignored.
+ *
+ * Files written by hand are read leniently, as `parseSpeakers` always has:
+ * every `-->` line starts a new cue, even without a blank line before it (or
+ * after the header), and `NOTE` lines inside cue text are dropped.
+ *
+ * @param content - WebVTT file content
+ * @returns Cues in file order
+ * @see https://www.w3.org/TR/webvtt1/#webvtt-cue-block
+ */
+export function readCues(content: string): WebVTTCue[] {
+	const lines = content
+		.replace(/^\uFEFF/, '')
+		.replace(/\r\n?/g, '\n')
+		.split('\n');
+
+	const cues: WebVTTCue[] = [];
+	let blockStart = true;
+	let id: string | undefined;
+	let current: WebVTTCue | null = null;
+	for (const line of lines) {
+		if (line.trim() === '') {
+			blockStart = true;
+			id = undefined;
+			current = null;
+			continue;
+		}
+
+		if (line.includes('-->')) {
+			const timing = line.match(/^[ \t]*(\S+)[ \t]+-->[ \t]+(\S+)/);
+			const startTime = timing ? parseTimestamp(timing[1]!) : null;
+			const endTime = timing ? parseTimestamp(timing[2]!) : null;
+			current =
+				startTime === null || endTime === null || endTime < startTime
+					? null
+					: { startTime, endTime, lines: [] };
+			if (current && id !== undefined) current.id = id;
+			if (current) cues.push(current);
+			blockStart = false;
+			id = undefined;
+			continue;
+		}
+
+		// The first line of a block is a header, a NOTE/STYLE/REGION keyword or a cue id
+		if (blockStart) {
+			blockStart = false;
+			if (!/^(?:WEBVTT|NOTE|STYLE|REGION)(?:[ \t]|$)/.test(line)) id = line.trim();
+			continue;
+		}
+		id = undefined;
+		if (current && !/^NOTE(?:[ \t]|$)/.test(line)) {
+			current.lines.push(line);
+		}
+	}
+	return cues;
+}